@@ -0,0 +1,340 @@
+// src/autobook.ts
+import { randomUUID } from "crypto";
+import { bookSlot } from "./booking";
+import type { SessionAccount } from "./session";
+import { notify, describeFailures, type NotifyEvent, type NotifyTarget } from "./notify";
+import { forgetListing, recentReservations, type Reservation } from "./reservations";
+import { readJson, writeJson } from "./store";
+import { isGroupSlot, minutesOfDay } from "./slots";
+import type { Slot } from "./ubc";
+
+export type AutoBookConfig = {
+    enabled: boolean;
+    /** Court names, most preferred first. Non-empty = only these courts. */
+    courts?: string[];
+    /** Start hours (0–23), most preferred first. Non-empty = only these hours. */
+    hours?: number[];
+    max_per_day: number;
+    max_per_week: number;
+    blackout_dates?: string[];
+    /** Run the booking flow but stop before the final confirm. */
+    dry_run?: boolean;
+};
+
+export type AutoBooking = {
+    id: string;
+    watch_id: string;
+    /** the watch owner; absent on bookings recorded before it was kept */
+    owner_id?: string;
+    slot: Slot;
+    confirmation_number: string | null;
+    booked_at: string;
+};
+
+/** Whose bookings the per-day/per-week safeguards count. */
+export type BookingOwner = {
+    id: string;
+    /** the owner's watches, to attribute bookings that have no owner_id */
+    watch_ids: string[];
+};
+
+export type AuditAction = "booked" | "dry_run" | "skipped" | "failed";
+
+export type AuditEntry = {
+    id: string;
+    ts: string;
+    watch_id: string;
+    action: AuditAction;
+    slot: Slot | null;
+    reason: string;
+    detail?: string;
+};
+
+const BOOKINGS_FILE = "auto-bookings.json";
+const AUDIT_FILE = "audit-log.json";
+const AUDIT_MAX_ENTRIES = 5000;
+/**
+ * How long a My Bookings listing is trusted by the safeguards. Bookings made
+ * through this service drop the listing at once; this only bounds how late a
+ * booking made directly on PerfectMind is noticed.
+ */
+const RESERVATIONS_MAX_AGE_MS = 30 * 60_000;
+
+// ------------------------------- STORAGE ------------------------------------
+
+let bookings: AutoBooking[] | null = null;
+let audit: AuditEntry[] | null = null;
+
+function loadBookings(): AutoBooking[] {
+    if (!bookings) bookings = readJson<AutoBooking[]>(BOOKINGS_FILE, []);
+    return bookings;
+}
+
+function bookingsOf(owner: BookingOwner): AutoBooking[] {
+    return loadBookings().filter((b) =>
+        b.owner_id ? b.owner_id === owner.id : owner.watch_ids.includes(b.watch_id)
+    );
+}
+
+function loadAudit(): AuditEntry[] {
+    if (!audit) audit = readJson<AuditEntry[]>(AUDIT_FILE, []);
+    return audit;
+}
+
+function record(entry: Omit<AuditEntry, "id" | "ts">): void {
+    const list = loadAudit();
+    list.push({ id: randomUUID(), ts: new Date().toISOString(), ...entry });
+    if (list.length > AUDIT_MAX_ENTRIES) {
+        list.splice(0, list.length - AUDIT_MAX_ENTRIES);
+    }
+    writeJson(AUDIT_FILE, list);
+}
+
+export function listAudit(filter: {
+    watch_id?: string;
+    /** restrict to these watches (a member's own) */
+    watch_ids?: string[];
+    action?: AuditAction;
+    limit?: number;
+}): AuditEntry[] {
+    const matches = loadAudit().filter(
+        (e) =>
+            (!filter.watch_id || e.watch_id === filter.watch_id) &&
+            (!filter.watch_ids || filter.watch_ids.includes(e.watch_id)) &&
+            (!filter.action || e.action === filter.action)
+    );
+    // Newest first
+    return matches.reverse().slice(0, filter.limit ?? 100);
+}
+
+// ------------------------------- RANKING ------------------------------------
+
+function normalizeCourt(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function startHour(slot: Slot): number {
+    return parseInt(slot.time_24h.split(":")[0], 10);
+}
+
+/**
+ * Order candidate slots: preferred courts first, then preferred start hours,
+ * then longest duration, then earliest. Slots outside a non-empty court or
+ * hour list are dropped.
+ */
+export function rankSlots(slots: Slot[], config: AutoBookConfig): Slot[] {
+    const courts = (config.courts ?? []).map(normalizeCourt);
+    const hours = config.hours ?? [];
+
+    const courtRank = (s: Slot) =>
+        courts.length ? courts.indexOf(normalizeCourt(s.location)) : 0;
+    const hourRank = (s: Slot) =>
+        hours.length ? hours.indexOf(startHour(s)) : 0;
+
+    return slots
+        .filter((s) => courtRank(s) !== -1 && hourRank(s) !== -1)
+        .sort(
+            (a, b) =>
+                courtRank(a) - courtRank(b) ||
+                hourRank(a) - hourRank(b) ||
+                b.minutes - a.minutes ||
+                a.date_iso.localeCompare(b.date_iso) ||
+                a.time_24h.localeCompare(b.time_24h)
+        );
+}
+
+// ------------------------------ SAFEGUARDS ----------------------------------
+
+/** Monday of the slot's week, as YYYY-MM-DD. */
+function weekOf(dateIso: string): string {
+    const d = new Date(`${dateIso}T00:00:00Z`);
+    const offset = (d.getUTCDay() + 6) % 7;
+    d.setUTCDate(d.getUTCDate() - offset);
+    return d.toISOString().slice(0, 10);
+}
+
+function overlaps(a: Slot, b: Slot): boolean {
+    if (a.date_iso !== b.date_iso) return false;
+    const aStart = minutesOfDay(a.time_24h);
+    const bStart = minutesOfDay(b.time_24h);
+    return aStart < bStart + b.minutes && bStart < aStart + a.minutes;
+}
+
+/** Whether a My Bookings row is the reservation an auto-booking made. */
+function sameBooking(booking: AutoBooking, reservation: Reservation): boolean {
+    if (booking.confirmation_number && reservation.confirmation_number) {
+        return booking.confirmation_number === reservation.confirmation_number;
+    }
+    const court = normalizeCourt(reservation.court);
+    const location = normalizeCourt(booking.slot.location);
+    return (
+        booking.slot.date_iso === reservation.date_iso &&
+        booking.slot.time_24h === reservation.time_24h &&
+        booking.slot.minutes === reservation.minutes &&
+        (court.includes(location) || location.includes(court))
+    );
+}
+
+/**
+ * Everything the member holds: auto-bookings plus the reservations on My
+ * Bookings (manual /book, Telegram, PerfectMind itself), each counted once.
+ */
+export function knownBookings(booked: AutoBooking[], reservations: Reservation[]): Slot[] {
+    const others = reservations
+        .filter((r) => !booked.some((b) => sameBooking(b, r)))
+        .map((r) => ({
+            date_iso: r.date_iso,
+            time_24h: r.time_24h,
+            minutes: r.minutes,
+            start_iso: r.start_iso,
+            end_iso: r.end_iso,
+            location: r.court,
+            deep_link: null
+        }));
+    return [...booked.map((b) => b.slot), ...others];
+}
+
+/** Reason the slot must not be booked, or null when all safeguards pass. */
+export function safeguardViolation(
+    slot: Slot,
+    config: AutoBookConfig,
+    existing: Slot[]
+): string | null {
+    if (config.blackout_dates?.includes(slot.date_iso)) {
+        return "blackout_date";
+    }
+    if (existing.some((b) => overlaps(b, slot))) {
+        return "overlaps_existing_booking";
+    }
+    const sameDay = existing.filter((b) => b.date_iso === slot.date_iso);
+    if (sameDay.length >= config.max_per_day) {
+        return "daily_quota_reached";
+    }
+    const week = weekOf(slot.date_iso);
+    const sameWeek = existing.filter((b) => weekOf(b.date_iso) === week);
+    if (sameWeek.length >= config.max_per_week) {
+        return "weekly_quota_reached";
+    }
+    return null;
+}
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+/** Booking outcomes are already in the audit log; a failed notify is only logged. */
+async function notifyQuietly(target: NotifyTarget, event: NotifyEvent): Promise<void> {
+    const sent = await notify({ notify: target, event });
+    if (!sent.ok) {
+        console.error(`[autobook] ${event.type} notify failed: ${describeFailures(sent)}`);
+    }
+}
+
+/**
+ * Try to book the best-ranked fresh slot for a watch. At most one booking
+ * per run; a slot that was taken in the meantime falls through to the next
+ * candidate. Safeguards count the watch owner's auto-bookings and the
+ * reservations on their My Bookings page; when that page cannot be read,
+ * nothing is booked. Group slots (courts_needed) are left to the
+ * notification: bookSlot reserves one court. Every decision is written to
+ * the audit log.
+ */
+export async function autoBook(
+    watchId: string,
+    owner: BookingOwner,
+    config: AutoBookConfig,
+    notifyTarget: NotifyTarget,
+    freshSlots: Slot[],
+    account: SessionAccount | null
+): Promise<AutoBooking | null> {
+    const candidates = rankSlots(freshSlots.filter((slot) => !isGroupSlot(slot)), config);
+    console.log(
+        `[autobook] Watch ${watchId}: ${candidates.length}/${freshSlots.length} fresh slots are single courts matching the ranking rules`
+    );
+
+    if (candidates.length === 0) return null;
+
+    let reservations: Reservation[] = [];
+    if (account) {
+        try {
+            reservations = await recentReservations(account, RESERVATIONS_MAX_AGE_MS);
+        } catch (err: any) {
+            const detail = String(err?.message || err);
+            console.error(`[autobook] Watch ${watchId}: could not read My Bookings: ${detail}`);
+            record({
+                watch_id: watchId,
+                action: "skipped",
+                slot: null,
+                reason: "reservations_unavailable",
+                detail
+            });
+            return null;
+        }
+    }
+
+    for (const slot of candidates) {
+        const violation = safeguardViolation(slot, config, knownBookings(bookingsOf(owner), reservations));
+        if (violation) {
+            record({ watch_id: watchId, action: "skipped", slot, reason: violation });
+            continue;
+        }
+
+        const result = await bookSlot({ slot, dry_run: config.dry_run }, account);
+
+        if (result.status === "dry_run") {
+            record({
+                watch_id: watchId,
+                action: "dry_run",
+                slot,
+                reason: "dry_run",
+                detail: result.price_summary ?? undefined
+            });
+            return null;
+        }
+
+        if (result.status === "failed") {
+            record({
+                watch_id: watchId,
+                action: "failed",
+                slot,
+                reason: result.reason,
+                detail: result.detail
+            });
+            // Gone, or not bookable at this length: try the next candidate
+            if (result.reason === "slot_taken" || result.reason === "duration_unavailable") continue;
+            await notifyQuietly(notifyTarget, {
+                type: "booking_failed",
+                slot,
+                reason: result.reason,
+                detail: result.detail
+            });
+            return null;
+        }
+
+        const booking: AutoBooking = {
+            id: randomUUID(),
+            watch_id: watchId,
+            owner_id: owner.id,
+            slot,
+            confirmation_number: result.confirmation_number,
+            booked_at: new Date().toISOString()
+        };
+        loadBookings().push(booking);
+        writeJson(BOOKINGS_FILE, loadBookings());
+        forgetListing(account);
+        record({
+            watch_id: watchId,
+            action: "booked",
+            slot,
+            reason: "ranked_match",
+            detail: result.confirmation_number ?? undefined
+        });
+
+        await notifyQuietly(notifyTarget, {
+            type: "booking_confirmed",
+            slot,
+            confirmation_number: result.confirmation_number
+        });
+        return booking;
+    }
+
+    return null;
+}
@@ -0,0 +1,393 @@
+// src/booking.ts
+import { Page, Locator } from "playwright";
+import { BASE_URL } from "./login";
+import { withSession, defaultAccount, LoginFailedError, type SessionAccount } from "./session";
+import {
+    gotoSchedulerDate,
+    bookNowTiles,
+    isTileAvailable,
+    parseTileTitle,
+    resolveTileDate,
+    type Slot
+} from "./ubc";
+import { locate } from "./selectors";
+import { isGroupSlot, slotTiles } from "./slots";
+
+export type BookingRequest = {
+    slot: Slot;
+    dry_run?: boolean;
+    attendees?: number;
+};
+
+export type BookingFailureReason =
+    | "login_failed"
+    | "court_not_found"
+    | "slot_taken"
+    | "payment_required"
+    /** the form cannot book exactly slot.minutes (e.g. a merged block without a duration choice) */
+    | "duration_unavailable"
+    | "form_changed"
+    | "unknown";
+
+export type BookingResult =
+    | {
+          status: "booked";
+          slot: Slot;
+          confirmation_number: string | null;
+          price_summary: string | null;
+      }
+    | {
+          status: "dry_run";
+          slot: Slot;
+          price_summary: string | null;
+      }
+    | {
+          status: "failed";
+          slot: Slot;
+          reason: BookingFailureReason;
+          detail: string;
+      };
+
+/** Thrown inside the flow to bail out with a structured reason. */
+class BookingFailure extends Error {
+    constructor(
+        readonly reason: BookingFailureReason,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+// ----------------------------- COURT LOOKUP ---------------------------------
+
+function normalizeLabel(label: string): string {
+    return label.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * A client-supplied deep_link the logged-in browser may open: a facility
+ * page on PerfectMind's own origin. Anything else (another host, or the
+ * court list itself) is null, so the court is looked up by heading instead.
+ */
+export function facilityDeepLink(deepLink: string | null): string | null {
+    if (!deepLink) return null;
+    let url: URL;
+    try {
+        url = new URL(deepLink);
+    } catch {
+        return null;
+    }
+    if (url.origin !== new URL(BASE_URL).origin) return null;
+    if (deepLink.startsWith(BASE_URL.split("?")[0])) return null;
+    return url.toString();
+}
+
+/**
+ * Facility page URL for the slot's court. Slots produced by the scanner carry
+ * the facility page as deep_link; otherwise match the court list by heading.
+ */
+async function resolveFacilityUrl(page: Page, slot: Slot): Promise<string> {
+    const deepLink = facilityDeepLink(slot.deep_link);
+    if (deepLink) return deepLink;
+
+    const wanted = normalizeLabel(slot.location);
+    const chooseButtons = await locate(page, "court_choose_button");
+    const count = await chooseButtons.count();
+
+    for (let i = 0; i < count; i++) {
+        const button = chooseButtons.nth(i);
+        const card = (await locate(button, "court_card")).first();
+        const heading = (await locate(card, "court_card_name")).first();
+        const text = (await heading.innerText().catch(() => "")).trim();
+        if (!text || normalizeLabel(text) !== wanted) continue;
+
+        const href = await button.getAttribute("href");
+        if (href) return new URL(href, BASE_URL).toString();
+    }
+
+    throw new BookingFailure(
+        "court_not_found",
+        `No court named "${slot.location}" on the facility list`
+    );
+}
+
+// ----------------------------- BOOKING FLOW ---------------------------------
+
+/**
+ * The "Book Now" tile matching the slot's date and start time, if still
+ * open, with its own length (a merged block starts with its first tile).
+ */
+async function findSlotTile(page: Page, slot: Slot): Promise<{ tile: Locator; minutes: number }> {
+    const range = await gotoSchedulerDate(page, slot.date_iso);
+    if (!range) {
+        throw new BookingFailure(
+            "form_changed",
+            `Could not move the scheduler to ${slot.date_iso}`
+        );
+    }
+    const fallbackDate = range.start === range.end ? range.start : null;
+
+    const tiles = await bookNowTiles(page);
+    const count = await tiles.count();
+
+    for (let i = 0; i < count; i++) {
+        const tile = tiles.nth(i);
+        const times = parseTileTitle((await tile.getAttribute("title")) || "");
+        if (!times || times.start24 !== slot.time_24h) continue;
+
+        const dateIso = (await resolveTileDate(tile)) || fallbackDate;
+        if (dateIso !== slot.date_iso) continue;
+
+        if (!(await tile.isVisible().catch(() => false))) continue;
+        if (!(await isTileAvailable(tile))) continue;
+
+        return { tile, minutes: times.minutes };
+    }
+
+    throw new BookingFailure(
+        "slot_taken",
+        `No open "Book Now" tile at ${slot.date_iso} ${slot.time_24h} on "${slot.location}"`
+    );
+}
+
+/** Minutes described by a duration option label such as "1 Hour", "90 min" or "1:30". */
+function optionMinutes(label: string): number | null {
+    const text = label.toLowerCase();
+
+    const clock = text.match(/(\d{1,2}):(\d{2})/);
+    if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+    const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h\b)/);
+    const mins = text.match(/(\d+)\s*(?:minutes?|mins?|m\b)/);
+    if (hours || mins) {
+        return (
+            (hours ? Number(hours[1]) * 60 : 0) + (mins ? Number(mins[1]) : 0)
+        );
+    }
+
+    const bare = text.match(/^\s*(\d+)\s*$/);
+    return bare ? Number(bare[1]) : null;
+}
+
+/**
+ * Fill the duration/attendee form shown after picking a tile and move on.
+ * Without a duration choice the booking is the clicked tile's `tileMinutes`,
+ * which must already be the slot's length.
+ */
+async function fillBookingForm(
+    page: Page,
+    slot: Slot,
+    tileMinutes: number,
+    attendees: number
+): Promise<void> {
+    const durationSelect = page
+        .locator('select[name*="duration" i], select[id*="duration" i]')
+        .first();
+    if (await durationSelect.isVisible().catch(() => false)) {
+        const options = await durationSelect
+            .locator("option")
+            .evaluateAll((els) =>
+                els.map((el) => ({
+                    value: (el as HTMLOptionElement).value,
+                    label: (el.textContent || "").trim()
+                }))
+            );
+        const match = options.find(
+            (o) => optionMinutes(o.label) === slot.minutes
+        );
+        if (!match) {
+            throw new BookingFailure(
+                "duration_unavailable",
+                `No ${slot.minutes}-minute duration offered (options: ${options
+                    .map((o) => o.label)
+                    .join(", ")})`
+            );
+        }
+        console.log(`[booking] Selecting duration "${match.label}"`);
+        await durationSelect.selectOption(match.value);
+    } else if (tileMinutes !== slot.minutes) {
+        const tiles = slotTiles(slot).length;
+        throw new BookingFailure(
+            "duration_unavailable",
+            `The booking form has no duration choice, so it would book ${tileMinutes} min instead of ${slot.minutes}` +
+                (tiles > 1 ? ` (the slot is ${tiles} back-to-back tiles; book them one at a time)` : "")
+        );
+    }
+
+    const attendeeInput = page
+        .locator(
+            'input[name*="attendee" i], input[id*="attendee" i], input[name*="participant" i]'
+        )
+        .first();
+    if (await attendeeInput.isVisible().catch(() => false)) {
+        console.log(`[booking] Setting attendees to ${attendees}`);
+        await attendeeInput.fill(String(attendees));
+    }
+
+    const nextButton = page
+        .getByRole("button", { name: /next|continue|add to cart|book/i })
+        .first();
+    if (!(await nextButton.isVisible().catch(() => false))) {
+        throw new BookingFailure(
+            "form_changed",
+            "Could not find a Next/Continue button on the booking form"
+        );
+    }
+    await nextButton.click();
+    await page.waitForLoadState("networkidle");
+}
+
+/** Order total / summary text from the checkout page, if one is rendered. */
+async function readPriceSummary(page: Page): Promise<string | null> {
+    const summary = page
+        .locator(
+            '.order-summary, .cart-summary, .checkout-summary, [class*="total" i]'
+        )
+        .first();
+    if (!(await summary.isVisible().catch(() => false))) return null;
+    const text = (await summary.innerText().catch(() => "")).trim();
+    return text ? text.replace(/\s+/g, " ") : null;
+}
+
+/** A non-zero total plus card/payment inputs means we cannot confirm unattended. */
+async function requiresPayment(
+    page: Page,
+    priceSummary: string | null
+): Promise<boolean> {
+    const amounts = (priceSummary?.match(/\$\s*\d+(?:\.\d{2})?/g) || []).map(
+        (a) => Number(a.replace(/[^0-9.]/g, ""))
+    );
+    const hasCharge = amounts.some((a) => a > 0);
+
+    const paymentFields = page.locator(
+        'input[name*="card" i], input[autocomplete="cc-number"], iframe[src*="payment" i]'
+    );
+    const hasPaymentFields = (await paymentFields.count().catch(() => 0)) > 0;
+
+    return hasCharge && hasPaymentFields;
+}
+
+/** "Confirmation #: AB-1234" and similar; also used on the My Bookings rows. */
+export function matchConfirmationNumber(text: string): string | null {
+    const match = text.match(
+        /confirmation\s*(?:#|number|no\.?)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/i
+    );
+    return match ? match[1] : null;
+}
+
+async function readConfirmationNumber(page: Page): Promise<string | null> {
+    const body = await page
+        .locator("body")
+        .innerText()
+        .catch(() => "");
+    return matchConfirmationNumber(body);
+}
+
+/** Facility page → tile → form → checkout, on an authenticated page. */
+async function runBookingFlow(
+    page: Page,
+    req: BookingRequest
+): Promise<BookingResult> {
+    const { slot } = req;
+
+    const facilityUrl = await resolveFacilityUrl(page, slot);
+    await page.goto(facilityUrl, { waitUntil: "networkidle" });
+
+    const { tile, minutes: tileMinutes } = await findSlotTile(page, slot);
+    console.log("[booking] Clicking Book Now tile…");
+    await tile.click();
+    await page.waitForLoadState("networkidle");
+
+    await fillBookingForm(page, slot, tileMinutes, req.attendees ?? 2);
+
+    const priceSummary = await readPriceSummary(page);
+    console.log(`[booking] Checkout summary: ${priceSummary ?? "(none)"}`);
+
+    if (await requiresPayment(page, priceSummary)) {
+        throw new BookingFailure(
+            "payment_required",
+            `Checkout asks for payment: ${priceSummary ?? "unknown total"}`
+        );
+    }
+
+    if (req.dry_run) {
+        console.log("[booking] Dry run: stopping before final confirm");
+        return { status: "dry_run", slot, price_summary: priceSummary };
+    }
+
+    const confirmButton = page
+        .getByRole("button", {
+            name: /place order|confirm|complete|check ?out|submit/i
+        })
+        .first();
+    if (!(await confirmButton.isVisible().catch(() => false))) {
+        throw new BookingFailure(
+            "form_changed",
+            "Could not find the final confirm button on checkout"
+        );
+    }
+    console.log("[booking] Confirming checkout…");
+    await confirmButton.click();
+    await page.waitForLoadState("networkidle");
+
+    const confirmationNumber = await readConfirmationNumber(page);
+    console.log(
+        `[booking] Booked; confirmation ${confirmationNumber ?? "(not shown)"}`
+    );
+    return {
+        status: "booked",
+        slot,
+        confirmation_number: confirmationNumber,
+        price_summary: priceSummary
+    };
+}
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+/**
+ * Reserve one slot end to end: tile → duration/attendee form → checkout.
+ * With dry_run the flow stops on the checkout page, before the final confirm.
+ */
+export async function bookSlot(
+    req: BookingRequest,
+    account: SessionAccount | null = defaultAccount()
+): Promise<BookingResult> {
+    const { slot } = req;
+
+    if (isGroupSlot(slot)) {
+        return {
+            status: "failed",
+            slot,
+            reason: "court_not_found",
+            detail: `"${slot.location}" spans several courts; book each court's slot on its own`
+        };
+    }
+
+    try {
+        console.log(
+            `[booking] Booking ${slot.location} ${slot.date_iso} ${slot.time_24h} (${slot.minutes} min)${req.dry_run ? " [dry run]" : ""}…`
+        );
+        return await withSession((page) => runBookingFlow(page, req), account);
+    } catch (err: any) {
+        const failure =
+            err instanceof LoginFailedError
+                ? new BookingFailure("login_failed", err.message)
+                : err;
+        if (failure instanceof BookingFailure) {
+            console.warn(`[booking] Failed (${failure.reason}): ${failure.message}`);
+            return {
+                status: "failed",
+                slot,
+                reason: failure.reason,
+                detail: failure.message
+            };
+        }
+        console.error("[booking] Unexpected error:", err?.message || err);
+        return {
+            status: "failed",
+            slot,
+            reason: "unknown",
+            detail: String(err?.message || err)
+        };
+    }
+}
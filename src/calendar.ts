@@ -0,0 +1,115 @@
+// src/calendar.ts
+//
+// Subscribable iCalendar feeds for Google/Outlook. Calendar clients cannot
+// send a Bearer header, so each user gets a separate feed secret that goes
+// in the URL (only its hash is stored; rotating it breaks the old links).
+// Bookings come from My Bookings, scraped at most every
+// CALENDAR_BOOKINGS_TTL_MINUTES; availability is what the user's watches
+// saw open on their last run, so a fetch never waits on a scan.
+import { env } from "./config/env";
+import { buildCalendar, reservationEvent, slotEvent, slotUid, type IcsEvent } from "./ics";
+import { recentReservations } from "./reservations";
+import { generateToken, hashToken, safeEqual } from "./secrets";
+import { readJson, writeJson } from "./store";
+import { accountFor, getUser, type User } from "./users";
+import { listWatches, watchOwner, type Watch } from "./watches";
+
+type FeedToken = { token_hash: string; created_at: string };
+
+const TOKENS_FILE = "calendar-tokens.json";
+/** Asked of subscribed clients; most poll less often anyway. */
+const REFRESH_MINUTES = 30;
+
+// ------------------------------- TOKENS -------------------------------------
+
+let tokens: Record<string, FeedToken> | null = null;
+
+function load(): Record<string, FeedToken> {
+    if (!tokens) tokens = readJson<Record<string, FeedToken>>(TOKENS_FILE, {});
+    return tokens;
+}
+
+function save(): void {
+    writeJson(TOKENS_FILE, load());
+}
+
+/** New feed secret for the user; the previous one stops working. */
+export function rotateCalendarToken(userId: string): string {
+    const token = generateToken();
+    load()[userId] = { token_hash: hashToken(token), created_at: new Date().toISOString() };
+    save();
+    return token;
+}
+
+export function revokeCalendarToken(userId: string): boolean {
+    const all = load();
+    if (!all[userId]) return false;
+    delete all[userId];
+    save();
+    return true;
+}
+
+/** The enabled user a feed secret belongs to. */
+export function calendarUser(token: string): User | null {
+    if (!token) return null;
+    const hash = hashToken(token);
+    const entry = Object.entries(load()).find(([, t]) => safeEqual(t.token_hash, hash));
+    const user = entry ? getUser(entry[0]) : undefined;
+    return user?.enabled ? user : null;
+}
+
+// -------------------------------- FEEDS -------------------------------------
+
+/** The user's confirmed reservations; empty without a UBC account. */
+export async function bookingsCalendar(user: User): Promise<string> {
+    const account = accountFor(user);
+    const reservations = account
+        ? await recentReservations(account, env.calendar.bookingsTtlMs)
+        : [];
+    return buildCalendar(reservations.map(reservationEvent), {
+        name: "UBC Tennis – bookings",
+        refreshMinutes: REFRESH_MINUTES
+    });
+}
+
+function openSlotEvents(watches: Watch[]): IcsEvent[] {
+    const now = Date.now();
+    const events = new Map<string, IcsEvent>();
+    for (const watch of watches) {
+        for (const slot of watch.open_slots ?? []) {
+            if (Date.parse(slot.end_iso) <= now || events.has(slotUid(slot))) continue;
+            events.set(slotUid(slot), {
+                ...slotEvent(slot, `Open: ${slot.location} (${slot.minutes} min)`),
+                description: [
+                    `${slot.minutes} min on ${slot.location}`,
+                    slot.deep_link ? `Book: ${slot.deep_link}` : null
+                ]
+                    .filter(Boolean)
+                    .join("\n"),
+                status: "TENTATIVE",
+                transparent: true
+            });
+        }
+    }
+    return [...events.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Open slots from one watch (`watchId`), or from all of the user's enabled
+ * watches. Null when the watch does not exist or is not the user's.
+ */
+export function availabilityCalendar(user: User, watchId?: string): string | null {
+    let watches: Watch[];
+    if (watchId) {
+        const watch = listWatches().find((w) => w.id === watchId);
+        if (!watch || (user.role !== "admin" && watchOwner(watch) !== user.id)) return null;
+        watches = [watch];
+    } else {
+        watches = listWatches().filter((w) => w.enabled && watchOwner(w) === user.id);
+    }
+
+    return buildCalendar(openSlotEvents(watches), {
+        name: "UBC Tennis – open courts",
+        refreshMinutes: REFRESH_MINUTES
+    });
+}
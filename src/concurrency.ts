@@ -0,0 +1,57 @@
+// src/concurrency.ts
+
+export type Limiter = {
+    run<T>(task: () => Promise<T>): Promise<T>;
+    readonly active: number;
+    readonly queued: number;
+};
+
+/**
+ * FIFO semaphore: at most `max` tasks run at once, the rest wait their turn.
+ */
+export function createLimiter(max: number): Limiter {
+    let active = 0;
+    const waiting: Array<() => void> = [];
+
+    // A finishing task hands its slot straight to the next waiter, so a new
+    // caller can never slip in between and push `active` past `max`.
+    function release() {
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+    }
+
+    return {
+        async run<T>(task: () => Promise<T>): Promise<T> {
+            if (active >= max) {
+                await new Promise<void>((resolve) => waiting.push(resolve));
+            } else {
+                active++;
+            }
+            try {
+                return await task();
+            } finally {
+                release();
+            }
+        },
+        get active() {
+            return active;
+        },
+        get queued() {
+            return waiting.length;
+        }
+    };
+}
+
+/** Reject with `message` if `promise` has not settled within `ms`. */
+export function withTimeout<T>(
+    promise: Promise<T>,
+    ms: number,
+    message: string
+): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -1,22 +1,69 @@
 // src/config/env.ts
 import "dotenv/config";
-import { z } from "zod";
+import { z } from "zod/v4";
+import { isValidTimeZone } from "../time";
 
 // 1. Describe all env vars and which ones are required
 const EnvSchema = z.object({
     PORT: z.string().default("8080"),
 
-    // GPT -> backend auth
+    // GPT -> backend auth; also the built-in admin token
     BOOKER_GPT_TOKEN: z.string().min(10, "BOOKER_GPT_TOKEN is missing"),
 
-    // UBC credentials
-    UBC_USER: z.string().min(1, "UBC_USER is missing"),
-    UBC_PASS: z.string().min(1, "UBC_PASS is missing"),
+    // Shared UBC account used by the built-in admin (users bring their own)
+    UBC_USER: z.string().min(1).optional(),
+    UBC_PASS: z.string().min(1).optional(),
     UBC_BASE_URL: z.string().optional(),
+    UBC_BOOKINGS_URL: z.string().optional(),
+
+    // Encrypts per-user UBC credentials at rest (required to store them)
+    CREDENTIALS_KEY: z.string().min(32, "CREDENTIALS_KEY must be at least 32 characters").optional(),
+
+    // Browser sessions: how many scans/bookings may use one account's context at once
+    SESSION_MAX_CONCURRENT: z.string().default("1"),
+    // How long a login waits at the Duo prompt for a push approval or passcode
+    MFA_TIMEOUT_SECONDS: z.string().default("180"),
+
+    // Court scanning: parallel facility tabs and per-court time budget
+    SCAN_CONCURRENCY: z.string().default("3"),
+    SCAN_COURT_TIMEOUT_MS: z.string().default("120000"),
+
+    // Background checks (POST /checks): scans at once, waiting jobs allowed,
+    // and how long a finished result answers identical requests
+    CHECK_JOBS_CONCURRENCY: z.string().default("2"),
+    CHECK_JOBS_MAX_QUEUED: z.string().default("20"),
+    CHECK_CACHE_SECONDS: z.string().default("120"),
+
+    // How long the scraped court catalog stays valid
+    COURT_CATALOG_TTL_HOURS: z.string().default("24"),
+
+    // Reservations: assumed cancellation notice when My Bookings shows no
+    // deadline, and how long before the deadline to send a reminder (unset = off)
+    BOOKING_CANCEL_NOTICE_HOURS: z.string().default("24"),
+    CANCEL_REMINDER_HOURS: z.string().optional(),
+
+    // Booking-window releases: "<days ahead>@HH:MM[,HH:MM…]" facility time,
+    // e.g. 14@00:00,07:00; unset = use the schedule learned from watch runs
+    RELEASE_SCHEDULE: z
+        .string()
+        .regex(/^\d{1,3}@\d{2}:\d{2}(,\d{2}:\d{2})*$/, "RELEASE_SCHEDULE must look like 14@00:00,07:00")
+        .optional(),
+    // Fast polling lasts this long after a release, with this pause between passes
+    RELEASE_WINDOW_MINUTES: z.string().default("10"),
+    RELEASE_POLL_SECONDS: z.string().default("5"),
+
+    // Availability history behind /stats: days kept
+    HISTORY_RETENTION_DAYS: z.string().default("90"),
+
+    // Calendar feeds: how long a scraped My Bookings listing serves bookings.ics
+    CALENDAR_BOOKINGS_TTL_MINUTES: z.string().default("30"),
+
+    // Local persistence (watches, last-seen slots, …)
+    DATA_DIR: z.string().default("data"),
 
     // Email notifications (optional)
-    EMAIL_FROM: z.string().email().optional(),
-    EMAIL_TO: z.string().email().optional(),
+    EMAIL_FROM: z.email().optional(),
+    EMAIL_TO: z.email().optional(),
     SMTP_HOST: z.string().optional(),
     SMTP_PORT: z.string().optional(),
     SMTP_USER: z.string().optional(),
@@ -24,7 +71,44 @@ const EnvSchema = z.object({
 
     // Telegram notifications (optional)
     TELEGRAM_BOT_TOKEN: z.string().optional(),
-    TELEGRAM_CHAT_ID: z.string().optional()
+    TELEGRAM_CHAT_ID: z.string().optional(),
+    TELEGRAM_API_BASE: z.url().default("https://api.telegram.org"),
+    // Two-way bot: who may talk to it, and how updates arrive
+    TELEGRAM_ALLOWED_CHAT_IDS: z.string().optional(),
+    TELEGRAM_WEBHOOK_SECRET: z
+        .string()
+        .regex(/^[A-Za-z0-9_-]{16,256}$/, "TELEGRAM_WEBHOOK_SECRET must be 16-256 of A-Z a-z 0-9 _ -")
+        .optional(),
+    TELEGRAM_POLLING: z.enum(["true", "false"]).default("false"),
+
+    // SMS through a generic HTTP gateway (optional)
+    SMS_GATEWAY_URL: z.url().optional(),
+    SMS_GATEWAY_TOKEN: z.string().optional(),
+    SMS_FROM: z.string().optional(),
+    SMS_TO: z.string().optional(),
+
+    // Delivery policy applied to every notification
+    NOTIFY_RETRY_ATTEMPTS: z.string().default("3"),
+    NOTIFY_RETRY_BASE_MS: z.string().default("2000"),
+    NOTIFY_SEND_TIMEOUT_SECONDS: z.string().default("10"),
+    NOTIFY_RATE_LIMIT: z.string().default("10"),
+    NOTIFY_RATE_WINDOW_MINUTES: z.string().default("60"),
+    NOTIFY_DEDUP_MINUTES: z.string().default("30"),
+    NOTIFY_QUIET_HOURS: z
+        .string()
+        .regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/, "NOTIFY_QUIET_HOURS must be HH:MM-HH:MM")
+        .optional(),
+    NOTIFY_TIMEZONE: z
+        .string()
+        .default("America/Vancouver")
+        .refine(isValidTimeZone, "NOTIFY_TIMEZONE is not a known time zone"),
+
+    // Signed outbound webhook (optional)
+    WEBHOOK_URL: z.url().optional(),
+    WEBHOOK_SECRET: z.string().min(16, "WEBHOOK_SECRET must be at least 16 characters").optional(),
+    // Hosts a target's own webhook_url may call besides WEBHOOK_URL's
+    // (comma-separated; ".example.com" also allows its subdomains)
+    WEBHOOK_ALLOWED_HOSTS: z.string().optional()
 });
 
 // 2. Parse + validate
@@ -32,7 +116,7 @@ const parsed = EnvSchema.safeParse(process.env);
 
 if (!parsed.success) {
     console.error("❌ Invalid or missing environment variables:");
-    console.error(parsed.error.format());
+    console.error(z.prettifyError(parsed.error));
     process.exit(1);
 }
 
@@ -45,11 +129,60 @@ export const env = {
     bookerToken: raw.BOOKER_GPT_TOKEN,
 
     ubc: {
-        user: raw.UBC_USER,
-        pass: raw.UBC_PASS,
-        baseUrl: raw.UBC_BASE_URL
+        credentials:
+            raw.UBC_USER && raw.UBC_PASS
+                ? { user: raw.UBC_USER, pass: raw.UBC_PASS }
+                : null,
+        baseUrl: raw.UBC_BASE_URL,
+        bookingsUrl: raw.UBC_BOOKINGS_URL
+    },
+
+    bookings: {
+        cancelNoticeHours: Math.max(0, Number(raw.BOOKING_CANCEL_NOTICE_HOURS) || 0),
+        reminderHours: Number(raw.CANCEL_REMINDER_HOURS) || null
+    },
+
+    credentialsKey: raw.CREDENTIALS_KEY ?? null,
+
+    session: {
+        maxConcurrent: Math.max(1, Number(raw.SESSION_MAX_CONCURRENT) || 1),
+        mfaTimeoutMs: Math.max(30, Number(raw.MFA_TIMEOUT_SECONDS) || 180) * 1000
+    },
+
+    scan: {
+        concurrency: Math.max(1, Number(raw.SCAN_CONCURRENCY) || 3),
+        courtTimeoutMs: Number(raw.SCAN_COURT_TIMEOUT_MS) || 120000
     },
 
+    jobs: {
+        concurrency: Math.max(1, Number(raw.CHECK_JOBS_CONCURRENCY) || 2),
+        maxQueued: Math.max(1, Number(raw.CHECK_JOBS_MAX_QUEUED) || 20),
+        cacheMs: (Number(raw.CHECK_CACHE_SECONDS) || 0) * 1000
+    },
+
+    courtCatalogTtlHours: Number(raw.COURT_CATALOG_TTL_HOURS) || 24,
+
+    releases: {
+        schedule: raw.RELEASE_SCHEDULE
+            ? {
+                days_ahead: Number(raw.RELEASE_SCHEDULE.split("@")[0]),
+                times: raw.RELEASE_SCHEDULE.split("@")[1].split(",")
+            }
+            : null,
+        windowMs: (Number(raw.RELEASE_WINDOW_MINUTES) || 10) * 60_000,
+        pollMs: (Number(raw.RELEASE_POLL_SECONDS) || 0) * 1000
+    },
+
+    history: {
+        retentionDays: Math.max(1, Number(raw.HISTORY_RETENTION_DAYS) || 90)
+    },
+
+    calendar: {
+        bookingsTtlMs: Math.max(1, Number(raw.CALENDAR_BOOKINGS_TTL_MINUTES) || 30) * 60_000
+    },
+
+    dataDir: raw.DATA_DIR,
+
     smtp: raw.SMTP_HOST
         ? {
             host: raw.SMTP_HOST,
@@ -64,7 +197,61 @@ export const env = {
     telegram: raw.TELEGRAM_BOT_TOKEN
         ? {
             botToken: raw.TELEGRAM_BOT_TOKEN,
-            chatId: raw.TELEGRAM_CHAT_ID || undefined
+            chatId: raw.TELEGRAM_CHAT_ID || undefined,
+            apiBase: raw.TELEGRAM_API_BASE.replace(/\/+$/, ""),
+            // Defaults to the notification chat, so a one-person setup just works
+            allowedChatIds: (raw.TELEGRAM_ALLOWED_CHAT_IDS ?? raw.TELEGRAM_CHAT_ID ?? "")
+                .split(",")
+                .map((id) => id.trim())
+                .filter(Boolean),
+            webhookSecret: raw.TELEGRAM_WEBHOOK_SECRET,
+            // How the bot receives commands; null = send-only
+            updates:
+                raw.TELEGRAM_POLLING === "true"
+                    ? ("polling" as const)
+                    : raw.TELEGRAM_WEBHOOK_SECRET
+                      ? ("webhook" as const)
+                      : null
+        }
+        : null,
+
+    sms: raw.SMS_GATEWAY_URL
+        ? {
+            gatewayUrl: raw.SMS_GATEWAY_URL,
+            token: raw.SMS_GATEWAY_TOKEN,
+            from: raw.SMS_FROM,
+            to: raw.SMS_TO
+        }
+        : null,
+
+    notifyPolicy: {
+        retryAttempts: Math.max(1, Number(raw.NOTIFY_RETRY_ATTEMPTS) || 3),
+        retryBaseMs: Number(raw.NOTIFY_RETRY_BASE_MS) || 2000,
+        sendTimeoutMs: Math.max(1, Number(raw.NOTIFY_SEND_TIMEOUT_SECONDS) || 10) * 1000,
+        rateLimit: Math.max(1, Number(raw.NOTIFY_RATE_LIMIT) || 10),
+        rateWindowMs: (Number(raw.NOTIFY_RATE_WINDOW_MINUTES) || 60) * 60_000,
+        dedupMs: (Number(raw.NOTIFY_DEDUP_MINUTES) || 0) * 60_000,
+        // Default quiet hours for targets that do not set their own
+        quietHours: raw.NOTIFY_QUIET_HOURS
+            ? {
+                start: raw.NOTIFY_QUIET_HOURS.split("-")[0],
+                end: raw.NOTIFY_QUIET_HOURS.split("-")[1]
+            }
+            : null,
+        timeZone: raw.NOTIFY_TIMEZONE
+    },
+
+    // The secret is what makes it a signed webhook; the URL may come per target.
+    webhook: raw.WEBHOOK_SECRET
+        ? {
+            secret: raw.WEBHOOK_SECRET,
+            url: raw.WEBHOOK_URL,
+            allowedHosts: [
+                ...(raw.WEBHOOK_URL ? [new URL(raw.WEBHOOK_URL).hostname] : []),
+                ...(raw.WEBHOOK_ALLOWED_HOSTS ?? "").split(",")
+            ]
+                .map((host) => host.trim().toLowerCase())
+                .filter(Boolean)
         }
         : null
 } as const;
@@ -0,0 +1,212 @@
+// src/courts.ts
+import { Page } from "playwright";
+import { env } from "./config/env";
+import { BASE_URL } from "./login";
+import { withSession, defaultAccount, type SessionAccount } from "./session";
+import { readJson, writeJson } from "./store";
+import { checkPage, locate } from "./selectors";
+
+export type CourtInfo = {
+    name: string;
+    facility_url: string | null;
+    /** null when the facility list does not say */
+    indoor: boolean | null;
+    surface: string | null;
+};
+
+export type CourtCatalog = {
+    built_at: string;
+    courts: CourtInfo[];
+};
+
+export type CourtSelection = {
+    selected: CourtInfo[];
+    skipped: Array<{ court: CourtInfo; reason: string }>;
+};
+
+const CATALOG_FILE = "courts.json";
+
+let cached: CourtCatalog | null = null;
+
+// ------------------------------ LIST PARSING --------------------------------
+
+const SURFACE_PATTERN =
+    /\b(hard|clay|acrylic|asphalt|concrete|carpet|grass|cushion(?:ed)?|synthetic|turf)\b/i;
+
+function parseIndoor(text: string): boolean | null {
+    if (/\bindoor\b/i.test(text)) return true;
+    if (/\boutdoor\b/i.test(text)) return false;
+    return null;
+}
+
+function parseSurface(text: string): string | null {
+    const match = text.match(SURFACE_PATTERN);
+    return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Read every court off the facility list: name, facility URL and whatever
+ * the card says about indoor/outdoor and surface. Courts whose "Choose"
+ * button has no href are resolved by clicking through and coming back.
+ */
+async function readCourtList(page: Page): Promise<CourtInfo[]> {
+    await checkPage(page, "court_list");
+
+    // Select only desktop "Choose" buttons to avoid duplicates (each court has desktop + tablet versions)
+    const chooseButtons = await locate(page, "court_choose_button");
+    const count = await chooseButtons.count();
+    console.log(`[courts] Found ${count} court 'Choose' buttons (desktop only)`);
+
+    const courts: CourtInfo[] = [];
+    for (let i = 0; i < count; i++) {
+        const button = chooseButtons.nth(i);
+
+        // Extract court label from the facility-item container
+        // The structure is: .facility-item > .facility-details > h2 (contains "Court 01", etc.)
+        let courtLabel = `Court ${i + 1}`;
+        let cardText = "";
+        try {
+            // Navigate from button up to the facility-item container, then find .facility-details h2
+            const facilityItem = (await locate(button, "court_card")).first();
+
+            if (await facilityItem.isVisible().catch(() => false)) {
+                cardText = (await facilityItem.innerText().catch(() => "")).trim();
+                const heading = (await locate(facilityItem, "court_card_name")).first();
+                if (await heading.isVisible().catch(() => false)) {
+                    const text = (await heading.innerText()).trim();
+                    if (text) courtLabel = text;
+                }
+            }
+        } catch {
+            // fall back to default
+        }
+
+        const court: CourtInfo = {
+            name: courtLabel,
+            facility_url: null,
+            indoor: parseIndoor(cardText),
+            surface: parseSurface(cardText)
+        };
+        courts.push(court);
+
+        // Build a facility URL from the button's href if present.
+        const href = await button.getAttribute("href");
+        if (href) {
+            court.facility_url = new URL(href, BASE_URL).toString();
+            continue;
+        }
+
+        // Fallback: click, note where we landed, and return to the list
+        console.log(
+            `[courts] No href on court button "${courtLabel}", clicking instead…`
+        );
+        try {
+            await Promise.all([
+                page.waitForNavigation({ waitUntil: "networkidle" }),
+                button.click()
+            ]);
+            court.facility_url = page.url();
+        } catch (err: any) {
+            console.warn(`[courts] Could not resolve facility URL for "${courtLabel}": ${err?.message || err}`);
+        }
+        // Note: Don't call ensureLoggedIn here - session is maintained via cookies
+        await page.goto(BASE_URL, { waitUntil: "networkidle" });
+    }
+
+    return courts;
+}
+
+// -------------------------------- CACHE -------------------------------------
+
+function isFresh(catalog: CourtCatalog | null): catalog is CourtCatalog {
+    if (!catalog || catalog.courts.length === 0) return false;
+    const ageMs = Date.now() - Date.parse(catalog.built_at);
+    return ageMs < env.courtCatalogTtlHours * 3_600_000;
+}
+
+function cachedCatalog(): CourtCatalog | null {
+    if (!cached) cached = readJson<CourtCatalog | null>(CATALOG_FILE, null);
+    return cached;
+}
+
+/**
+ * The court catalog, rebuilt from the facility list `page` (already on
+ * BASE_URL) when the cached copy is older than COURT_CATALOG_TTL_HOURS.
+ */
+export async function getCourtCatalog(
+    page: Page,
+    opts: { refresh?: boolean } = {}
+): Promise<CourtCatalog> {
+    const current = cachedCatalog();
+    if (!opts.refresh && isFresh(current)) return current;
+
+    const catalog: CourtCatalog = {
+        built_at: new Date().toISOString(),
+        courts: await readCourtList(page)
+    };
+    cached = catalog;
+    writeJson(CATALOG_FILE, catalog);
+    console.log(`[courts] Catalog rebuilt with ${catalog.courts.length} courts`);
+    return catalog;
+}
+
+/**
+ * Same as getCourtCatalog, opening a session (the caller's account, else the
+ * shared one) only on a cache miss. The catalog itself is shared.
+ */
+export async function loadCourtCatalog(
+    opts: { refresh?: boolean } = {},
+    account: SessionAccount | null = defaultAccount()
+): Promise<CourtCatalog> {
+    const current = cachedCatalog();
+    if (!opts.refresh && isFresh(current)) return current;
+    return withSession((page) => getCourtCatalog(page, opts), account);
+}
+
+// ------------------------------- FILTERING ----------------------------------
+
+/** "Court 01" / "ct. 1" / "COURT-1" → ["court", "1"] */
+function nameTokens(name: string): string[] {
+    return name
+        .toLowerCase()
+        .replace(/\bct\b\.?/g, "court")
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map((t) => (/^\d+$/.test(t) ? String(Number(t)) : t));
+}
+
+/**
+ * Fuzzy court-name match: every token of the wanted name must appear in the
+ * court's name, with numbers compared numerically ("Court 1" ≠ "Court 10").
+ * A bare number ("3") matches the court with that number.
+ */
+export function courtMatches(courtName: string, wanted: string): boolean {
+    const have = nameTokens(courtName);
+    const want = nameTokens(wanted);
+    if (want.length === 0) return false;
+    return want.every((t) => have.includes(t));
+}
+
+/** Apply `locations` and `indoor_only` before any facility page is visited. */
+export function selectCourts(
+    courts: CourtInfo[],
+    prefs: { locations?: string[]; indoor_only?: boolean }
+): CourtSelection {
+    const selection: CourtSelection = { selected: [], skipped: [] };
+    const locations = (prefs.locations ?? []).filter((l) => l.trim());
+
+    for (const court of courts) {
+        if (locations.length > 0 && !locations.some((l) => courtMatches(court.name, l))) {
+            selection.skipped.push({ court, reason: "not in requested locations" });
+        } else if (prefs.indoor_only && court.indoor !== true) {
+            selection.skipped.push({
+                court,
+                reason: court.indoor === false ? "outdoor court" : "indoor/outdoor unknown"
+            });
+        } else {
+            selection.selected.push(court);
+        }
+    }
+
+    return selection;
+}
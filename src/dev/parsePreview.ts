@@ -0,0 +1,37 @@
+// src/dev/parsePreview.ts
+//
+// Print how free-text queries are read into Preferences, so parser rules can
+// be checked without a server or the bot:
+//   npm run preview:parse [-- "next tue after 6pm, 90 min"]
+// PARSE_NOW=2026-10-19T12:00:00Z pins "today".
+import { parsePreferences } from "../parsePreferences";
+
+const SAMPLES = [
+    "next Tue or Thu after 6pm, 90 min, indoor courts 3–5",
+    "tomorrow 6-9pm 2 courts",
+    "this weekend morning, at least an hour",
+    "oct 24 between 7 and 10pm court 12",
+    "sat 9-12 90m every 10m",
+    "tonight around 8",
+    "next 3 days before 11am outdoor",
+    "fri 18:30-21:00 for 1.5 hours please"
+];
+
+const now = process.env.PARSE_NOW ? new Date(process.env.PARSE_NOW) : new Date();
+const queries = process.argv.length > 2 ? [process.argv.slice(2).join(" ")] : SAMPLES;
+
+for (const query of queries) {
+    console.log(`\n=== ${query}`);
+    try {
+        const parsed = parsePreferences(query, now);
+        console.log(`→ ${parsed.interpretation}`);
+        console.log(JSON.stringify(parsed.preferences));
+        if (parsed.interval_minutes) console.log(`every ${parsed.interval_minutes} min`);
+        for (const note of parsed.ambiguities) console.log(`  ? ${note}`);
+        if (parsed.unrecognized.length > 0) {
+            console.log(`  ignored: ${parsed.unrecognized.join(" ")}`);
+        }
+    } catch (err: any) {
+        console.log(`✖ ${err?.message || err}`);
+    }
+}
@@ -0,0 +1,274 @@
+// src/dev/perfectmindFixture.ts
+//
+// Offline stand-in for the UBC PerfectMind site: court list, facility pages
+// with Kendo-style scheduler markup, plus a fake login portal and CWL form.
+// Point the scanner at it with
+//   UBC_BASE_URL=http://localhost:4010/24063/Clients/BookMe4FacilityList/List
+//   UBC_USER=fixture-user UBC_PASS=fixture-pass
+// FIXTURE_MFA=push|passcode adds a Duo-style prompt after the CWL form:
+// approve the push by opening /duo/approve, or submit FIXTURE_MFA_PASSCODE.
+import express, { Request, Response, NextFunction } from "express";
+import { addDaysIso, facilityToday } from "../time";
+
+const PORT = Number(process.env.FIXTURE_PORT || 4010);
+const FIXTURE_USER = process.env.FIXTURE_USER || "fixture-user";
+const FIXTURE_PASS = process.env.FIXTURE_PASS || "fixture-pass";
+const FIXTURE_MFA = process.env.FIXTURE_MFA || "";
+const FIXTURE_MFA_PASSCODE = process.env.FIXTURE_MFA_PASSCODE || "123456";
+const SESSION_COOKIE = "pm_fixture_session";
+
+export const LIST_PATH = "/24063/Clients/BookMe4FacilityList/List";
+const FACILITY_PATH = "/24063/Clients/BookMe4BookingPages/Classes";
+
+type FixtureCourt = {
+    id: number;
+    name: string;
+    indoor: boolean;
+    surface: string;
+    /** renders the "Choose" button without an href (click-through path) */
+    noHref?: boolean;
+};
+
+// Twelve courts so the old ten-court cap would visibly drop some.
+export const COURTS: FixtureCourt[] = Array.from({ length: 12 }, (_, i) => ({
+    id: i + 1,
+    name: `Court ${String(i + 1).padStart(2, "0")}`,
+    indoor: i < 8,
+    surface: i < 8 ? "Acrylic hard court" : "Clay court",
+    noHref: i === 11
+}));
+
+// ------------------------------- HELPERS ------------------------------------
+
+function to12h(hour: number): string {
+    const suffix = hour < 12 ? "AM" : "PM";
+    const h = hour % 12 === 0 ? 12 : hour % 12;
+    return `${String(h).padStart(2, "0")}:00 ${suffix}`;
+}
+
+/** Deterministic pseudo-random availability so repeated runs agree. */
+export function tileState(courtId: number, dateIso: string, hour: number) {
+    const seed = courtId * 31 + Number(dateIso.replace(/-/g, "")) * 7 + hour * 13;
+    switch (seed % 6) {
+        case 0:
+            return "booked" as const;
+        case 1:
+            return "disabled" as const;
+        case 2:
+            return "hidden" as const;
+        default:
+            return "open" as const;
+    }
+}
+
+function page(title: string, body: string): string {
+    return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function isLoggedIn(req: Request): boolean {
+    return (req.get("cookie") || "")
+        .split(";")
+        .some((c) => c.trim() === `${SESSION_COOKIE}=1`);
+}
+
+function requireSession(req: Request, res: Response, next: NextFunction) {
+    if (!isLoggedIn(req)) return res.redirect(LIST_PATH);
+    next();
+}
+
+function header(req: Request): string {
+    // PerfectMind shows a "Login" link while signed out; the scanner keys on it.
+    return isLoggedIn(req)
+        ? `<header><span class="member-name">Fixture Member</span> <a href="#">Sign out</a></header>`
+        : `<header><a href="/login-portal" target="_blank">Login</a></header>`;
+}
+
+// -------------------------------- PAGES -------------------------------------
+
+function renderCourtList(req: Request): string {
+    const cards = COURTS.map((court) => {
+        const href = `${FACILITY_PATH}?facilityId=${court.id}`;
+        const desktop = court.noHref
+            ? `<a class="pm-confirm-button desktop-details" onclick="location.href='${href}'">Choose</a>`
+            : `<a class="pm-confirm-button desktop-details" href="${href}">Choose</a>`;
+        return `
+<div class="facility-item">
+  <div class="facility-details">
+    <h2>${court.name}</h2>
+    <p>${court.indoor ? "Indoor" : "Outdoor"} · ${court.surface}</p>
+  </div>
+  ${desktop}
+  <a class="pm-confirm-button tablet-details" href="${href}">Choose</a>
+</div>`;
+    }).join("\n");
+
+    return page("Facility List", `${header(req)}\n<main class="facility-list">${cards}\n</main>`);
+}
+
+function renderScheduler(court: FixtureCourt, startIso: string): string {
+    const days = Array.from({ length: 7 }, (_, i) => addDaysIso(startIso, i));
+
+    const columns = days.map((dateIso) => {
+        const tiles: string[] = [];
+        for (let hour = 7; hour < 22; hour++) {
+            const state = tileState(court.id, dateIso, hour);
+            const title = `${to12h(hour)}-${to12h(hour + 1)}`;
+            const cls =
+                state === "booked"
+                    ? "k-event k-event-template facility-booking-slot booked"
+                    : "k-event k-event-template facility-booking-slot";
+            const attrs = [
+                `data-uid="${court.id}-${dateIso}-${hour}"`,
+                state === "disabled" ? 'aria-disabled="true"' : "",
+                state === "hidden" ? 'style="display:none"' : ""
+            ].join(" ");
+            tiles.push(`<div class="${cls}" ${attrs}><span title="${title}">Book Now</span></div>`);
+        }
+        return `<td data-date="${dateIso}" role="gridcell">${tiles.join("")}</td>`;
+    });
+
+    const prev = `${FACILITY_PATH}?facilityId=${court.id}&start=${addDaysIso(startIso, -7)}`;
+    const next = `${FACILITY_PATH}?facilityId=${court.id}&start=${addDaysIso(startIso, 7)}`;
+
+    return `
+<div id="scheduler" class="k-scheduler">
+  <div class="k-scheduler-toolbar">
+    <a class="k-nav-prev" href="${prev}">‹</a>
+    <span class="k-nav-current">${days[0]} – ${days[6]}</span>
+    <a class="k-nav-next" href="${next}">›</a>
+  </div>
+  <table>
+    <tr role="row">${days.map((d) => `<th data-date="${d}">${d}</th>`).join("")}</tr>
+    <tr role="row">${columns.join("")}</tr>
+  </table>
+</div>`;
+}
+
+function renderFacility(req: Request, court: FixtureCourt): string {
+    const today = facilityToday();
+    const start = /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.start))
+        ? String(req.query.start)
+        : today;
+
+    return page(
+        court.name,
+        `${header(req)}
+<h1 class="facility-name">UBC Tennis Centre - ${court.name}</h1>
+${renderScheduler(court, start)}`
+    );
+}
+
+function renderCwlForm(error?: string): string {
+    return page(
+        "CWL Authentication",
+        `<form method="post" action="/cwl/login">
+  ${error ? `<p class="error">${error}</p>` : ""}
+  <label>CWL Login Name <input name="username" id="username"></label>
+  <label>Password <input name="password" id="password" type="password"></label>
+  <button type="submit">Login</button>
+</form>`
+    );
+}
+
+function renderDuoPrompt(showPasscode: boolean, error?: string): string {
+    const push = FIXTURE_MFA === "push" && !showPasscode;
+    return page(
+        "Duo Security",
+        push
+            ? `<meta http-equiv="refresh" content="2">
+<h1>Check for a Duo Push</h1>
+<p>Verify it's you by approving the notification sent to your phone.</p>
+<a href="/duo/prompt?passcode=1">Other options</a>`
+            : `<h1>Enter a passcode</h1>
+${error ? `<p class="error">${error}</p>` : ""}
+<form method="post" action="/duo/verify">
+  <label>Duo Mobile passcode <input name="passcode-input" id="passcode-input"></label>
+  <button type="submit">Verify</button>
+</form>`
+    );
+}
+
+// -------------------------------- SERVER ------------------------------------
+
+export function createFixtureApp() {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get(LIST_PATH, (req, res) => {
+        res.type("html").send(renderCourtList(req));
+    });
+
+    app.get(FACILITY_PATH, requireSession, (req, res) => {
+        const court = COURTS.find((c) => c.id === Number(req.query.facilityId));
+        if (!court) return res.status(404).send(page("Not found", "<p>Unknown facility</p>"));
+        res.type("html").send(renderFacility(req, court));
+    });
+
+    // Login portal → CWL form → SAML bounce → back to the court list
+    app.get("/login-portal", (_req, res) => {
+        res.type("html").send(
+            page(
+                "Login Portal",
+                `<a href="/cwl/login" target="_blank"><img alt="CWL Login" src="data:,">CWL Login</a>`
+            )
+        );
+    });
+
+    app.get("/cwl/login", (_req, res) => {
+        res.type("html").send(renderCwlForm());
+    });
+
+    app.post("/cwl/login", (req, res) => {
+        if (req.body.username !== FIXTURE_USER || req.body.password !== FIXTURE_PASS) {
+            return res.status(401).type("html").send(renderCwlForm("Invalid username or password"));
+        }
+        if (FIXTURE_MFA) {
+            pushApproved = false;
+            return res.redirect("/duo/prompt");
+        }
+        res.setHeader("Set-Cookie", `${SESSION_COOKIE}=1; Path=/; HttpOnly`);
+        res.redirect("/saml/redirect");
+    });
+
+    // Duo: one pending push at a time is plenty for a fixture.
+    let pushApproved = false;
+
+    app.get("/duo/prompt", (req, res) => {
+        if (pushApproved) {
+            res.setHeader("Set-Cookie", `${SESSION_COOKIE}=1; Path=/; HttpOnly`);
+            return res.redirect("/saml/redirect");
+        }
+        res.type("html").send(renderDuoPrompt(req.query.passcode === "1"));
+    });
+
+    app.get("/duo/approve", (_req, res) => {
+        pushApproved = true;
+        res.type("html").send(page("Duo Push", "<p>Push approved</p>"));
+    });
+
+    app.post("/duo/verify", (req, res) => {
+        if (req.body["passcode-input"] !== FIXTURE_MFA_PASSCODE) {
+            return res.status(401).type("html").send(renderDuoPrompt(true, "Incorrect passcode. Try again."));
+        }
+        res.setHeader("Set-Cookie", `${SESSION_COOKIE}=1; Path=/; HttpOnly`);
+        res.redirect("/saml/redirect");
+    });
+
+    app.get("/saml/redirect", (_req, res) => {
+        res.redirect(LIST_PATH);
+    });
+
+    return app;
+}
+
+if (require.main === module) {
+    createFixtureApp().listen(PORT, () => {
+        console.log(`[fixture] PerfectMind fixture on http://localhost:${PORT}${LIST_PATH}`);
+    });
+}
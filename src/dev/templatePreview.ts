@@ -0,0 +1,93 @@
+// src/dev/templatePreview.ts
+//
+// Render every notification template from fixture slots and print each
+// format, so template changes can be eyeballed without sending anything:
+//   npm run preview:templates [-- slots_found|booking_confirmed|booking_failed|cancel_deadline|mfa_required]
+import { renderEvent, type EventType, type NotifyEvent } from "../templates";
+import { withSlotTimes } from "../slots";
+import type { Slot } from "../ubc";
+
+const FACILITY_URL =
+    "http://localhost:4010/24063/Clients/BookMe4BookingPages/Classes?facilityId=";
+
+const SLOTS: Slot[] = [
+    {
+        date_iso: "2026-10-20",
+        time_24h: "18:00",
+        minutes: 120,
+        location: "Court 01",
+        deep_link: `${FACILITY_URL}1`
+    },
+    {
+        date_iso: "2026-10-21",
+        time_24h: "07:00",
+        minutes: 60,
+        location: "Court 10",
+        deep_link: `${FACILITY_URL}10`
+    },
+    {
+        // No deep link → no Book button, still listed
+        date_iso: "2026-10-22",
+        time_24h: "20:30",
+        minutes: 90,
+        location: "Court 12 (Bubble)",
+        deep_link: null
+    }
+].map(withSlotTimes);
+
+const EVENTS: NotifyEvent[] = [
+    { type: "slots_found", slots: SLOTS, ics_slot: SLOTS[0] },
+    { type: "booking_confirmed", slot: SLOTS[0], confirmation_number: "PM-123456" },
+    {
+        type: "booking_failed",
+        slot: SLOTS[1],
+        reason: "payment_required",
+        detail: "Total: $12.00 (1 x Court Fee)"
+    },
+    {
+        type: "cancel_deadline",
+        reservation: {
+            id: "884213",
+            court: SLOTS[0].location,
+            date_iso: SLOTS[0].date_iso,
+            time_24h: SLOTS[0].time_24h,
+            minutes: SLOTS[0].minutes,
+            start_iso: SLOTS[0].start_iso,
+            end_iso: SLOTS[0].end_iso,
+            confirmation_number: "PM-123456",
+            cancellable: true,
+            cancel_deadline: "2026-10-19T18:00:00-07:00"
+        }
+    },
+    {
+        type: "mfa_required",
+        account: "default",
+        methods: ["push", "passcode"],
+        expires_at: "2026-10-19T07:03:00-07:00"
+    }
+];
+
+function section(title: string, body: string | undefined) {
+    if (!body) return;
+    console.log(`--- ${title} ---\n${body}\n`);
+}
+
+const only = process.argv[2] as EventType | undefined;
+
+for (const event of EVENTS) {
+    if (only && event.type !== only) continue;
+    const message = renderEvent(event);
+
+    console.log(`================ ${event.type} (${message.priority}) ================\n`);
+    section("subject", message.subject);
+    section("text", message.text);
+    section("telegram MarkdownV2", message.markdown);
+    section(
+        "telegram buttons",
+        message.buttons?.map((row) => row.map((b) => `[${b.text}] → ${b.url}`).join("  ")).join("\n")
+    );
+    section("html", message.html);
+    for (const a of message.attachments ?? []) {
+        section(`attachment ${a.filename} (${a.content_type})`, a.content);
+    }
+}
@@ -0,0 +1,322 @@
+// src/history.ts
+//
+// Availability history: every "Book Now" tile a scan sees, per court and
+// day, with when it was first/last seen open, when it vanished (booked) and
+// when it came back (a cancellation). A scan only speaks for the courts,
+// days and hours it actually looked at, so a tile is only marked gone when
+// a later scan covered it and did not find it.
+import { env } from "./config/env";
+import { readJson, writeJson } from "./store";
+import { addDaysIso, facilityToday } from "./time";
+import { minutesOfDay } from "./slots";
+import { courtMatches } from "./courts";
+import type { SlotTile } from "./ubc";
+
+export type SlotRecord = {
+    time_24h: string;
+    minutes: number;
+    start_iso: string;
+    first_seen_at: string;
+    last_seen_at: string;
+    /** scans that covered this tile, and how many of them found it open */
+    scans_covered: number;
+    scans_open: number;
+    open: boolean;
+    /** each time it disappeared while still in the future (someone booked it) */
+    gone_at: string[];
+    /** times it (re)appeared after being booked */
+    cancellations: number;
+};
+
+type DayHistory = {
+    court: string;
+    date_iso: string;
+    /** first scan that found any open tile: the day had been released by then */
+    first_open_at: string | null;
+    /** distinct hour windows scans looked at, with when each was first scanned */
+    windows: { start: number; end: number; first_at: string }[];
+    /** by "HH:MM|minutes" */
+    slots: Record<string, SlotRecord>;
+};
+
+type HistoryFile = {
+    /** by "court|date" */
+    days: Record<string, DayHistory>;
+};
+
+/** What one scan of one court looked at and found. */
+export type CourtObservation = {
+    court: string;
+    /** days the scheduler actually showed */
+    dates: string[];
+    /** open tiles inside the hour window, before any min_minutes filtering */
+    tiles: SlotTile[];
+};
+
+export type ScanCoverage = {
+    scanned_at: string;
+    /** minutes since midnight; tiles outside [start, end] were not looked at */
+    start: number;
+    end: number;
+    courts: CourtObservation[];
+};
+
+export type StatsGroupBy = "court" | "weekday" | "hour";
+
+export type StatsRow = {
+    court?: string;
+    weekday?: string;
+    hour?: number;
+    slots_tracked: number;
+    /** share of covering scans that found the slot open */
+    availability_rate: number | null;
+    /** booked slots seen vanishing */
+    bookings_observed: number;
+    /** median hours between a slot vanishing and its start */
+    median_lead_hours: number | null;
+    cancellations: number;
+    /** cancellations per tracked slot */
+    cancellation_rate: number | null;
+};
+
+export type StatsFilter = {
+    group_by: StatsGroupBy[];
+    court?: string;
+    weekday?: string;
+    from?: string;
+    to?: string;
+};
+
+const HISTORY_FILE = "slot-history.json";
+/**
+ * Release polling scans every few seconds; the history is kept in memory and
+ * written at most this often (and at exit). A crash loses at most this much.
+ */
+const FLUSH_INTERVAL_MS = 60_000;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// ------------------------------- STORAGE ------------------------------------
+
+let history: HistoryFile | null = null;
+/** Set while changes are waiting to be written. */
+let flushTimer: NodeJS.Timeout | null = null;
+
+function load(): HistoryFile {
+    if (!history) history = readJson<HistoryFile>(HISTORY_FILE, { days: {} });
+    return history;
+}
+
+/** Write pending changes now instead of waiting for the next flush. */
+export function flushHistory(): void {
+    if (!flushTimer || !history) return;
+    clearTimeout(flushTimer);
+    flushTimer = null;
+    writeJson(HISTORY_FILE, history);
+}
+
+function scheduleFlush(): void {
+    if (flushTimer) return;
+    flushTimer = setTimeout(flushHistory, FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+}
+
+process.on("exit", flushHistory);
+
+/** Drop days older than HISTORY_RETENTION_DAYS. */
+function prune(file: HistoryFile): void {
+    const oldest = addDaysIso(facilityToday(), -env.history.retentionDays);
+    for (const [key, day] of Object.entries(file.days)) {
+        if (day.date_iso < oldest) delete file.days[key];
+    }
+}
+
+// ------------------------------- RECORDING ----------------------------------
+
+function tileKey(tile: { time_24h: string; minutes: number }): string {
+    return `${tile.time_24h}|${tile.minutes}`;
+}
+
+function inWindow(record: { time_24h: string; minutes: number }, start: number, end: number): boolean {
+    const startMin = minutesOfDay(record.time_24h);
+    return startMin >= start && startMin + record.minutes <= end;
+}
+
+/**
+ * Fold one scan into the history. A tile seen for the first time on a day
+ * that was already open, inside an hour window scanned before, was booked
+ * until now: that counts as a cancellation too.
+ */
+export function recordScan(scan: ScanCoverage): void {
+    const file = load();
+    const now = scan.scanned_at;
+    const nowMs = Date.parse(now);
+
+    for (const observation of scan.courts) {
+        for (const dateIso of observation.dates) {
+            const dayKey = `${observation.court}|${dateIso}`;
+            const day = (file.days[dayKey] ??= {
+                court: observation.court,
+                date_iso: dateIso,
+                first_open_at: null,
+                windows: [],
+                slots: {}
+            });
+            const tiles = observation.tiles.filter((t) => t.date_iso === dateIso);
+            const seen = new Set(tiles.map(tileKey));
+
+            for (const tile of tiles) {
+                const record = day.slots[tileKey(tile)];
+                if (!record) {
+                    const coveredBefore = day.windows.some(
+                        (w) => w.first_at < now && inWindow(tile, w.start, w.end)
+                    );
+                    day.slots[tileKey(tile)] = {
+                        time_24h: tile.time_24h,
+                        minutes: tile.minutes,
+                        start_iso: tile.start_iso,
+                        first_seen_at: now,
+                        last_seen_at: now,
+                        scans_covered: 1,
+                        scans_open: 1,
+                        open: true,
+                        gone_at: [],
+                        cancellations: day.first_open_at && coveredBefore ? 1 : 0
+                    };
+                    continue;
+                }
+                if (!record.open) record.cancellations++;
+                record.open = true;
+                record.last_seen_at = now;
+                record.scans_covered++;
+                record.scans_open++;
+            }
+
+            for (const [key, record] of Object.entries(day.slots)) {
+                if (seen.has(key) || !inWindow(record, scan.start, scan.end)) continue;
+                // Past slots drop off the scheduler; that is not a booking.
+                if (Date.parse(record.start_iso) <= nowMs) continue;
+                record.scans_covered++;
+                if (record.open) {
+                    record.open = false;
+                    record.gone_at.push(now);
+                }
+            }
+
+            if (tiles.length > 0 && !day.first_open_at) day.first_open_at = now;
+            if (!day.windows.some((w) => w.start === scan.start && w.end === scan.end)) {
+                day.windows.push({ start: scan.start, end: scan.end, first_at: now });
+            }
+        }
+    }
+
+    prune(file);
+    scheduleFlush();
+}
+
+// -------------------------------- STATS -------------------------------------
+
+function weekdayOf(dateIso: string): string {
+    return WEEKDAYS[new Date(`${dateIso}T00:00:00Z`).getUTCDay()];
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+/** Availability rate, booking lead time and cancellations per court / weekday / hour. */
+export function computeStats(filter: StatsFilter): StatsRow[] {
+    type Bucket = {
+        row: Omit<StatsRow, "availability_rate" | "median_lead_hours" | "cancellation_rate">;
+        covered: number;
+        open: number;
+        leads: number[];
+    };
+    const buckets = new Map<string, Bucket>();
+
+    for (const day of Object.values(load().days)) {
+        if (filter.court && !courtMatches(day.court, filter.court)) continue;
+        if (filter.from && day.date_iso < filter.from) continue;
+        if (filter.to && day.date_iso > filter.to) continue;
+        const weekday = weekdayOf(day.date_iso);
+        if (filter.weekday && weekday !== filter.weekday) continue;
+
+        for (const record of Object.values(day.slots)) {
+            const hour = Number(record.time_24h.slice(0, 2));
+            const group: Pick<StatsRow, "court" | "weekday" | "hour"> = {};
+            if (filter.group_by.includes("court")) group.court = day.court;
+            if (filter.group_by.includes("weekday")) group.weekday = weekday;
+            if (filter.group_by.includes("hour")) group.hour = hour;
+
+            const key = JSON.stringify(group);
+            let bucket = buckets.get(key);
+            if (!bucket) {
+                bucket = {
+                    row: { ...group, slots_tracked: 0, bookings_observed: 0, cancellations: 0 },
+                    covered: 0,
+                    open: 0,
+                    leads: []
+                };
+                buckets.set(key, bucket);
+            }
+
+            bucket.row.slots_tracked++;
+            bucket.row.bookings_observed += record.gone_at.length;
+            bucket.row.cancellations += record.cancellations;
+            bucket.covered += record.scans_covered;
+            bucket.open += record.scans_open;
+            for (const goneAt of record.gone_at) {
+                bucket.leads.push((Date.parse(record.start_iso) - Date.parse(goneAt)) / 3_600_000);
+            }
+        }
+    }
+
+    const rows = [...buckets.values()].map(({ row, covered, open, leads }) => {
+        const lead = median(leads);
+        return {
+            ...row,
+            availability_rate: covered ? round(open / covered, 3) : null,
+            median_lead_hours: lead === null ? null : round(lead, 1),
+            cancellation_rate: row.slots_tracked ? round(row.cancellations / row.slots_tracked, 3) : null
+        };
+    });
+
+    return rows.sort(
+        (a, b) =>
+            (a.court ?? "").localeCompare(b.court ?? "") ||
+            WEEKDAYS.indexOf(a.weekday ?? "") - WEEKDAYS.indexOf(b.weekday ?? "") ||
+            (a.hour ?? 0) - (b.hour ?? 0)
+    );
+}
+
+const CSV_COLUMNS: (keyof StatsRow)[] = [
+    "court",
+    "weekday",
+    "hour",
+    "slots_tracked",
+    "availability_rate",
+    "bookings_observed",
+    "median_lead_hours",
+    "cancellations",
+    "cancellation_rate"
+];
+
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    // A court name starting with = + - @ would run as a formula in a spreadsheet.
+    const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The rows as CSV, only with the grouping columns that were asked for. */
+export function statsToCsv(rows: StatsRow[], groupBy: StatsGroupBy[]): string {
+    const columns = CSV_COLUMNS.filter(
+        (c) => !(["court", "weekday", "hour"] as string[]).includes(c) || groupBy.includes(c as StatsGroupBy)
+    );
+    const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(","))];
+    return `${lines.join("\n")}\n`;
+}
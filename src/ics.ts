@@ -0,0 +1,160 @@
+// src/ics.ts
+//
+// In-house RFC 5545 writer: just enough VCALENDAR/VEVENT for invites and the
+// /calendar feeds. UIDs are derived from what an event is (slot, booking),
+// so clients update an event across fetches instead of duplicating it.
+import { createHash } from "crypto";
+import { FACILITY_TIME_ZONE, zonedTimeToUtc } from "./time";
+import type { Slot } from "./ubc";
+import type { Reservation } from "./reservations";
+
+export type IcsEvent = {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    location?: string;
+    description?: string;
+    url?: string | null;
+    status?: "CONFIRMED" | "TENTATIVE";
+    /** free time in the client's busy view (open slots, not commitments) */
+    transparent?: boolean;
+};
+
+export type CalendarOptions = {
+    /** X-WR-CALNAME */
+    name?: string;
+    /** how often subscribed clients should re-fetch the feed */
+    refreshMinutes?: number;
+    /** DTSTAMP; defaults to now */
+    now?: Date;
+};
+
+const PRODID = "-//UBC Tennis Booker//EN";
+const UID_DOMAIN = "ubc-tennis-booker";
+/** RFC 5545 §3.1: lines SHOULD NOT be longer than 75 octets, excluding CRLF. */
+const MAX_LINE_OCTETS = 75;
+
+/** 2026-10-19T18:00:00.000Z → 20261019T180000Z */
+export function icsDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** TEXT value escaping (RFC 5545 §3.3.11). */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * RFC 5545 line folding (§3.1): at most 75 octets per line, continuation
+ * lines start with a space, and multi-byte UTF-8 characters are never split.
+ */
+export function fold(line: string): string {
+    const chunks: string[] = [];
+    let chunk = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // The leading space of a continuation line counts too.
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = "";
+            octets = 0;
+        }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join("\r\n ");
+}
+
+export function buildCalendar(events: IcsEvent[], options: CalendarOptions = {}): string {
+    const stamp = icsDate(options.now ?? new Date());
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+        ...(options.refreshMinutes
+            ? [
+                  `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+                  `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+              ]
+            : [])
+    ];
+
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${icsDate(event.start)}`,
+            `DTEND:${icsDate(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+            ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+            ...(event.url ? [`URL:${event.url}`] : []),
+            ...(event.status ? [`STATUS:${event.status}`] : []),
+            ...(event.transparent ? ["TRANSP:TRANSPARENT"] : []),
+            "END:VEVENT"
+        );
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+function uidFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex").slice(0, 20);
+    return `${hash}@${UID_DOMAIN}`;
+}
+
+/** Same slot → same UID, so re-sent invites update instead of duplicating. */
+export function slotUid(slot: Slot): string {
+    return uidFor(`${slot.date_iso}|${slot.time_24h}|${slot.location}`);
+}
+
+/** Keyed on the booking id, which never changes for a reservation. */
+export function reservationUid(reservation: Reservation): string {
+    return uidFor(`booking|${reservation.id}`);
+}
+
+export function slotEvent(slot: Slot, summary = `Tennis – ${slot.location}`): IcsEvent {
+    const start = zonedTimeToUtc(slot.date_iso, slot.time_24h, FACILITY_TIME_ZONE);
+    return {
+        uid: slotUid(slot),
+        start,
+        end: new Date(start.getTime() + slot.minutes * 60_000),
+        summary,
+        location: `UBC Tennis Centre – ${slot.location}`,
+        url: slot.deep_link
+    };
+}
+
+export function reservationEvent(reservation: Reservation): IcsEvent {
+    return {
+        uid: reservationUid(reservation),
+        start: new Date(reservation.start_iso),
+        end: new Date(reservation.end_iso),
+        summary: `Tennis – ${reservation.court}`,
+        location: `UBC Tennis Centre – ${reservation.court}`,
+        description: [
+            reservation.confirmation_number ? `Confirmation: ${reservation.confirmation_number}` : null,
+            reservation.cancel_deadline ? `Cancel by: ${reservation.cancel_deadline}` : null
+        ]
+            .filter(Boolean)
+            .join("\n") || undefined,
+        status: "CONFIRMED"
+    };
+}
+
+export function slotToIcs(slot: Slot, summary?: string): string {
+    return buildCalendar([slotEvent(slot, summary)]);
+}
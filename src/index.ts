@@ -1,97 +1,1164 @@
 // src/index.ts
-import express, { Request, Response, NextFunction } from "express";
-import { z } from "zod";
-import { checkAvailability } from "./ubc";
-import { notify as notifyService, type NotifyPayload } from "./notify";
+import express, { Request, Response, NextFunction, RequestHandler } from "express";
+import { checkAvailability, type Preferences } from "./ubc";
+import { bookSlot } from "./booking";
+import { cancelReservation, forgetListing, listReservations, startCancelReminderScheduler } from "./reservations";
+import {
+    describeFailures,
+    notify as notifyService,
+    startDigestScheduler,
+    type NotifyPayload
+} from "./notify";
+import {
+    listWatches,
+    getWatch,
+    watchOwner,
+    createWatch,
+    updateWatch,
+    deleteWatch,
+    startWatchScheduler
+} from "./watches";
+import { listAudit } from "./autobook";
+import { getCheckJob, submitCheck, subscribeCheckJob, QueueFullError } from "./jobs";
+import { getReleaseStatus, setReleaseSchedule, startReleaseScheduler } from "./releases";
+import { getSessionStatus, onMfaChallenge, submitMfaPasscode } from "./session";
+import {
+    accountFor,
+    accountOwner,
+    authenticate,
+    createUser,
+    getUser,
+    listUsers,
+    publicUser,
+    rotateToken,
+    updateUser,
+    type User
+} from "./users";
+import { canEncrypt } from "./secrets";
+import { loadCourtCatalog } from "./courts";
+import { computeStats, statsToCsv, type StatsGroupBy } from "./history";
+import { getSelectorHealth } from "./selectors";
+import {
+    availabilityCalendar,
+    bookingsCalendar,
+    calendarUser,
+    revokeCalendarToken,
+    rotateCalendarToken
+} from "./calendar";
+import { handleTelegramUpdate, startTelegramBot } from "./telegramBot";
 import { env } from "./config/env";
+import { parsePreferences, type ParsedPreferences } from "./parsePreferences";
+import { buildOpenApiDocument, registerRoute, validateRequest, type RouteSpec } from "./openapi";
+import {
+    AuditLogSchema,
+    AuditQuerySchema,
+    BookingResultSchema,
+    BookRequestSchema,
+    CalendarFeedsSchema,
+    CalendarQuerySchema,
+    CancellationResultSchema,
+    CheckJobSchema,
+    CheckNowResultSchema,
+    CheckRequestSchema,
+    CheckSubmissionSchema,
+    CourtCatalogSchema,
+    CourtsQuerySchema,
+    ErrorSchema,
+    HealthSchema,
+    MfaPasscodeSchema,
+    NotifyRequestSchema,
+    NotifyResultSchema,
+    ParsedPreferencesSchema,
+    ParsePreferencesRequestSchema,
+    PublicUserSchema,
+    ReleaseScheduleSchema,
+    ReleaseStatusSchema,
+    ReservationListSchema,
+    SessionStatusSchema,
+    StatsQuerySchema,
+    StatsSchema,
+    TelegramUpdateSchema,
+    UserListSchema,
+    UserPatchSchema,
+    UserRequestSchema,
+    UserTokenSchema,
+    WatchListSchema,
+    WatchPatchSchema,
+    WatchRequestSchema,
+    WatchSchema,
+    type AuditQuery,
+    type BookRequest,
+    type CalendarQuery,
+    type CheckRequest,
+    type CourtsQuery,
+    type MfaPasscode,
+    type ParsePreferencesRequest,
+    type ReleaseScheduleRequest,
+    type StatsQuery,
+    type UserPatch,
+    type UserRequest,
+    type WatchPatch,
+    type WatchRequest
+} from "./schemas";
 
 const app = express();
 app.use(express.json());
 
-// --- Auth middleware: check Bearer token ---
+// --- Auth middleware: check Bearer token, remember whose it is ---
 function requireBearer(req: Request, res: Response, next: NextFunction) {
     const header = req.get("Authorization") || "";
     const token = header.startsWith("Bearer ") ? header.slice(7) : "";
 
-    if (!token || token !== env.bookerToken) {
+    const user = authenticate(token);
+    if (!user) {
         return res.status(401).json({ error: "Unauthorized" });
     }
+    res.locals.user = user;
     next();
 }
 
-// --- Friendly root + health ---
-app.get("/", (_req, res) => {
-    res
-        .type("text/plain")
-        .send("UBC Tennis Booker API is running. Try GET /health");
-});
+// Use after requireBearer
+function requireAdmin(_req: Request, res: Response, next: NextFunction) {
+    if (currentUser(res).role !== "admin") {
+        return res.status(403).json({ error: "Admin only" });
+    }
+    next();
+}
 
-app.get("/health", (_req, res) => {
-    res.json({ ok: true, ts: Date.now() });
-});
+// Telegram signs webhook calls with the secret it was given at setWebhook
+function requireTelegramSecret(req: Request, res: Response, next: NextFunction) {
+    const secret = env.telegram?.webhookSecret;
+    if (!secret || req.get("X-Telegram-Bot-Api-Secret-Token") !== secret) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+    next();
+}
 
-// --- Schemas ---
-const PreferencesSchema = z.object({
-    days_ahead: z.number().min(0).max(14).optional(),
-    start_hour: z.number().min(0).max(23).optional(),
-    end_hour: z.number().min(1).max(24).optional(),
-    min_minutes: z.number().min(30).max(120).optional(),
-    indoor_only: z.boolean().optional(),
-    locations: z.array(z.string()).optional(),
-    dates: z.array(z.string()).optional()
-});
+// Calendar clients cannot send headers: the feed secret rides in ?token=
+function requireCalendarToken(req: Request, res: Response, next: NextFunction) {
+    const user = calendarUser(typeof req.query.token === "string" ? req.query.token : "");
+    if (!user) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.locals.user = user;
+    next();
+}
 
-const NotifyRequestSchema = z.object({
-    notify: z
-        .object({
-            email: z.string().email().optional(),
-            sms: z.string().optional(),
-            telegram_chat_id: z.string().optional()
-        })
-        .optional(),
-    text: z.string(),
-    priority: z.enum(["info", "warn", "urgent"]).optional()
-});
+function currentUser(res: Response): User {
+    return res.locals.user as User;
+}
+
+/** Only admins pick notify targets; anyone else's would make this an open relay. */
+function mayChooseNotify(user: User, notify: unknown): boolean {
+    return notify === undefined || user.role === "admin";
+}
+
+const NOTIFY_FORBIDDEN = { 403: { description: "`notify` given by a non-admin", schema: ErrorSchema } };
+
+const AUTH: Record<RouteSpec["auth"], RequestHandler[]> = {
+    none: [],
+    bearer: [requireBearer],
+    admin: [requireBearer, requireAdmin],
+    telegram: [requireTelegramSecret],
+    calendar: [requireCalendarToken]
+};
+
+/**
+ * Register a route together with its OpenAPI description: auth comes from
+ * spec.auth, and the body/query are validated against the spec's schemas
+ * before the handlers run.
+ */
+function route(spec: RouteSpec, ...handlers: RequestHandler[]) {
+    registerRoute(spec);
+    app[spec.method](spec.path, ...AUTH[spec.auth], validateRequest(spec), ...handlers);
+}
+
+// --- Friendly root + health ---
+route(
+    {
+        method: "get",
+        path: "/",
+        operationId: "root",
+        summary: "Plain-text banner",
+        tag: "meta",
+        auth: "none",
+        responses: { 200: { description: "API is running", content_type: "text/plain" } }
+    },
+    (_req, res) => {
+        res
+            .type("text/plain")
+            .send("UBC Tennis Booker API is running. Try GET /health");
+    }
+);
+
+route(
+    {
+        method: "get",
+        path: "/health",
+        operationId: "health",
+        summary: "Liveness check, plus PerfectMind markup drift",
+        tag: "meta",
+        auth: "none",
+        responses: { 200: { description: "OK", schema: HealthSchema } }
+    },
+    (_req, res) => {
+        res.json({ ok: true, ts: Date.now(), ...getSelectorHealth() });
+    }
+);
+
+// --- /openapi.json ---
+route(
+    {
+        method: "get",
+        path: "/openapi.json",
+        operationId: "openapi",
+        summary: "This OpenAPI 3.1 document",
+        tag: "meta",
+        auth: "none",
+        responses: { 200: { description: "OpenAPI document" } }
+    },
+    (req, res) => {
+        res.json(buildOpenApiDocument(`${req.protocol}://${req.get("host")}`));
+    }
+);
 
 // --- /check_now ---
-app.post("/check_now", requireBearer, async (req: Request, res: Response) => {
-    try {
-        const parsed = z
-            .object({
-                preferences: PreferencesSchema
-            })
-            .parse(req.body);
-
-        const slots = await checkAvailability(parsed.preferences);
-        return res.json({ slots });
-    } catch (err: any) {
-        console.error("check_now error:", err?.message || err);
-        return res
-            .status(400)
-            .json({ error: "Invalid request", detail: String(err?.message || err) });
+
+/**
+ * What a check request scans: structured preferences win over the parsed
+ * query, and both are merged over the user's defaults.
+ */
+function checkPreferences(
+    user: User,
+    { preferences, query }: CheckRequest
+): { preferences: Preferences; parsed?: ParsedPreferences } {
+    const parsed = query ? parsePreferences(query) : undefined;
+    return {
+        preferences: { ...user.default_preferences, ...parsed?.preferences, ...preferences },
+        parsed
+    };
+}
+
+route(
+    {
+        method: "post",
+        path: "/check_now",
+        operationId: "checkNow",
+        summary: "Scan for open slots",
+        description:
+            "Takes structured preferences, a free-text query, or both (preferences win). The result is merged over the caller's default_preferences.",
+        tag: "availability",
+        auth: "bearer",
+        body: CheckRequestSchema,
+        responses: { 200: { description: "Open slots and scan diagnostics", schema: CheckNowResultSchema } }
+    },
+    async (req: Request, res: Response) => {
+        try {
+            const user = currentUser(res);
+            const { preferences, parsed } = checkPreferences(user, req.body as CheckRequest);
+            const result = await checkAvailability(preferences, accountFor(user));
+            return res.json(parsed ? { ...result, parsed } : result);
+        } catch (err: any) {
+            console.error("check_now error:", err?.message || err);
+            return res
+                .status(400)
+                .json({ error: "Invalid request", detail: String(err?.message || err) });
+        }
     }
-});
+);
 
-// --- /notify ---
-app.post("/notify", requireBearer, async (req: Request, res: Response) => {
-    try {
-        const parsed = NotifyRequestSchema.parse(req.body) as NotifyPayload;
+// --- /checks (background /check_now) ---
+function visibleJob(res: Response, id: string) {
+    const job = getCheckJob(id);
+    const user = currentUser(res);
+    if (!job || (user.role !== "admin" && job.owner_id !== user.id)) {
+        return undefined;
+    }
+    return job;
+}
+
+const JOB_NOT_FOUND = { 404: { description: "Job not found (or expired)", schema: ErrorSchema } };
+
+route(
+    {
+        method: "post",
+        path: "/checks",
+        operationId: "createCheck",
+        summary: "Start a scan in the background",
+        description:
+            "Same body as /check_now, but answers at once with a job to poll (GET /checks/{id}) or follow (GET /checks/{id}/events). An identical check already running is shared; one finished within CHECK_CACHE_SECONDS is returned as is.",
+        tag: "availability",
+        auth: "bearer",
+        body: CheckRequestSchema,
+        responses: {
+            200: { description: "Served from the result cache", schema: CheckSubmissionSchema },
+            202: { description: "Queued, or joined an identical running check", schema: CheckSubmissionSchema },
+            503: { description: "Too many checks waiting", schema: ErrorSchema }
+        }
+    },
+    (req: Request, res: Response) => {
+        try {
+            const user = currentUser(res);
+            const { preferences, parsed } = checkPreferences(user, req.body as CheckRequest);
+            const submitted = submitCheck(user.id, preferences, accountFor(user));
+            return res
+                .status(submitted.cached ? 200 : 202)
+                .location(`/checks/${submitted.job.id}`)
+                .json(parsed ? { ...submitted, parsed } : submitted);
+        } catch (err: any) {
+            if (err instanceof QueueFullError) {
+                return res.status(503).json({ error: "Busy", detail: err.message });
+            }
+            return res
+                .status(400)
+                .json({ error: "Invalid request", detail: String(err?.message || err) });
+        }
+    }
+);
+
+route(
+    {
+        method: "get",
+        path: "/checks/:id",
+        operationId: "getCheck",
+        summary: "Status, partial slots and per-court progress of a check",
+        tag: "availability",
+        auth: "bearer",
+        responses: { 200: { description: "The job", schema: CheckJobSchema }, ...JOB_NOT_FOUND }
+    },
+    (req: Request, res: Response) => {
+        const job = visibleJob(res, req.params.id);
+        if (!job) return res.status(404).json({ error: "Job not found" });
+        return res.json(job);
+    }
+);
+
+const SSE_KEEPALIVE_MS = 15_000;
+
+route(
+    {
+        method: "get",
+        path: "/checks/:id/events",
+        operationId: "streamCheck",
+        summary: "Server-Sent Events stream of a check's progress",
+        description:
+            "Starts with a `snapshot` event (the job), then `status`, `session_ready`, `courts_selected`, `court_started`, `court_done` (with that court's slots) and finally `done` (the job), after which the stream closes.",
+        tag: "availability",
+        auth: "bearer",
+        responses: {
+            200: { description: "text/event-stream of JSON events", content_type: "text/event-stream" },
+            ...JOB_NOT_FOUND
+        }
+    },
+    (req: Request, res: Response) => {
+        const job = visibleJob(res, req.params.id);
+        if (!job) return res.status(404).json({ error: "Job not found" });
+
+        res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive"
+        });
+        res.flushHeaders();
+        const send = (event: string, data: unknown) =>
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+        send("snapshot", job);
+        if (job.finished_at) {
+            send("done", { type: "done", job });
+            return res.end();
+        }
+
+        const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), SSE_KEEPALIVE_MS);
+        const unsubscribe = subscribeCheckJob(job.id, (event) => {
+            send(event.type, event);
+            if (event.type === "done") res.end();
+        });
+        res.on("close", () => {
+            clearInterval(keepAlive);
+            unsubscribe?.();
+        });
+    }
+);
+
+// --- /parse_preferences ---
+route(
+    {
+        method: "post",
+        path: "/parse_preferences",
+        operationId: "parsePreferences",
+        summary: "Turn free text into Preferences",
+        description:
+            "Rule-based and deterministic; relative dates resolve against today in America/Vancouver. Nothing is scanned.",
+        tag: "availability",
+        auth: "bearer",
+        body: ParsePreferencesRequestSchema,
+        responses: {
+            200: { description: "Preferences plus how the text was read", schema: ParsedPreferencesSchema },
+            400: { description: "Invalid request, or a value out of range", schema: ErrorSchema }
+        }
+    },
+    (req: Request, res: Response) => {
+        try {
+            return res.json(parsePreferences((req.body as ParsePreferencesRequest).query));
+        } catch (err: any) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", detail: String(err?.message || err) });
+        }
+    }
+);
+
+// --- /book ---
+const BOOKING_FAILURE_STATUS: Record<string, number> = {
+    slot_taken: 409,
+    court_not_found: 404,
+    payment_required: 402,
+    duration_unavailable: 422
+};
+
+route(
+    {
+        method: "post",
+        path: "/book",
+        operationId: "book",
+        summary: "Book one slot",
+        tag: "booking",
+        auth: "bearer",
+        body: BookRequestSchema,
+        responses: {
+            200: { description: "Booked, or stopped at checkout for a dry run", schema: BookingResultSchema },
+            402: { description: "Checkout asks for payment", schema: BookingResultSchema },
+            404: { description: "Court not found", schema: BookingResultSchema },
+            409: { description: "Slot already taken", schema: BookingResultSchema },
+            422: {
+                description: "The booking form cannot book exactly `slot.minutes`",
+                schema: BookingResultSchema
+            },
+            500: { description: "Unexpected error", schema: ErrorSchema },
+            502: { description: "Booking flow failed", schema: BookingResultSchema }
+        }
+    },
+    async (req: Request, res: Response) => {
+        try {
+            const account = accountFor(currentUser(res));
+            const result = await bookSlot(req.body as BookRequest, account);
+            if (result.status === "booked") forgetListing(account);
+            if (result.status === "failed") {
+                return res
+                    .status(BOOKING_FAILURE_STATUS[result.reason] ?? 502)
+                    .json(result);
+            }
+            return res.json(result);
+        } catch (err: any) {
+            console.error("book error:", err?.message || err);
+            return res
+                .status(500)
+                .json({ error: "Booking failed", detail: String(err?.message || err) });
+        }
+    }
+);
+
+// --- /bookings ---
+route(
+    {
+        method: "get",
+        path: "/bookings",
+        operationId: "listBookings",
+        summary: "List my reservations",
+        description: "Scraped from the PerfectMind My Bookings page of the caller's UBC account.",
+        tag: "booking",
+        auth: "bearer",
+        responses: {
+            200: { description: "Reservations, soonest first", schema: ReservationListSchema },
+            500: { description: "Scrape failed", schema: ErrorSchema }
+        }
+    },
+    async (_req: Request, res: Response) => {
+        try {
+            const reservations = await listReservations(accountFor(currentUser(res)));
+            return res.json({ reservations });
+        } catch (err: any) {
+            console.error("bookings error:", err?.message || err);
+            return res
+                .status(500)
+                .json({ error: "Could not list bookings", detail: String(err?.message || err) });
+        }
+    }
+);
 
-        const result = await notifyService(parsed);
+const CANCELLATION_FAILURE_STATUS: Record<string, number> = {
+    not_found: 404,
+    past_deadline: 409
+};
+
+route(
+    {
+        method: "delete",
+        path: "/bookings/:id",
+        operationId: "cancelBooking",
+        summary: "Cancel a reservation",
+        tag: "booking",
+        auth: "bearer",
+        responses: {
+            200: { description: "Cancelled, with any refund or credit", schema: CancellationResultSchema },
+            404: { description: "No such reservation", schema: CancellationResultSchema },
+            409: { description: "No longer cancellable", schema: CancellationResultSchema },
+            500: { description: "Unexpected error", schema: ErrorSchema },
+            502: { description: "Cancellation flow failed", schema: CancellationResultSchema }
+        }
+    },
+    async (req: Request, res: Response) => {
+        try {
+            const result = await cancelReservation(req.params.id, accountFor(currentUser(res)));
+            if (result.status === "failed") {
+                return res
+                    .status(CANCELLATION_FAILURE_STATUS[result.reason] ?? 502)
+                    .json(result);
+            }
+            return res.json(result);
+        } catch (err: any) {
+            console.error("cancel booking error:", err?.message || err);
+            return res
+                .status(500)
+                .json({ error: "Cancellation failed", detail: String(err?.message || err) });
+        }
+    }
+);
+
+// --- /calendar (iCalendar feeds behind a secret URL) ---
+route(
+    {
+        method: "post",
+        path: "/calendar/token",
+        operationId: "rotateCalendarToken",
+        summary: "Create or rotate my calendar feed secret",
+        description: "Subscribe to the returned URLs in Google/Outlook. Rotating the secret breaks the old URLs.",
+        tag: "calendar",
+        auth: "bearer",
+        responses: { 200: { description: "Feed URLs with the new secret", schema: CalendarFeedsSchema } }
+    },
+    (req: Request, res: Response) => {
+        const token = rotateCalendarToken(currentUser(res).id);
+        const base = `${req.protocol}://${req.get("host")}/calendar`;
+        const query = `?token=${encodeURIComponent(token)}`;
         return res.json({
-            ok: true,
-            ...result
+            token,
+            bookings_url: `${base}/bookings.ics${query}`,
+            availability_url: `${base}/availability.ics${query}`
         });
-    } catch (err: any) {
-        console.error("Notify error:", err?.message || err);
-        return res.status(502).json({
-            error: "Notify failed",
-            detail: String(err?.message || err)
+    }
+);
+
+route(
+    {
+        method: "delete",
+        path: "/calendar/token",
+        operationId: "revokeCalendarToken",
+        summary: "Revoke my calendar feed secret",
+        tag: "calendar",
+        auth: "bearer",
+        responses: {
+            204: { description: "Revoked" },
+            404: { description: "No feed secret to revoke", schema: ErrorSchema }
+        }
+    },
+    (_req: Request, res: Response) => {
+        if (!revokeCalendarToken(currentUser(res).id)) {
+            return res.status(404).json({ error: "No calendar token" });
+        }
+        return res.sendStatus(204);
+    }
+);
+
+route(
+    {
+        method: "get",
+        path: "/calendar/bookings.ics",
+        operationId: "bookingsCalendar",
+        summary: "My confirmed reservations as an iCalendar feed",
+        description: "My Bookings is re-scraped at most every CALENDAR_BOOKINGS_TTL_MINUTES; a failed scrape serves the last listing.",
+        tag: "calendar",
+        auth: "calendar",
+        responses: {
+            200: { description: "VCALENDAR with one VEVENT per reservation", content_type: "text/calendar" },
+            502: { description: "My Bookings could not be read", schema: ErrorSchema }
+        }
+    },
+    async (_req: Request, res: Response) => {
+        try {
+            const ics = await bookingsCalendar(currentUser(res));
+            return res.type("text/calendar; charset=utf-8").send(ics);
+        } catch (err: any) {
+            console.error("calendar bookings error:", err?.message || err);
+            return res
+                .status(502)
+                .json({ error: "Could not list bookings", detail: String(err?.message || err) });
+        }
+    }
+);
+
+route(
+    {
+        method: "get",
+        path: "/calendar/availability.ics",
+        operationId: "availabilityCalendar",
+        summary: "Open slots my watches found, as an iCalendar feed",
+        description:
+            "Slots open as of each watch's last run (court, duration, deep_link), marked free/tentative. Nothing is scanned on fetch.",
+        tag: "calendar",
+        auth: "calendar",
+        query: CalendarQuerySchema,
+        responses: {
+            200: { description: "VCALENDAR with one VEVENT per open slot", content_type: "text/calendar" },
+            404: { description: "Watch not found", schema: ErrorSchema }
+        }
+    },
+    (_req: Request, res: Response) => {
+        const { watch } = res.locals.query as CalendarQuery;
+        const ics = availabilityCalendar(currentUser(res), watch);
+        if (ics === null) return res.status(404).json({ error: "Watch not found" });
+        return res.type("text/calendar; charset=utf-8").send(ics);
+    }
+);
+
+// --- /notify ---
+route(
+    {
+        method: "post",
+        path: "/notify",
+        operationId: "notify",
+        summary: "Send a message or event",
+        description:
+            "Sent to the caller's notify target. Only admins may address another target with `notify`.",
+        tag: "notify",
+        auth: "bearer",
+        body: NotifyRequestSchema,
+        responses: {
+            200: { description: "Delivered", schema: NotifyResultSchema },
+            202: { description: "Held for the quiet-hours digest", schema: NotifyResultSchema },
+            207: { description: "Some channels delivered, some did not", schema: NotifyResultSchema },
+            ...NOTIFY_FORBIDDEN,
+            500: { description: "Unexpected error", schema: ErrorSchema },
+            502: { description: "No channel delivered", schema: NotifyResultSchema }
+        }
+    },
+    async (req: Request, res: Response) => {
+        try {
+            const payload = req.body as NotifyPayload;
+            const user = currentUser(res);
+            if (!mayChooseNotify(user, payload.notify)) {
+                return res.status(403).json({ error: "Only admins may set notify targets" });
+            }
+            const result = await notifyService({
+                ...payload,
+                notify: payload.notify ?? user.notify
+            });
+            // 202: held for the quiet-hours digest
+            // 207: fan-out where some channels delivered and some did not
+            const status = result.deferred
+                ? 202
+                : result.ok
+                ? 200
+                : result.results.some((r) => r.ok)
+                  ? 207
+                  : 502;
+            return res.status(status).json(result);
+        } catch (err: any) {
+            console.error("Notify error:", err?.message || err);
+            return res.status(500).json({
+                error: "Notify failed",
+                detail: String(err?.message || err)
+            });
+        }
+    }
+);
+
+// --- /courts ---
+route(
+    {
+        method: "get",
+        path: "/courts",
+        operationId: "listCourts",
+        summary: "Court catalog",
+        tag: "availability",
+        auth: "bearer",
+        query: CourtsQuerySchema,
+        responses: {
+            200: { description: "Known courts", schema: CourtCatalogSchema },
+            502: { description: "Facility list unavailable", schema: ErrorSchema }
+        }
+    },
+    async (_req: Request, res: Response) => {
+        try {
+            const query = res.locals.query as CourtsQuery;
+            const catalog = await loadCourtCatalog(
+                { refresh: query.refresh === "true" },
+                accountFor(currentUser(res))
+            );
+            return res.json(catalog);
+        } catch (err: any) {
+            console.error("courts error:", err?.message || err);
+            return res
+                .status(502)
+                .json({ error: "Court catalog unavailable", detail: String(err?.message || err) });
+        }
+    }
+);
+
+// --- /stats ---
+route(
+    {
+        method: "get",
+        path: "/stats",
+        operationId: "getStats",
+        summary: "Availability history by court, weekday and hour",
+        description:
+            "Built from every scan's tiles (HISTORY_RETENTION_DAYS kept). `format=csv` returns the same rows as text/csv.",
+        tag: "availability",
+        auth: "bearer",
+        query: StatsQuerySchema,
+        responses: { 200: { description: "One row per group", schema: StatsSchema } }
+    },
+    (_req: Request, res: Response) => {
+        const { format, group_by, ...filter } = res.locals.query as StatsQuery;
+        const groupBy = [...new Set(group_by.split(","))] as StatsGroupBy[];
+        const rows = computeStats({ ...filter, group_by: groupBy });
+        if (format === "csv") {
+            return res
+                .type("text/csv")
+                .attachment("court-stats.csv")
+                .send(statsToCsv(rows, groupBy));
+        }
+        return res.json({ rows });
+    }
+);
+
+// --- /watches (members see only their own) ---
+function visibleWatch(res: Response, id: string) {
+    const watch = getWatch(id);
+    const user = currentUser(res);
+    if (!watch || (user.role !== "admin" && watchOwner(watch) !== user.id)) {
+        return undefined;
+    }
+    return watch;
+}
+
+const WATCH_NOT_FOUND = { 404: { description: "Watch not found", schema: ErrorSchema } };
+
+route(
+    {
+        method: "get",
+        path: "/watches",
+        operationId: "listWatches",
+        summary: "List watches",
+        description: "Admins see every watch, members their own.",
+        tag: "watches",
+        auth: "bearer",
+        responses: { 200: { description: "Watches", schema: WatchListSchema } }
+    },
+    (_req: Request, res: Response) => {
+        const user = currentUser(res);
+        const watches = listWatches().filter(
+            (w) => user.role === "admin" || watchOwner(w) === user.id
+        );
+        return res.json({ watches });
+    }
+);
+
+route(
+    {
+        method: "post",
+        path: "/watches",
+        operationId: "createWatch",
+        summary: "Create a watch",
+        description: "Runs under the caller's UBC account; preferences merge over their defaults.",
+        tag: "watches",
+        auth: "bearer",
+        body: WatchRequestSchema,
+        responses: { 201: { description: "Created", schema: WatchSchema }, ...NOTIFY_FORBIDDEN }
+    },
+    (req: Request, res: Response) => {
+        const input = req.body as WatchRequest;
+        const user = currentUser(res);
+        if (!mayChooseNotify(user, input.notify)) {
+            return res.status(403).json({ error: "Only admins may set notify targets" });
+        }
+        const watch = createWatch({
+            ...input,
+            owner_id: user.id,
+            preferences: { ...user.default_preferences, ...input.preferences },
+            notify: input.notify ?? user.notify
         });
+        return res.status(201).json(watch);
+    }
+);
+
+route(
+    {
+        method: "get",
+        path: "/watches/:id",
+        operationId: "getWatch",
+        summary: "Get a watch",
+        tag: "watches",
+        auth: "bearer",
+        responses: { 200: { description: "The watch", schema: WatchSchema }, ...WATCH_NOT_FOUND }
+    },
+    (req: Request, res: Response) => {
+        const watch = visibleWatch(res, req.params.id);
+        if (!watch) return res.status(404).json({ error: "Watch not found" });
+        return res.json(watch);
+    }
+);
+
+route(
+    {
+        method: "patch",
+        path: "/watches/:id",
+        operationId: "updateWatch",
+        summary: "Update a watch",
+        tag: "watches",
+        auth: "bearer",
+        body: WatchPatchSchema,
+        responses: {
+            200: { description: "Updated", schema: WatchSchema },
+            ...NOTIFY_FORBIDDEN,
+            ...WATCH_NOT_FOUND
+        }
+    },
+    (req: Request, res: Response) => {
+        if (!visibleWatch(res, req.params.id)) {
+            return res.status(404).json({ error: "Watch not found" });
+        }
+        if (!mayChooseNotify(currentUser(res), (req.body as WatchPatch).notify)) {
+            return res.status(403).json({ error: "Only admins may set notify targets" });
+        }
+        const watch = updateWatch(req.params.id, req.body as WatchPatch);
+        if (!watch) return res.status(404).json({ error: "Watch not found" });
+        return res.json(watch);
+    }
+);
+
+route(
+    {
+        method: "delete",
+        path: "/watches/:id",
+        operationId: "deleteWatch",
+        summary: "Delete a watch",
+        tag: "watches",
+        auth: "bearer",
+        responses: { 204: { description: "Deleted" }, ...WATCH_NOT_FOUND }
+    },
+    (req: Request, res: Response) => {
+        if (!visibleWatch(res, req.params.id) || !deleteWatch(req.params.id)) {
+            return res.status(404).json({ error: "Watch not found" });
+        }
+        return res.status(204).end();
+    }
+);
+
+// --- /releases ---
+route(
+    {
+        method: "get",
+        path: "/releases",
+        operationId: "getReleases",
+        summary: "Booking-window release schedule",
+        description: "The schedule release polling uses, what has been learned from watch runs and the next window.",
+        tag: "watches",
+        auth: "bearer",
+        responses: { 200: { description: "Release schedule and polling state", schema: ReleaseStatusSchema } }
+    },
+    (_req: Request, res: Response) => res.json(getReleaseStatus())
+);
+
+route(
+    {
+        method: "put",
+        path: "/releases/schedule",
+        operationId: "setReleaseSchedule",
+        summary: "Set the release schedule",
+        description: 'e.g. { "days_ahead": 14, "times": ["00:00", "07:00"] }; overrides RELEASE_SCHEDULE and the learned schedule.',
+        tag: "watches",
+        auth: "admin",
+        body: ReleaseScheduleSchema,
+        responses: { 200: { description: "Updated", schema: ReleaseStatusSchema } }
+    },
+    (req: Request, res: Response) => {
+        setReleaseSchedule(req.body as ReleaseScheduleRequest);
+        return res.json(getReleaseStatus());
+    }
+);
+
+route(
+    {
+        method: "delete",
+        path: "/releases/schedule",
+        operationId: "clearReleaseSchedule",
+        summary: "Clear the configured release schedule",
+        description: "Falls back to RELEASE_SCHEDULE, then to the learned schedule.",
+        tag: "watches",
+        auth: "admin",
+        responses: { 200: { description: "Cleared", schema: ReleaseStatusSchema } }
+    },
+    (_req: Request, res: Response) => {
+        setReleaseSchedule(null);
+        return res.json(getReleaseStatus());
+    }
+);
+
+// --- /session ---
+route(
+    {
+        method: "get",
+        path: "/session",
+        operationId: "getSession",
+        summary: "Browser session status for the caller's UBC account",
+        tag: "meta",
+        auth: "bearer",
+        responses: {
+            200: { description: "Session status", schema: SessionStatusSchema },
+            404: { description: "The caller has no UBC account", schema: ErrorSchema },
+            500: { description: "Unexpected error", schema: ErrorSchema }
+        }
+    },
+    async (_req: Request, res: Response) => {
+        try {
+            const account = accountFor(currentUser(res));
+            if (!account) {
+                return res.status(404).json({ error: "No UBC account for this user" });
+            }
+            return res.json(await getSessionStatus(account.key));
+        } catch (err: any) {
+            console.error("session error:", err?.message || err);
+            return res
+                .status(500)
+                .json({ error: "Could not read the session", detail: String(err?.message || err) });
+        }
     }
+);
+
+route(
+    {
+        method: "post",
+        path: "/session/mfa",
+        operationId: "submitMfaPasscode",
+        summary: "Pass a Duo passcode to the login waiting at the MFA prompt",
+        description:
+            "A login that reaches Duo notifies the account's owner (`mfa_required`) and waits for the push to be approved or for a passcode sent here, until MFA_TIMEOUT_SECONDS.",
+        tag: "meta",
+        auth: "bearer",
+        body: MfaPasscodeSchema,
+        responses: {
+            202: { description: "Handed to the waiting login", schema: SessionStatusSchema },
+            409: { description: "No login is waiting on a Duo prompt", schema: ErrorSchema },
+            500: { description: "Unexpected error", schema: ErrorSchema }
+        }
+    },
+    async (req: Request, res: Response) => {
+        try {
+            const { passcode } = req.body as MfaPasscode;
+            const account = accountFor(currentUser(res));
+            if (!account || !submitMfaPasscode(account.key, passcode)) {
+                return res.status(409).json({ error: "No login is waiting on a Duo prompt for this account" });
+            }
+            return res.status(202).json(await getSessionStatus(account.key));
+        } catch (err: any) {
+            console.error("mfa error:", err?.message || err);
+            return res
+                .status(500)
+                .json({ error: "Could not pass on the passcode", detail: String(err?.message || err) });
+        }
+    }
+);
+
+/** Tell the account's owner a login is stuck at Duo until someone acts. */
+onMfaChallenge((accountKey, challenge) => {
+    const owner = accountOwner(accountKey);
+    notifyService({
+        notify: owner?.notify,
+        event: {
+            type: "mfa_required",
+            account: accountKey,
+            methods: challenge.methods,
+            expires_at: challenge.expires_at
+        }
+    })
+        .then((sent) => {
+            if (!sent.ok) console.error(`[session] MFA notification failed: ${describeFailures(sent)}`);
+        })
+        .catch((err) => console.error("[session] MFA notification failed:", err?.message || err));
 });
 
+// --- /audit ---
+route(
+    {
+        method: "get",
+        path: "/audit",
+        operationId: "listAudit",
+        summary: "Auto-book audit log",
+        description: "Members only see entries for their own watches.",
+        tag: "watches",
+        auth: "bearer",
+        query: AuditQuerySchema,
+        responses: { 200: { description: "Newest first", schema: AuditLogSchema } }
+    },
+    (_req: Request, res: Response) => {
+        const query = res.locals.query as AuditQuery;
+        const user = currentUser(res);
+        const ownWatchIds =
+            user.role === "admin"
+                ? undefined
+                : listWatches().filter((w) => watchOwner(w) === user.id).map((w) => w.id);
+        return res.json({ entries: listAudit({ ...query, watch_ids: ownWatchIds }) });
+    }
+);
+
+// --- /me ---
+route(
+    {
+        method: "get",
+        path: "/me",
+        operationId: "getMe",
+        summary: "The user the token belongs to",
+        tag: "users",
+        auth: "bearer",
+        responses: { 200: { description: "Caller", schema: PublicUserSchema } }
+    },
+    (_req: Request, res: Response) => {
+        return res.json(publicUser(currentUser(res)));
+    }
+);
+
+// --- /admin/users ---
+const USER_NOT_FOUND = { 404: { description: "User not found", schema: ErrorSchema } };
+
+route(
+    {
+        method: "get",
+        path: "/admin/users",
+        operationId: "listUsers",
+        summary: "List users",
+        tag: "users",
+        auth: "admin",
+        responses: { 200: { description: "Users", schema: UserListSchema } }
+    },
+    (_req: Request, res: Response) => {
+        return res.json({ users: listUsers().map(publicUser) });
+    }
+);
+
+route(
+    {
+        method: "post",
+        path: "/admin/users",
+        operationId: "createUser",
+        summary: "Create a user",
+        description: "The response carries the user's API token; it is not shown again.",
+        tag: "users",
+        auth: "admin",
+        body: UserRequestSchema,
+        responses: { 201: { description: "Created", schema: UserTokenSchema } }
+    },
+    (req: Request, res: Response) => {
+        const input = req.body as UserRequest;
+        if (input.ubc_user && !canEncrypt()) {
+            return res.status(400).json({
+                error: "Invalid request",
+                detail: "CREDENTIALS_KEY must be set to store UBC credentials"
+            });
+        }
+
+        try {
+            const { user, token } = createUser(input);
+            // The token is only ever shown here and on rotation.
+            return res.status(201).json({ user: publicUser(user), token });
+        } catch (err: any) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", detail: String(err?.message || err) });
+        }
+    }
+);
+
+route(
+    {
+        method: "patch",
+        path: "/admin/users/:id",
+        operationId: "updateUser",
+        summary: "Update a user",
+        description: "New UBC credentials or disabling the user drops their browser session.",
+        tag: "users",
+        auth: "admin",
+        body: UserPatchSchema,
+        responses: { 200: { description: "Updated", schema: PublicUserSchema }, ...USER_NOT_FOUND }
+    },
+    async (req: Request, res: Response) => {
+        const patch = req.body as UserPatch;
+        if (patch.ubc_user && !canEncrypt()) {
+            return res.status(400).json({
+                error: "Invalid request",
+                detail: "CREDENTIALS_KEY must be set to store UBC credentials"
+            });
+        }
+
+        try {
+            const user = await updateUser(req.params.id, patch);
+            if (!user) return res.status(404).json({ error: "User not found" });
+            return res.json(publicUser(user));
+        } catch (err: any) {
+            return res
+                .status(400)
+                .json({ error: "Invalid request", detail: String(err?.message || err) });
+        }
+    }
+);
+
+route(
+    {
+        method: "post",
+        path: "/admin/users/:id/rotate_token",
+        operationId: "rotateUserToken",
+        summary: "Issue a new token",
+        description: "The old token stops working immediately.",
+        tag: "users",
+        auth: "admin",
+        responses: { 200: { description: "New token", schema: UserTokenSchema }, ...USER_NOT_FOUND }
+    },
+    (req: Request, res: Response) => {
+        const token = rotateToken(req.params.id);
+        if (!token) return res.status(404).json({ error: "User not found" });
+        return res.json({ user: publicUser(getUser(req.params.id)!), token });
+    }
+);
+
+// --- Telegram bot updates (secret header instead of Bearer) ---
+route(
+    {
+        method: "post",
+        path: "/telegram/webhook",
+        operationId: "telegramWebhook",
+        summary: "Telegram Bot API updates",
+        tag: "telegram",
+        auth: "telegram",
+        body: TelegramUpdateSchema,
+        responses: { 200: { description: "Accepted; handled in the background" } }
+    },
+    (req: Request, res: Response) => {
+        // Acknowledge right away; Telegram re-sends updates that take too long.
+        res.sendStatus(200);
+        handleTelegramUpdate(req.body).catch((err) =>
+            console.error("[telegram-bot] Update failed:", err?.message || err)
+        );
+    }
+);
+
 // --- start server ---
 app.listen(env.port, () => {
     console.log(`Server listening on port ${env.port}`);
+    startWatchScheduler();
+    startDigestScheduler();
+    startTelegramBot();
+    startCancelReminderScheduler();
+    startReleaseScheduler();
 });
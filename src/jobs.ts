@@ -0,0 +1,225 @@
+// src/jobs.ts
+//
+// Background check jobs: POST /checks answers at once with a job id while
+// checkAvailability runs behind a bounded queue. Identical requests share
+// one job while it runs, and finished results are reused for a short TTL.
+import { randomUUID } from "crypto";
+import { env } from "./config/env";
+import { createLimiter } from "./concurrency";
+import type { SessionAccount } from "./session";
+import {
+    checkAvailability,
+    type CourtScan,
+    type Preferences,
+    type ScanDiagnostics,
+    type ScanProgress,
+    type Slot
+} from "./ubc";
+
+export type CheckJobStatus = "queued" | "running" | "done" | "failed";
+
+export type CheckJob = {
+    id: string;
+    owner_id: string;
+    status: CheckJobStatus;
+    preferences: Preferences;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+    progress: {
+        /** courts that will be scanned; null until the catalog is read */
+        courts_total: number | null;
+        courts_done: number;
+        /** per-court reports so far, skipped courts included */
+        courts: CourtScan[];
+    };
+    /** slots from the courts finished so far; replaced by the final list */
+    slots: Slot[];
+    /** as /check_now returns them, once the scan finished */
+    diagnostics: ScanDiagnostics | null;
+    error: string | null;
+};
+
+/** Pushed to /checks/:id/events subscribers. */
+export type CheckJobEvent =
+    | { type: "status"; job: CheckJob }
+    | ScanProgress
+    | { type: "done"; job: CheckJob };
+
+/** Raised by submitCheck when CHECK_JOBS_MAX_QUEUED jobs are already waiting. */
+export class QueueFullError extends Error {}
+
+type JobEntry = {
+    job: CheckJob;
+    /** owner + canonical preferences; identical requests share it */
+    key: string;
+    listeners: Set<(event: CheckJobEvent) => void>;
+};
+
+/** Finished jobs stay pollable this long, even after their cache TTL. */
+const RETENTION_MS = 60 * 60_000;
+
+const jobs = new Map<string, JobEntry>();
+const limiter = createLimiter(env.jobs.concurrency);
+
+// -------------------------------- HELPERS -----------------------------------
+
+/** Same preferences in any key order → same string. */
+function canonical(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function jobKey(ownerId: string, preferences: Preferences): string {
+    return `${ownerId}|${canonical(preferences)}`;
+}
+
+function emit(entry: JobEntry, event: CheckJobEvent): void {
+    for (const listener of entry.listeners) {
+        try {
+            listener(event);
+        } catch (err: any) {
+            console.warn(`[jobs] Listener for ${entry.job.id} failed:`, err?.message || err);
+        }
+    }
+}
+
+function prune(now: number): void {
+    for (const [id, { job }] of jobs) {
+        if (job.finished_at && now - Date.parse(job.finished_at) > RETENTION_MS) {
+            jobs.delete(id);
+        }
+    }
+}
+
+function onProgress(entry: JobEntry, event: ScanProgress): void {
+    const { job } = entry;
+    switch (event.type) {
+        case "courts_selected":
+            job.progress.courts_total = event.scanning.length;
+            job.progress.courts.push(...event.skipped);
+            break;
+        case "court_done":
+            job.progress.courts_done++;
+            job.progress.courts.push(event.report);
+            job.slots.push(...event.slots);
+            break;
+    }
+    emit(entry, event);
+}
+
+async function run(entry: JobEntry, account: SessionAccount | null): Promise<void> {
+    const { job } = entry;
+    await limiter.run(async () => {
+        job.status = "running";
+        job.started_at = new Date().toISOString();
+        emit(entry, { type: "status", job });
+        console.log(`[jobs] Running check ${job.id}…`);
+
+        try {
+            const result = await checkAvailability(job.preferences, account, (event) =>
+                onProgress(entry, event)
+            );
+            job.slots = result.slots;
+            job.progress.courts = result.courts;
+            job.diagnostics = result.diagnostics;
+            job.status = "done";
+        } catch (err: any) {
+            console.error(`[jobs] Check ${job.id} failed:`, err?.message || err);
+            job.error = String(err?.message || err);
+            job.status = "failed";
+        } finally {
+            job.finished_at = new Date().toISOString();
+        }
+    });
+    emit(entry, { type: "done", job });
+    entry.listeners.clear();
+}
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+export type SubmittedCheck = {
+    job: CheckJob;
+    /** an identical check was already queued or running */
+    deduplicated: boolean;
+    /** an identical check finished within CHECK_CACHE_SECONDS */
+    cached: boolean;
+};
+
+/**
+ * Queue a check, or hand back the identical one already queued/running, or
+ * a finished one still inside the cache TTL. Throws when the queue is full.
+ */
+export function submitCheck(
+    ownerId: string,
+    preferences: Preferences,
+    account: SessionAccount | null
+): SubmittedCheck {
+    const now = Date.now();
+    prune(now);
+    const key = jobKey(ownerId, preferences);
+
+    let cachedJob: CheckJob | null = null;
+    for (const entry of jobs.values()) {
+        if (entry.key !== key) continue;
+        const { job } = entry;
+        if (job.status === "queued" || job.status === "running") {
+            return { job, deduplicated: true, cached: false };
+        }
+        if (
+            job.status === "done" &&
+            now - Date.parse(job.finished_at!) <= env.jobs.cacheMs &&
+            (!cachedJob || job.finished_at! > cachedJob.finished_at!)
+        ) {
+            cachedJob = job;
+        }
+    }
+    if (cachedJob) return { job: cachedJob, deduplicated: false, cached: true };
+
+    const waiting = [...jobs.values()].filter((e) => e.job.status === "queued").length;
+    if (waiting >= env.jobs.maxQueued) {
+        throw new QueueFullError(`Check queue is full (${waiting} waiting); try again shortly`);
+    }
+
+    const job: CheckJob = {
+        id: randomUUID(),
+        owner_id: ownerId,
+        status: "queued",
+        preferences,
+        created_at: new Date(now).toISOString(),
+        started_at: null,
+        finished_at: null,
+        progress: { courts_total: null, courts_done: 0, courts: [] },
+        slots: [],
+        diagnostics: null,
+        error: null
+    };
+    const entry: JobEntry = { job, key, listeners: new Set() };
+    jobs.set(job.id, entry);
+    void run(entry, account);
+    return { job, deduplicated: false, cached: false };
+}
+
+export function getCheckJob(id: string): CheckJob | undefined {
+    return jobs.get(id)?.job;
+}
+
+/**
+ * Follow a job's progress. Returns the unsubscribe function, or null when
+ * the job is unknown. Listeners are dropped after the "done" event.
+ */
+export function subscribeCheckJob(
+    id: string,
+    listener: (event: CheckJobEvent) => void
+): (() => void) | null {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+}
@@ -0,0 +1,322 @@
+// src/login.ts
+import { BrowserContext, Page, Locator } from "playwright";
+import { env } from "./config/env";
+
+export const BASE_URL =
+    process.env.UBC_BASE_URL ??
+    "https://ubc.perfectmind.com/24063/Clients/BookMe4FacilityList/List?calendarId=e65c1527-c4f8-4316-b6d6-3b174041f00e&widgetId=c7c36ee3-2494-4de2-b2cb-d50a86487656&embed=False&singleCalendarWidget=true";
+
+/** The account's "My Bookings" page; defaults to the one next to BASE_URL. */
+export const BOOKINGS_URL =
+    process.env.UBC_BOOKINGS_URL ?? new URL("/24063/MyBookings", BASE_URL).toString();
+
+export type UbcCredentials = {
+    user: string;
+    pass: string;
+};
+
+/** Where a login is: URL1 court list → URL2 portal → URL3 CWL → Duo → SAML back. */
+export type LoginStage = "portal" | "cwl_form" | "mfa_challenge" | "redirect" | "logged_in";
+
+export type LoginErrorCode =
+    | "no_credentials"
+    | "bad_credentials"
+    | "mfa_timeout"
+    | "mfa_denied"
+    | "portal_changed"
+    | "timeout";
+
+export class LoginError extends Error {
+    constructor(
+        readonly code: LoginErrorCode,
+        message: string,
+        readonly stage: LoginStage
+    ) {
+        super(message);
+    }
+}
+
+export type MfaMethod = "push" | "passcode";
+
+export type MfaChallenge = {
+    /** a push was sent (approve it on the phone), and/or a passcode can be typed in */
+    methods: MfaMethod[];
+    started_at: string;
+    expires_at: string;
+};
+
+/**
+ * How the flow reaches a human while Duo waits: `started` when the prompt
+ * shows up, `takePasscode` polled for a code someone submitted meanwhile,
+ * `ended` once the challenge is passed or given up on.
+ */
+export type MfaHandler = {
+    started(challenge: MfaChallenge): void;
+    takePasscode(): string | null;
+    ended(): void;
+};
+
+// ------------------------------- HELPERS ------------------------------------
+
+/** How long the SAML + Duo redirect chain may take outside of an MFA wait. */
+const REDIRECT_TIMEOUT_MS = 60_000;
+const POLL_MS = 500;
+
+const USERNAME_FIELD = 'input[name="username"], #username, input[id*="Login"], input[id*="User"]';
+const PASSWORD_FIELD = 'input[name="password"], #password, input[type="password"]';
+const CWL_ERROR = '.error, .alert-danger, [role="alert"], #msg.errors';
+/** Duo Universal Prompt (and the older iframe prompt) */
+const DUO_PROMPT = /duo push|verify it'?s you|enter a passcode|duo mobile passcode/i;
+const DUO_PUSH = /duo push|push sent|sent to/i;
+const DUO_DENIED = /request (was )?denied|login request was denied|denied the request/i;
+const DUO_EXPIRED = /push timed out|request timed out|your session has expired/i;
+const PASSCODE_FIELD = 'input[name="passcode-input"], #passcode-input, input.passcode-input';
+
+async function visible(locator: Locator): Promise<boolean> {
+    return locator.first().isVisible().catch(() => false);
+}
+
+async function clickIfVisible(locator: Locator): Promise<boolean> {
+    if (!(await visible(locator))) return false;
+    await locator.first().click();
+    return true;
+}
+
+async function hasText(page: Page, pattern: RegExp): Promise<boolean> {
+    return visible(page.getByText(pattern));
+}
+
+/** True when the page header no longer offers a "Login" link. */
+export async function isLoggedIn(page: Page): Promise<boolean> {
+    const loginButton = page.locator("text=Login").first();
+    return !(await loginButton.isVisible().catch(() => false));
+}
+
+/** Which step of the chain `page` is showing right now. */
+async function currentStage(page: Page): Promise<LoginStage> {
+    if (await hasText(page, DUO_PROMPT)) return "mfa_challenge";
+    if (await visible(page.locator(PASSWORD_FIELD))) return "cwl_form";
+    const onPerfectMind = new URL(page.url()).host === new URL(BASE_URL).host;
+    if (onPerfectMind && page.url().startsWith(BASE_URL.split("?")[0]) && (await isLoggedIn(page))) {
+        return "logged_in";
+    }
+    return "redirect";
+}
+
+// ------------------------------- STAGES -------------------------------------
+
+/** URL1 → URL2: click "Login", then "CWL Login" on the portal. */
+async function openPortal(context: BrowserContext, page: Page): Promise<Page> {
+    console.log("[ubc] Clicking Login (URL1 → URL2: Login Portal)…");
+    const [maybeNewPage] = await Promise.all([
+        context.waitForEvent("page").catch(() => null),
+        page.locator("text=Login").first().click()
+    ]);
+
+    let authPage: Page = maybeNewPage ?? page;
+    await authPage.waitForLoadState("domcontentloaded");
+
+    console.log("[ubc] Looking for 'CWL Login' button on Login Portal…");
+    const candidates: Locator[] = [
+        authPage.getByRole("button", { name: /cwl login/i }),
+        authPage.getByRole("link", { name: /cwl login/i }),
+        authPage.locator('a:has(img[alt*="CWL"])'),
+        authPage.locator('img[alt*="CWL"]').locator("xpath=ancestor::a[1]")
+    ];
+
+    let cwlButton: Locator | null = null;
+    for (const cand of candidates) {
+        const first = cand.first();
+        if (await first.isVisible().catch(() => false)) {
+            cwlButton = first;
+            break;
+        }
+    }
+
+    if (cwlButton) {
+        console.log("[ubc] Clicking CWL Login (URL2 → URL3)…");
+        const [maybeCwlPage] = await Promise.all([
+            context.waitForEvent("page").catch(() => null),
+            cwlButton.click()
+        ]);
+        if (maybeCwlPage) authPage = maybeCwlPage;
+        await authPage.waitForLoadState("domcontentloaded");
+    } else {
+        console.warn(
+            "[ubc] Could not find CWL Login button; continuing on current page."
+        );
+    }
+    return authPage;
+}
+
+/** URL3: fill and submit the CWL username/password form. */
+async function submitCwlForm(authPage: Page, credentials: UbcCredentials): Promise<void> {
+    console.log("[ubc] Looking for CWL username/password fields (URL3)…");
+    const usernameLocator = authPage.locator(USERNAME_FIELD);
+    const passwordLocator = authPage.locator(PASSWORD_FIELD);
+
+    try {
+        await usernameLocator.first().waitFor({ timeout: 60000 });
+        await passwordLocator.first().waitFor({ timeout: 60000 });
+    } catch {
+        throw new LoginError(
+            "portal_changed",
+            `No CWL username/password fields on ${authPage.url()}`,
+            "portal"
+        );
+    }
+
+    console.log("[ubc] Filling CWL credentials…");
+    await usernameLocator.first().fill(credentials.user);
+    await passwordLocator.first().fill(credentials.pass);
+
+    const submitButton = authPage
+        .getByRole("button", { name: /login|sign in|submit/i })
+        .first();
+
+    console.log("[ubc] Submitting CWL form…");
+    await submitButton.click();
+}
+
+/** Type a passcode into the Duo prompt, opening "Other options" first if needed. */
+async function enterPasscode(page: Page, passcode: string): Promise<void> {
+    const field = page.locator(PASSCODE_FIELD).first();
+    if (!(await visible(field))) {
+        await clickIfVisible(page.getByRole("button", { name: /enter a passcode/i }));
+        if (await clickIfVisible(page.getByRole("link", { name: /other options/i }))) {
+            await clickIfVisible(page.getByRole("link", { name: /passcode/i }));
+        }
+        try {
+            await field.waitFor({ timeout: 10_000 });
+        } catch {
+            throw new LoginError("portal_changed", "No passcode field on the Duo prompt", "mfa_challenge");
+        }
+    }
+
+    console.log("[ubc] Submitting Duo passcode…");
+    await field.fill(passcode);
+    await page.getByRole("button", { name: /verify|log in|submit/i }).first().click();
+}
+
+/**
+ * Duo: wait for the push to be approved or for a passcode submitted through
+ * `mfa`, until MFA_TIMEOUT_SECONDS runs out. Returns once the prompt is gone.
+ */
+async function passMfa(page: Page, mfa: MfaHandler | undefined): Promise<void> {
+    // The older prompt only sends a push when asked to.
+    await clickIfVisible(page.getByRole("button", { name: /send me a push/i }));
+
+    const methods: MfaMethod[] = (await hasText(page, DUO_PUSH)) ? ["push", "passcode"] : ["passcode"];
+    const startedAt = Date.now();
+    const expiresAt = startedAt + env.session.mfaTimeoutMs;
+    console.log(`[ubc] Duo challenge (${methods.join(" or ")}); waiting for a human…`);
+    mfa?.started({
+        methods,
+        started_at: new Date(startedAt).toISOString(),
+        expires_at: new Date(expiresAt).toISOString()
+    });
+
+    try {
+        while (Date.now() < expiresAt) {
+            const passcode = mfa?.takePasscode();
+            if (passcode) await enterPasscode(page, passcode);
+
+            if ((await currentStage(page)) !== "mfa_challenge") {
+                console.log("[ubc] Duo challenge passed");
+                return;
+            }
+            if (await hasText(page, DUO_DENIED)) {
+                throw new LoginError("mfa_denied", "The Duo request was denied", "mfa_challenge");
+            }
+            if (await hasText(page, DUO_EXPIRED)) break;
+            await page.waitForTimeout(POLL_MS);
+        }
+    } finally {
+        mfa?.ended();
+    }
+    throw new LoginError(
+        "mfa_timeout",
+        `No Duo approval or passcode within ${Math.round(env.session.mfaTimeoutMs / 1000)}s`,
+        "mfa_challenge"
+    );
+}
+
+// ------------------------------ LOGIN FLOW ----------------------------------
+
+/**
+ * Walk portal → CWL form → Duo → SAML redirects until the court list shows
+ * the member as signed in. Every way this can go wrong ends in a LoginError
+ * naming the stage it got stuck at.
+ */
+export async function ensureLoggedIn(
+    context: BrowserContext,
+    page: Page,
+    credentials: UbcCredentials,
+    mfa?: MfaHandler
+): Promise<Page> {
+    console.log("[ubc] Checking login state…");
+
+    // If the header has a visible "Login" button/link, we're NOT logged in.
+    if (await isLoggedIn(page)) {
+        console.log("[ubc] Already logged in (no Login button visible)");
+        return page;
+    }
+
+    if (!credentials.user || !credentials.pass) {
+        throw new LoginError("no_credentials", "No UBC credentials for this account", "portal");
+    }
+
+    const authPage = await openPortal(context, page);
+    await submitCwlForm(authPage, credentials);
+
+    // --- Duo, SAML and the redirect back to URL4 ---
+    let deadline = Date.now() + REDIRECT_TIMEOUT_MS;
+    let stage: LoginStage = "redirect";
+    while (Date.now() < deadline) {
+        await authPage.waitForLoadState("domcontentloaded").catch(() => undefined);
+        stage = await currentStage(authPage);
+
+        if (stage === "logged_in") {
+            console.log("[ubc] Login flow complete; back on court list (URL4).");
+            return authPage;
+        }
+        if (stage === "mfa_challenge") {
+            await passMfa(authPage, mfa);
+            deadline = Date.now() + REDIRECT_TIMEOUT_MS;
+            continue;
+        }
+        if (stage === "cwl_form") {
+            // A re-rendered form with an error (or emptied password) is a rejection.
+            const error = authPage.locator(CWL_ERROR).filter({ hasText: /\S/ });
+            const password = await authPage.locator(PASSWORD_FIELD).first().inputValue().catch(() => "");
+            if ((await visible(error)) || password === "") {
+                const text = (await error.first().textContent().catch(() => null))?.trim();
+                throw new LoginError("bad_credentials", text || "CWL rejected the credentials", "cwl_form");
+            }
+        }
+        if (stage === "redirect") {
+            // Duo's "Is this your device?" — remember the browser to skip Duo next time.
+            await clickIfVisible(authPage.getByRole("button", { name: /yes, this is my device|trust browser/i }));
+
+            // Landed somewhere on PerfectMind other than the court list.
+            if (new URL(authPage.url()).host === new URL(BASE_URL).host) {
+                await authPage.waitForLoadState("networkidle", { timeout: 10_000 }).catch(() => undefined);
+                if ((await currentStage(authPage)) === "redirect") {
+                    console.log("[ubc] Navigating back to court list after login…", authPage.url());
+                    await authPage.goto(BASE_URL, { waitUntil: "networkidle" });
+                    if (!(await isLoggedIn(authPage))) {
+                        throw new LoginError(
+                            "portal_changed",
+                            "Still signed out after the CWL redirect",
+                            "redirect"
+                        );
+                    }
+                }
+                continue;
+            }
+        }
+        await authPage.waitForTimeout(POLL_MS);
+    }
+
+    throw new LoginError("timeout", `Login did not get past ${stage} in time`, stage);
+}
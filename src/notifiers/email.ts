@@ -0,0 +1,72 @@
+// src/notifiers/email.ts
+import { env } from "../config/env";
+import { DeliveryError } from "./http";
+import type { Attachment, Notifier } from "./types";
+
+export type EmailExtras = {
+    subject?: string;
+    html?: string;
+    attachments?: Attachment[];
+};
+
+const DEFAULT_SUBJECT = "UBC Tennis Booker";
+
+/**
+ * A 5xx reply or rejected credentials will fail again; a 4xx reply, a
+ * timeout or a dropped connection may pass on a later attempt.
+ */
+function smtpError(err: any): DeliveryError {
+    const code: number | undefined = err?.responseCode;
+    const retryable = code !== undefined ? code < 500 : err?.code !== "EAUTH";
+    return new DeliveryError(`SMTP send failed: ${err?.response || err?.message || err}`, retryable);
+}
+
+export async function sendEmail(to: string, text: string, extras: EmailExtras = {}) {
+    if (!env.smtp) {
+        throw new DeliveryError("SMTP is not configured", false);
+    }
+
+    const { host, port, user, pass, from } = env.smtp;
+    const timeoutMs = env.notifyPolicy.sendTimeoutMs;
+    const nodemailer = await import("nodemailer");
+    const transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: port === 465,
+        // Unauthenticated relays (and local mock servers) take no credentials.
+        auth: user ? { user, pass } : undefined,
+        connectionTimeout: timeoutMs,
+        greetingTimeout: timeoutMs,
+        socketTimeout: timeoutMs
+    });
+
+    try {
+        await transporter.sendMail({
+            from,
+            to,
+            subject: extras.subject ?? DEFAULT_SUBJECT,
+            text,
+            html: extras.html,
+            attachments: extras.attachments?.map((a) => ({
+                filename: a.filename,
+                content: a.content,
+                contentType: a.content_type
+            }))
+        });
+    } catch (err: any) {
+        throw smtpError(err);
+    }
+}
+
+/** User email first, then EMAIL_TO/EMAIL_FROM. */
+export const emailNotifier: Notifier = {
+    name: "email",
+    isConfigured: () => Boolean(env.smtp),
+    recipient: (target) => (target?.email || env.smtp?.to || "").trim() || null,
+    send: (to, message) =>
+        sendEmail(to, message.text, {
+            subject: message.subject,
+            html: message.html,
+            attachments: message.attachments
+        })
+};
@@ -0,0 +1,38 @@
+// src/notifiers/http.ts
+import { env } from "../config/env";
+
+/** A failed send. withRetries gives up at once on one that is not retryable. */
+export class DeliveryError extends Error {
+    constructor(
+        message: string,
+        readonly retryable: boolean
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * fetch bounded by `timeoutMs` (NOTIFY_SEND_TIMEOUT_SECONDS by default). A
+ * timeout or network error becomes a retryable DeliveryError.
+ */
+export async function fetchWithTimeout(
+    label: string,
+    url: string,
+    init: RequestInit,
+    timeoutMs = env.notifyPolicy.sendTimeoutMs
+): Promise<Response> {
+    try {
+        return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (err: any) {
+        if (err?.name === "TimeoutError") {
+            throw new DeliveryError(`${label} timed out after ${timeoutMs} ms`, true);
+        }
+        throw new DeliveryError(`${label} request failed: ${err?.cause?.message || err?.message || err}`, true);
+    }
+}
+
+/** 408, 429 and 5xx may pass on a later attempt; any other status will not. */
+export function statusError(label: string, status: number, body: string): DeliveryError {
+    const retryable = status === 408 || status === 429 || status >= 500;
+    return new DeliveryError(`${label} failed: ${status} ${body}`.trim(), retryable);
+}
@@ -0,0 +1,29 @@
+// src/notifiers/index.ts
+import { telegramNotifier } from "./telegram";
+import { emailNotifier } from "./email";
+import { smsNotifier } from "./sms";
+import { webhookNotifier } from "./webhook";
+import type { ChannelName, Notifier } from "./types";
+
+export * from "./types";
+export { DeliveryError } from "./http";
+
+// Registration order is the default preference order.
+const registry = new Map<ChannelName, Notifier>();
+
+export function registerNotifier(notifier: Notifier): void {
+    registry.set(notifier.name, notifier);
+}
+
+export function getNotifier(name: ChannelName): Notifier | undefined {
+    return registry.get(name);
+}
+
+export function listNotifiers(): Notifier[] {
+    return Array.from(registry.values());
+}
+
+registerNotifier(telegramNotifier);
+registerNotifier(emailNotifier);
+registerNotifier(smsNotifier);
+registerNotifier(webhookNotifier);
@@ -0,0 +1,35 @@
+// src/notifiers/sms.ts
+import { env } from "../config/env";
+import { fetchWithTimeout, statusError } from "./http";
+import type { Notifier } from "./types";
+
+/**
+ * Generic HTTP SMS gateway: POST {to, from, text} as JSON with a bearer
+ * token. Most providers (or a small relay in front of them) accept this shape.
+ */
+export async function sendSms(to: string, text: string) {
+    if (!env.sms) {
+        throw new Error("SMS gateway is not configured");
+    }
+
+    const resp = await fetchWithTimeout("SMS gateway", env.sms.gatewayUrl, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            ...(env.sms.token ? { Authorization: `Bearer ${env.sms.token}` } : {})
+        },
+        body: JSON.stringify({ to, from: env.sms.from, text })
+    });
+
+    if (!resp.ok) {
+        throw statusError("SMS gateway", resp.status, await resp.text());
+    }
+}
+
+/** User number first, then SMS_TO. */
+export const smsNotifier: Notifier = {
+    name: "sms",
+    isConfigured: () => Boolean(env.sms),
+    recipient: (target) => target?.sms?.trim() || env.sms?.to?.trim() || null,
+    send: (to, message) => sendSms(to, message.text)
+};
@@ -0,0 +1,107 @@
+// src/notifiers/telegram.ts
+import { env } from "../config/env";
+import { fetchWithTimeout, statusError } from "./http";
+import type { InlineButton, Notifier } from "./types";
+
+export type TelegramExtras = {
+    /** MarkdownV2 body; `text` is sent instead if Telegram rejects it */
+    markdown?: string;
+    buttons?: InlineButton[][];
+};
+
+async function callTelegram(
+    method: string,
+    body: Record<string, unknown>,
+    timeoutMs?: number
+): Promise<Response> {
+    return fetchWithTimeout(
+        `Telegram ${method}`,
+        `${env.telegram!.apiBase}/bot${env.telegram!.botToken}/${method}`,
+        {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body)
+        },
+        timeoutMs
+    );
+}
+
+/**
+ * Call a Bot API method and return its `result`; throws on any failure.
+ * `timeoutMs` overrides NOTIFY_SEND_TIMEOUT_SECONDS (long polling).
+ */
+export async function telegramApi<T>(
+    method: string,
+    body: Record<string, unknown> = {},
+    timeoutMs?: number
+): Promise<T> {
+    if (!env.telegram) {
+        throw new Error("Telegram is not configured");
+    }
+
+    const resp = await callTelegram(method, body, timeoutMs);
+    const json = (await resp.json().catch(() => null)) as { ok?: boolean; result?: T; description?: string } | null;
+    if (!resp.ok || !json?.ok) {
+        throw new Error(`Telegram ${method} failed: ${resp.status} ${json?.description ?? ""}`.trim());
+    }
+    return json.result as T;
+}
+
+/**
+ * Callback buttons only work while the bot is receiving updates; otherwise
+ * fall back to the button's link, and drop buttons that have neither.
+ */
+function inlineKeyboard(rows: InlineButton[][]) {
+    const botListening = Boolean(env.telegram?.updates);
+    return rows
+        .map((row) =>
+            row
+                .map((b) =>
+                    botListening && b.callback_data
+                        ? { text: b.text, callback_data: b.callback_data }
+                        : b.url
+                          ? { text: b.text, url: b.url }
+                          : null
+                )
+                .filter((b) => b !== null)
+        )
+        .filter((row) => row.length > 0);
+}
+
+export async function sendTelegram(text: string, chatId: string, extras: TelegramExtras = {}) {
+    if (!env.telegram) {
+        throw new Error("Telegram is not configured");
+    }
+
+    const keyboard = inlineKeyboard(extras.buttons ?? []);
+    const replyMarkup = keyboard.length
+        ? { reply_markup: { inline_keyboard: keyboard } }
+        : {};
+
+    let resp = extras.markdown
+        ? await callTelegram("sendMessage", { chat_id: chatId, text: extras.markdown, parse_mode: "MarkdownV2", ...replyMarkup })
+        : await callTelegram("sendMessage", { chat_id: chatId, text, ...replyMarkup });
+
+    // A formatting mistake should cost the formatting, not the alert.
+    if (resp.status === 400 && extras.markdown) {
+        console.warn(`[telegram] MarkdownV2 rejected (${await resp.text()}), resending as plain text`);
+        resp = await callTelegram("sendMessage", { chat_id: chatId, text, ...replyMarkup });
+    }
+
+    if (!resp.ok) {
+        throw statusError("Telegram sendMessage", resp.status, await resp.text());
+    }
+}
+
+/** User chat_id first, then the default TELEGRAM_CHAT_ID. */
+export const telegramNotifier: Notifier = {
+    name: "telegram",
+    isConfigured: () => Boolean(env.telegram),
+    recipient: (target) =>
+        target?.telegram_chat_id?.trim() || env.telegram?.chatId?.trim() || null,
+    send: (chatId, message) =>
+        sendTelegram(message.text, chatId, {
+            markdown: message.markdown,
+            buttons: message.buttons
+        })
+};
@@ -0,0 +1,68 @@
+// src/notifiers/types.ts
+
+/** Daily window (HH:MM, in `timezone` or NOTIFY_TIMEZONE) with no non-urgent alerts. */
+export type QuietHours = {
+    start: string;
+    end: string;
+    timezone?: string;
+};
+
+export type NotifyTarget = {
+    email?: string;
+    sms?: string;
+    telegram_chat_id?: string;
+    webhook_url?: string;
+    quiet_hours?: QuietHours;
+};
+
+export type Priority = "info" | "warn" | "urgent";
+
+export type ChannelName = "telegram" | "email" | "sms" | "webhook";
+
+/**
+ * Inline button. `callback_data` is used when the Telegram bot is receiving
+ * updates (see telegramBot.ts), otherwise `url`; a button with neither usable
+ * is dropped.
+ */
+export type InlineButton = {
+    text: string;
+    url?: string;
+    callback_data?: string;
+};
+
+export type Attachment = {
+    filename: string;
+    content: string;
+    content_type: string;
+};
+
+/**
+ * `text` is the plain-text body every channel can send; the rest are richer
+ * renderings a channel uses when it supports them (see templates.ts).
+ */
+export type OutgoingMessage = {
+    text: string;
+    priority: Priority;
+    /** event type the message was rendered from */
+    event?: string;
+    subject?: string;
+    html?: string;
+    /** Telegram MarkdownV2 body */
+    markdown?: string;
+    /** rows of buttons (Telegram inline keyboard) */
+    buttons?: InlineButton[][];
+    attachments?: Attachment[];
+    /** a quiet-hours digest: the held messages it combines, oldest first */
+    digest?: OutgoingMessage[];
+};
+
+/**
+ * One delivery channel. `recipient` resolves who to send to for a target,
+ * falling back to the channel's configured default; null means nobody.
+ */
+export type Notifier = {
+    name: ChannelName;
+    isConfigured(): boolean;
+    recipient(target: NotifyTarget | undefined): string | null;
+    send(recipient: string, message: OutgoingMessage): Promise<void>;
+};
@@ -0,0 +1,75 @@
+// src/notifiers/webhook.ts
+import { createHmac } from "crypto";
+import { env } from "../config/env";
+import { DeliveryError, fetchWithTimeout, statusError } from "./http";
+import type { Notifier, OutgoingMessage } from "./types";
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, so receivers can reject replays
+ * as well as forgeries.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+    return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Whether the server may POST to `url`: http(s) only, and the host must be
+ * WEBHOOK_URL's or listed in WEBHOOK_ALLOWED_HOSTS. Targets are set through
+ * the API, so anything else would let callers aim requests at internal hosts.
+ */
+export function isAllowedWebhookUrl(url: string): boolean {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return false;
+    const host = parsed.hostname.toLowerCase();
+    return (env.webhook?.allowedHosts ?? []).some((allowed) =>
+        allowed.startsWith(".") ? host.endsWith(allowed) : host === allowed
+    );
+}
+
+export async function sendWebhook(url: string, message: OutgoingMessage) {
+    if (!env.webhook) {
+        throw new Error("Webhook is not configured");
+    }
+    if (!isAllowedWebhookUrl(url)) {
+        throw new DeliveryError(`Webhook host is not allowed (see WEBHOOK_ALLOWED_HOSTS): ${url}`, false);
+    }
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({
+        text: message.text,
+        priority: message.priority,
+        event: message.event ?? null,
+        ...(message.digest
+            ? { digest: message.digest.map((m) => ({ text: m.text, priority: m.priority, event: m.event ?? null })) }
+            : {}),
+        sent_at: new Date().toISOString()
+    });
+
+    const resp = await fetchWithTimeout("Webhook", url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "X-Booker-Timestamp": timestamp,
+            "X-Booker-Signature": `sha256=${signWebhook(env.webhook.secret, timestamp, body)}`
+        },
+        body
+    });
+
+    if (!resp.ok) {
+        throw statusError("Webhook", resp.status, await resp.text());
+    }
+}
+
+/** Target webhook_url first, then WEBHOOK_URL. */
+export const webhookNotifier: Notifier = {
+    name: "webhook",
+    isConfigured: () => Boolean(env.webhook),
+    recipient: (target) =>
+        target?.webhook_url?.trim() || env.webhook?.url?.trim() || null,
+    send: (url, message) => sendWebhook(url, message)
+};
@@ -1,91 +1,257 @@
 // src/notify.ts
-import { env } from "./config/env";
+import {
+    getNotifier,
+    listNotifiers,
+    type ChannelName,
+    type NotifyTarget,
+    type OutgoingMessage,
+    type Priority
+} from "./notifiers";
+import {
+    admit,
+    inQuietHours,
+    loadDigest,
+    queueForDigest,
+    recordDelivery,
+    saveDigest,
+    withRetries,
+    type DigestEntry,
+    type DigestItem,
+    type Suppression
+} from "./notifyPolicy";
+import { escapeMarkdownV2, renderEvent, type NotifyEvent } from "./templates";
 
-export type NotifyTarget = {
-    email?: string;
-    sms?: string; // reserved for future use
-    telegram_chat_id?: string;
-};
+export type { ChannelName, NotifyTarget, Priority } from "./notifiers";
+
+export type { NotifyEvent } from "./templates";
 
+/** Either plain `text` or an `event` rendered through its template (or both: text wins). */
 export type NotifyPayload = {
     notify?: NotifyTarget;
-    text: string;
-    priority?: "info" | "warn" | "urgent";
+    text?: string;
+    event?: NotifyEvent;
+    /** defaults to the event template's priority, else "info" */
+    priority?: Priority;
+    /** fan out to exactly these channels; omitted = first usable channel */
+    channels?: ChannelName[];
+};
+
+export type ChannelResult = {
+    channel: ChannelName;
+    ok: boolean;
+    recipient?: string;
+    error?: string;
+    attempts?: number;
+    /** not sent because of the delivery policy */
+    suppressed?: Suppression;
+};
+
+export type NotifyResult = {
+    ok: boolean;
+    results: ChannelResult[];
+    /** held for the quiet-hours digest instead of being sent now */
+    deferred?: boolean;
 };
 
-async function sendTelegram(text: string, chatId: string) {
-    if (!env.telegram) {
-        throw new Error("Telegram is not configured");
+const DIGEST_TICK_MS = 60_000;
+/** Button rows a digest carries over from its messages, oldest first. */
+const MAX_DIGEST_BUTTON_ROWS = 20;
+
+let flushing = false;
+
+async function sendVia(
+    channel: ChannelName,
+    target: NotifyTarget | undefined,
+    message: OutgoingMessage
+): Promise<ChannelResult> {
+    const notifier = getNotifier(channel);
+    if (!notifier) {
+        return { channel, ok: false, error: "Unknown channel" };
+    }
+    if (!notifier.isConfigured()) {
+        return { channel, ok: false, error: "Channel is not configured" };
+    }
+
+    const recipient = notifier.recipient(target);
+    if (!recipient) {
+        return { channel, ok: false, error: "No recipient for this channel" };
+    }
+
+    const suppressed = admit(channel, recipient, message.text, message.priority);
+    if (suppressed === "duplicate") {
+        // Already delivered a moment ago; nothing was lost.
+        return { channel, ok: true, recipient, suppressed };
+    }
+    if (suppressed === "rate_limited") {
+        return { channel, ok: false, recipient, suppressed, error: "Rate limit reached" };
+    }
+
+    try {
+        const attempts = await withRetries(channel, () => notifier.send(recipient, message));
+        recordDelivery(channel, recipient, message.text);
+        return { channel, ok: true, recipient, attempts };
+    } catch (err: any) {
+        console.error(`[notify] ${channel} failed:`, err?.message || err);
+        return { channel, ok: false, recipient, error: String(err?.message || err) };
+    }
+}
+
+/** "telegram: …; email: …" for logs and error messages. */
+export function describeFailures(result: NotifyResult): string {
+    return result.results
+        .filter((r) => !r.ok)
+        .map((r) => `${r.channel}: ${r.error}`)
+        .join("; ");
+}
+
+/**
+ * Urgent messages that nobody received move on to the remaining usable
+ * channels, one at a time, until one of them delivers.
+ */
+async function escalate(
+    target: NotifyTarget | undefined,
+    message: OutgoingMessage,
+    tried: ChannelName[]
+): Promise<ChannelResult[]> {
+    const results: ChannelResult[] = [];
+    for (const notifier of listNotifiers()) {
+        if (tried.includes(notifier.name)) continue;
+        if (!notifier.isConfigured() || !notifier.recipient(target)) continue;
+
+        console.warn(`[notify] Escalating urgent message to ${notifier.name}`);
+        const result = await sendVia(notifier.name, target, message);
+        results.push(result);
+        if (result.ok) break;
     }
+    return results;
+}
+
+async function deliver(
+    target: NotifyTarget | undefined,
+    message: OutgoingMessage,
+    channels: ChannelName[] | undefined
+): Promise<NotifyResult> {
+    const urgent = message.priority === "urgent";
 
-    const resp = await fetch(
-        `https://api.telegram.org/bot${env.telegram.botToken}/sendMessage`,
-        {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ chat_id: chatId, text })
+    if (channels && channels.length > 0) {
+        const requested = Array.from(new Set(channels));
+        const results = await Promise.all(
+            requested.map((c) => sendVia(c, target, message))
+        );
+        if (urgent && !results.some((r) => r.ok)) {
+            const escalated = await escalate(target, message, requested);
+            const rescued = escalated.some((r) => r.ok);
+            return { ok: rescued, results: [...results, ...escalated] };
         }
+        return { ok: results.every((r) => r.ok), results };
+    }
+
+    const usable = listNotifiers().find(
+        (n) => n.isConfigured() && n.recipient(target)
     );
+    if (!usable) {
+        // Nothing will actually be sent; this just reports why per channel.
+        const results = await Promise.all(
+            listNotifiers().map((n) => sendVia(n.name, target, message))
+        );
+        return { ok: false, results };
+    }
 
-    if (!resp.ok) {
-        const body = await resp.text();
-        throw new Error(`Telegram sendMessage failed: ${resp.status} ${body}`);
+    const result = await sendVia(usable.name, target, message);
+    if (urgent && !result.ok) {
+        const escalated = await escalate(target, message, [usable.name]);
+        return { ok: escalated.some((r) => r.ok), results: [result, ...escalated] };
     }
+    return { ok: result.ok, results: [result] };
 }
 
-async function sendEmail(to: string, text: string) {
-    if (!env.smtp) {
-        throw new Error("SMTP is not configured");
+/**
+ * High-level notify entrypoint used by /notify and the watch scheduler.
+ * - With `channels`: fan out to every listed channel at once (ok only if all
+ *   of them delivered)
+ * - Without: the first registered channel that is configured and has a
+ *   recipient (Telegram, then email, SMS, webhook)
+ * Delivery policy (see notifyPolicy.ts): each send is retried with backoff,
+ * repeats and over-limit sends to one recipient are suppressed, anything but
+ * `urgent` is held for a digest during quiet hours, and an `urgent` message
+ * that fails everywhere it was sent escalates to the next channel.
+ * Never throws for delivery problems; each channel reports its own outcome.
+ */
+export async function notify(payload: NotifyPayload): Promise<NotifyResult> {
+    const { notify: target, channels } = payload;
+    const rendered = payload.event ? renderEvent(payload.event) : null;
+    const message: OutgoingMessage = {
+        ...rendered,
+        text: payload.text ?? rendered?.text ?? "",
+        priority: payload.priority ?? rendered?.priority ?? "info"
+    };
+
+    if (message.priority !== "urgent" && inQuietHours(target)) {
+        console.log(`[notify] Quiet hours: holding ${message.priority} message for the digest`);
+        queueForDigest(target, channels, message.text, message.priority, payload.event);
+        return { ok: true, results: [], deferred: true };
     }
 
-    const { host, port, user, pass, from } = env.smtp;
-    const nodemailer = await import("nodemailer");
-    const transporter = nodemailer.createTransport({
-        host,
-        port,
-        secure: port === 465,
-        auth: { user, pass }
-    });
-
-    await transporter.sendMail({
-        from,
-        to,
-        subject: "UBC Tennis Booker",
-        text
-    });
+    return deliver(target, message, channels);
+}
+
+// --------------------------------- DIGEST -----------------------------------
+
+/** A held message as notify() would have sent it. */
+function heldMessage(item: DigestItem): OutgoingMessage {
+    const rendered = item.event ? renderEvent(item.event) : null;
+    return { ...rendered, text: item.text, priority: item.priority };
 }
 
 /**
- * High-level notify entrypoint used by /notify route.
- * - Prefers Telegram (user chat_id, then default env chat ID)
- * - Falls back to email (user email, then EMAIL_TO/EMAIL_FROM)
+ * One message for everything held: the texts (and MarkdownV2 bodies) in
+ * order, the messages' buttons and attachments, and the messages themselves
+ * for the webhook.
  */
-export async function notify(payload: NotifyPayload) {
-    const { notify, text } = payload;
-
-    // 1) Telegram path
-    if (env.telegram) {
-        const userChat = notify?.telegram_chat_id?.trim();
-        const defaultChat = env.telegram.chatId?.trim();
-        const chatId = userChat || defaultChat;
-
-        if (chatId) {
-            await sendTelegram(text, chatId);
-            return { via: "telegram" as const, chat_id: chatId };
-        }
-    }
+function digestMessage(entry: DigestEntry): OutgoingMessage {
+    const parts = entry.items.map(heldMessage);
+    const header = `🌙 ${entry.items.length} notification(s) held during quiet hours:`;
+    const markdown = parts.map((p) => p.markdown ?? escapeMarkdownV2(p.text));
+    const buttons = parts.flatMap((p) => p.buttons ?? []).slice(0, MAX_DIGEST_BUTTON_ROWS);
+    const attachments = parts.flatMap((p) => p.attachments ?? []);
+    return {
+        text: [header, ...parts.map((p) => p.text)].join("\n\n"),
+        priority: entry.items.some((i) => i.priority === "warn") ? "warn" : "info",
+        markdown: [escapeMarkdownV2(header), ...markdown].join("\n\n"),
+        buttons: buttons.length > 0 ? buttons : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        digest: parts
+    };
+}
+
+/** Send every held digest whose target is out of quiet hours. */
+export async function flushDigests(): Promise<void> {
+    if (flushing) return;
+    flushing = true;
+
+    try {
+        const entries = loadDigest();
+        for (const entry of [...entries]) {
+            if (entry.items.length === 0 || inQuietHours(entry.notify)) continue;
 
-    // 2) Email fallback path
-    if (env.smtp) {
-        const to = (notify?.email || env.smtp.to || "").trim();
-        if (to) {
-            await sendEmail(to, text);
-            return { via: "email" as const, to };
+            const result = await deliver(entry.notify, digestMessage(entry), entry.channels);
+            if (!result.ok) {
+                console.error(`[notify] Digest delivery failed, keeping it: ${describeFailures(result)}`);
+                continue;
+            }
+            entries.splice(entries.indexOf(entry), 1);
+            saveDigest();
+            console.log(`[notify] Digest with ${entry.items.length} message(s) delivered`);
         }
+    } finally {
+        flushing = false;
     }
+}
 
-    // 3) Nothing available
-    throw new Error(
-        "No notifier configured or no recipient provided (Telegram and SMTP both unavailable)."
-    );
+export function startDigestScheduler(): void {
+    setInterval(() => {
+        flushDigests().catch((err) =>
+            console.error("[notify] Digest tick failed:", err?.message || err)
+        );
+    }, DIGEST_TICK_MS);
 }
@@ -0,0 +1,151 @@
+// src/notifyPolicy.ts
+import { env } from "./config/env";
+import { readJson, writeJson } from "./store";
+import { minutesOfDay } from "./slots";
+import { inDailyWindow, zonedParts } from "./time";
+import { DeliveryError, type ChannelName, type NotifyTarget, type Priority, type QuietHours } from "./notifiers";
+import type { NotifyEvent } from "./templates";
+
+export type Suppression = "duplicate" | "rate_limited";
+
+export type DigestItem = {
+    text: string;
+    priority: Priority;
+    /** rendered again when the digest is sent, for its buttons and richer bodies */
+    event?: NotifyEvent;
+    queued_at: string;
+};
+
+/** Messages held back for one target (and channel list) during quiet hours. */
+export type DigestEntry = {
+    key: string;
+    notify?: NotifyTarget;
+    channels?: ChannelName[];
+    items: DigestItem[];
+};
+
+const DIGEST_FILE = "notify-digest.json";
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// -------------------------------- RETRIES -----------------------------------
+
+/**
+ * Run `send` up to NOTIFY_RETRY_ATTEMPTS times with exponential backoff
+ * (base, 2×base, 4×base, …). Resolves with the number of attempts used;
+ * rejects with the last error once attempts run out, or at once with a
+ * DeliveryError that is not retryable (a rejected request, a blocked host).
+ */
+export async function withRetries(
+    label: string,
+    send: () => Promise<void>
+): Promise<number> {
+    const { retryAttempts, retryBaseMs } = env.notifyPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await send();
+            return attempt;
+        } catch (err: any) {
+            if (attempt >= retryAttempts || (err instanceof DeliveryError && !err.retryable)) throw err;
+            const delay = retryBaseMs * 2 ** (attempt - 1);
+            console.warn(
+                `[notify] ${label} attempt ${attempt}/${retryAttempts} failed (${err?.message || err}), retrying in ${delay}ms`
+            );
+            await sleep(delay);
+        }
+    }
+}
+
+// ------------------------- RATE LIMIT + DEDUP -------------------------------
+
+type Delivery = { at: number; text: string };
+
+// Recent deliveries per "<channel>:<recipient>"; in memory only.
+const recent = new Map<string, Delivery[]>();
+
+function recentFor(key: string, now: number): Delivery[] {
+    const keepMs = Math.max(env.notifyPolicy.rateWindowMs, env.notifyPolicy.dedupMs);
+    const list = (recent.get(key) ?? []).filter((d) => now - d.at < keepMs);
+    recent.set(key, list);
+    return list;
+}
+
+/**
+ * Why a message must not go to this recipient right now, or null. Identical
+ * texts inside NOTIFY_DEDUP_MINUTES are dropped for every priority; the rate
+ * limit does not apply to urgent messages.
+ */
+export function admit(
+    channel: ChannelName,
+    recipient: string,
+    text: string,
+    priority: Priority
+): Suppression | null {
+    const now = Date.now();
+    const list = recentFor(`${channel}:${recipient}`, now);
+    const { dedupMs, rateWindowMs, rateLimit } = env.notifyPolicy;
+
+    if (list.some((d) => d.text === text && now - d.at < dedupMs)) {
+        return "duplicate";
+    }
+    if (priority !== "urgent") {
+        const inWindow = list.filter((d) => now - d.at < rateWindowMs).length;
+        if (inWindow >= rateLimit) return "rate_limited";
+    }
+    return null;
+}
+
+export function recordDelivery(channel: ChannelName, recipient: string, text: string): void {
+    const now = Date.now();
+    recentFor(`${channel}:${recipient}`, now).push({ at: now, text });
+}
+
+// ------------------------------ QUIET HOURS ---------------------------------
+
+export function quietHoursFor(target: NotifyTarget | undefined): QuietHours | null {
+    return target?.quiet_hours ?? env.notifyPolicy.quietHours;
+}
+
+export function inQuietHours(target: NotifyTarget | undefined, at = new Date()): boolean {
+    const quiet = quietHoursFor(target);
+    if (!quiet) return false;
+
+    const { minutes } = zonedParts(at, quiet.timezone ?? env.notifyPolicy.timeZone);
+    return inDailyWindow(minutes, minutesOfDay(quiet.start), minutesOfDay(quiet.end));
+}
+
+// --------------------------------- DIGEST -----------------------------------
+
+let digest: DigestEntry[] | null = null;
+
+export function loadDigest(): DigestEntry[] {
+    if (!digest) digest = readJson<DigestEntry[]>(DIGEST_FILE, []);
+    return digest;
+}
+
+export function saveDigest(): void {
+    writeJson(DIGEST_FILE, loadDigest());
+}
+
+/** Hold a message until the target's quiet hours end. Repeats are folded. */
+export function queueForDigest(
+    target: NotifyTarget | undefined,
+    channels: ChannelName[] | undefined,
+    text: string,
+    priority: Priority,
+    event?: NotifyEvent
+): void {
+    const key = JSON.stringify({ notify: target ?? null, channels: channels ?? null });
+    const entries = loadDigest();
+
+    let entry = entries.find((e) => e.key === key);
+    if (!entry) {
+        entry = { key, notify: target, channels, items: [] };
+        entries.push(entry);
+    }
+    if (!entry.items.some((i) => i.text === text)) {
+        entry.items.push({ text, priority, event, queued_at: new Date().toISOString() });
+    }
+    saveDigest();
+}
@@ -0,0 +1,231 @@
+// src/openapi.ts
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod/v4";
+import { ErrorSchema, schemaRegistry } from "./schemas";
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Who may call a route: anyone, any user's Bearer token, an admin's token,
+ * Telegram (secret header on the bot webhook), or a calendar feed secret in
+ * the `token` query parameter.
+ */
+export type RouteAuth = "none" | "bearer" | "admin" | "telegram" | "calendar";
+
+export type RouteResponse = {
+    description: string;
+    /** must be registered in schemaRegistry */
+    schema?: z.ZodType;
+    /** defaults to application/json */
+    content_type?: string;
+};
+
+export type RouteSpec = {
+    method: "get" | "post" | "put" | "patch" | "delete";
+    /** Express syntax, e.g. /watches/:id */
+    path: string;
+    operationId: string;
+    summary: string;
+    description?: string;
+    tag: string;
+    auth: RouteAuth;
+    body?: z.ZodType;
+    /** object schema; each property becomes a query parameter */
+    query?: z.ZodObject;
+    responses: Record<number, RouteResponse>;
+};
+
+const routes: RouteSpec[] = [];
+
+export function registerRoute(spec: RouteSpec): void {
+    routes.push(spec);
+}
+
+// ------------------------------- VALIDATION ---------------------------------
+
+/**
+ * Parse the body and query against the route's schemas. The parsed body
+ * (defaults applied) replaces req.body; the parsed query, which no longer
+ * fits Express's ParsedQs type, lands in res.locals.query.
+ */
+export function validateRequest(spec: RouteSpec) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (spec.body) {
+            const parsed = spec.body.safeParse(req.body);
+            if (!parsed.success) {
+                return res
+                    .status(400)
+                    .json({ error: "Invalid request", detail: z.prettifyError(parsed.error) });
+            }
+            req.body = parsed.data;
+        }
+        if (spec.query) {
+            const parsed = spec.query.safeParse(req.query);
+            if (!parsed.success) {
+                return res
+                    .status(400)
+                    .json({ error: "Invalid request", detail: z.prettifyError(parsed.error) });
+            }
+            res.locals.query = parsed.data;
+        }
+        next();
+    };
+}
+
+// -------------------------------- DOCUMENT ----------------------------------
+
+const COMPONENT_PREFIX = "#/components/schemas/";
+
+let components: Record<string, JsonSchema> | null = null;
+
+/** Every registered schema as JSON Schema 2020-12, cross-referenced by $ref. */
+function componentSchemas(): Record<string, JsonSchema> {
+    if (!components) {
+        const { schemas } = z.toJSONSchema(schemaRegistry, {
+            target: "draft-2020-12",
+            // what callers send: fields with defaults are optional
+            io: "input",
+            uri: (id) => `${COMPONENT_PREFIX}${id}`,
+            unrepresentable: "any"
+        });
+        components = {};
+        for (const [id, schema] of Object.entries(schemas)) {
+            const { $schema: _dialect, $id: _id, ...rest } = schema as JsonSchema;
+            components[id] = rest;
+        }
+    }
+    return components;
+}
+
+function ref(schema: z.ZodType): JsonSchema {
+    const meta = schemaRegistry.get(schema);
+    if (!meta) throw new Error("Schema used by a route is not in schemaRegistry");
+    return { $ref: `${COMPONENT_PREFIX}${meta.id}` };
+}
+
+const ERROR_RESPONSES: Record<RouteAuth, Record<number, RouteResponse>> = {
+    none: {},
+    bearer: { 401: { description: "Missing or unknown token", schema: ErrorSchema } },
+    admin: {
+        401: { description: "Missing or unknown token", schema: ErrorSchema },
+        403: { description: "Caller is not an admin", schema: ErrorSchema }
+    },
+    telegram: { 401: { description: "Wrong or missing secret header", schema: ErrorSchema } },
+    calendar: { 401: { description: "Missing or unknown calendar token", schema: ErrorSchema } }
+};
+
+const SECURITY: Record<RouteAuth, JsonSchema[]> = {
+    none: [],
+    bearer: [{ bearerAuth: [] }],
+    admin: [{ bearerAuth: [] }],
+    telegram: [{ telegramSecret: [] }],
+    calendar: [{ calendarToken: [] }]
+};
+
+function operation(spec: RouteSpec): JsonSchema {
+    const op: JsonSchema = {
+        operationId: spec.operationId,
+        summary: spec.summary,
+        tags: [spec.tag],
+        security: SECURITY[spec.auth]
+    };
+    if (spec.description) op.description = spec.description;
+
+    const parameters: JsonSchema[] = [];
+    for (const name of spec.path.match(/:(\w+)/g) ?? []) {
+        parameters.push({
+            name: name.slice(1),
+            in: "path",
+            required: true,
+            schema: { type: "string" }
+        });
+    }
+    if (spec.query) {
+        const query = componentSchemas()[schemaRegistry.get(spec.query)!.id];
+        const required: string[] = query.required ?? [];
+        for (const [name, schema] of Object.entries<JsonSchema>(query.properties ?? {})) {
+            const { description, ...rest } = schema;
+            parameters.push({
+                name,
+                in: "query",
+                required: required.includes(name),
+                ...(description ? { description } : {}),
+                schema: rest
+            });
+        }
+    }
+    if (parameters.length > 0) op.parameters = parameters;
+
+    if (spec.body) {
+        op.requestBody = {
+            required: true,
+            content: { "application/json": { schema: ref(spec.body) } }
+        };
+    }
+
+    const responses: Record<number, RouteResponse> = {
+        ...ERROR_RESPONSES[spec.auth],
+        ...spec.responses
+    };
+    if (spec.body || spec.query) {
+        responses[400] ??= { description: "Request failed validation", schema: ErrorSchema };
+    }
+    op.responses = {};
+    for (const [status, response] of Object.entries(responses)) {
+        op.responses[status] = {
+            description: response.description,
+            ...(response.schema || response.content_type
+                ? {
+                      content: {
+                          [response.content_type ?? "application/json"]: response.schema
+                              ? { schema: ref(response.schema) }
+                              : {}
+                      }
+                  }
+                : {})
+        };
+    }
+    return op;
+}
+
+/** The OpenAPI 3.1 document for every registered route. */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+    for (const spec of routes) {
+        const path = spec.path.replace(/:(\w+)/g, "{$1}");
+        paths[path] = { ...paths[path], [spec.method]: operation(spec) };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "UBC Tennis Booker API",
+            version: "1.0.0",
+            description: "Scan UBC tennis court availability, book slots, run watches and send notifications."
+        },
+        servers: [{ url: serverUrl }],
+        paths,
+        components: {
+            schemas: componentSchemas(),
+            securitySchemes: {
+                bearerAuth: {
+                    type: "http",
+                    scheme: "bearer",
+                    description: "BOOKER_GPT_TOKEN or a per-user token from /admin/users"
+                },
+                telegramSecret: {
+                    type: "apiKey",
+                    in: "header",
+                    name: "X-Telegram-Bot-Api-Secret-Token",
+                    description: "TELEGRAM_WEBHOOK_SECRET"
+                },
+                calendarToken: {
+                    type: "apiKey",
+                    in: "query",
+                    name: "token",
+                    description: "Feed secret from POST /calendar/token"
+                }
+            }
+        }
+    };
+}
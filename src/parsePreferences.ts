@@ -0,0 +1,673 @@
+// src/parsePreferences.ts
+//
+// Rule-based reading of phrases like "next Tue or Thu after 6pm, 90 min,
+// indoor courts 3–5" into Preferences. No network and no model: the same
+// text and clock always give the same answer. Relative dates resolve against
+// today in America/Vancouver.
+import { z } from "zod/v4";
+import type { Preferences } from "./ubc";
+import { PreferencesSchema } from "./schemas";
+import { addDaysIso, facilityToday } from "./time";
+
+export type ParsedPreferences = {
+    preferences: Preferences;
+    /** normalized reading, e.g. "Tue 2026-10-20, from 18:00, at least 90 min" */
+    interpretation: string;
+    /** guesses the parser had to make; each says what it picked */
+    ambiguities: string[];
+    /** words that matched no rule and were ignored */
+    unrecognized: string[];
+    /** "every 10m" (for watches) */
+    interval_minutes?: number;
+};
+
+type ParseState = {
+    todayIso: string;
+    dates: string[];
+    courts: number[];
+    startMinutes?: number;
+    endMinutes?: number;
+    daysAhead?: number;
+    minMinutes?: number;
+    indoor?: boolean;
+    courtsNeeded?: number;
+    interval?: number;
+    ambiguities: string[];
+    unrecognized: string[];
+};
+
+type Rule = {
+    pattern: RegExp;
+    apply: (match: RegExpExecArray, state: ParseState) => void;
+};
+
+// ------------------------------- CALENDAR -----------------------------------
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const WEEKDAY = "mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?";
+const MONTH =
+    "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const MONTH_PREFIXES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function weekdayOf(dateIso: string): number {
+    return new Date(`${dateIso}T00:00:00Z`).getUTCDay();
+}
+
+function weekdayNumber(word: string): number {
+    return ["sun", "mon", "tue", "wed", "thu", "fri", "sat"].indexOf(word.slice(0, 3));
+}
+
+/** The next date on `weekday`, today included unless `afterToday`. */
+function upcoming(todayIso: string, weekday: number, afterToday = false): string {
+    const offset = (weekday - weekdayOf(todayIso) + 7) % 7;
+    return addDaysIso(todayIso, offset === 0 && afterToday ? 7 : offset);
+}
+
+function dayLabel(dateIso: string): string {
+    return `${WEEKDAY_NAMES[weekdayOf(dateIso)]} ${dateIso}`;
+}
+
+/** YYYY-MM-DD for a calendar date, or null if it does not exist. */
+function isoDate(year: number, month: number, day: number): string | null {
+    const d = new Date(Date.UTC(year, month - 1, day));
+    if (d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+    return d.toISOString().slice(0, 10);
+}
+
+/** A month/day without a year: this year, or next year once it has passed. */
+function nextMonthDay(state: ParseState, month: number, day: number, raw: string): void {
+    const year = Number(state.todayIso.slice(0, 4));
+    const thisYear = isoDate(year, month, day);
+    if (!thisYear) throw new Error(`"${raw}" is not a date`);
+    state.dates.push(thisYear >= state.todayIso ? thisYear : isoDate(year + 1, month, day)!);
+}
+
+// --------------------------------- CLOCK ------------------------------------
+
+type Clock = { hour: number; minute: number; meridiem?: "am" | "pm"; raw: string };
+
+const CLOCK = "noon|midnight|\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?";
+
+function readClock(raw: string): Clock {
+    if (raw === "noon") return { hour: 12, minute: 0, meridiem: "pm", raw };
+    if (raw === "midnight") return { hour: 12, minute: 0, meridiem: "am", raw };
+    const m = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/)!;
+    const clock: Clock = {
+        hour: Number(m[1]),
+        minute: m[2] ? Number(m[2]) : 0,
+        meridiem: m[3] as Clock["meridiem"],
+        raw
+    };
+    if (clock.minute > 59 || clock.hour > 24 || (clock.meridiem && (clock.hour < 1 || clock.hour > 12))) {
+        throw new Error(`"${raw}" is not a time`);
+    }
+    return clock;
+}
+
+/** Minutes since midnight; without a meridiem the hour is taken as 24-hour. */
+function clockMinutes(clock: Clock, meridiem = clock.meridiem): number {
+    const hour = meridiem ? (clock.hour % 12) + (meridiem === "pm" ? 12 : 0) : clock.hour;
+    return hour * 60 + clock.minute;
+}
+
+function formatMinutes(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    return `${String(h).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/** Whether "6" could just as well mean 06:00 or 18:00. */
+function isBareHour(clock: Clock): boolean {
+    return !clock.meridiem && clock.hour >= 1 && clock.hour <= 12 && !clock.raw.includes(":");
+}
+
+/**
+ * A lone time. Bare hours below 7, or inside an afternoon/evening window
+ * ("tonight around 8"), are read as pm; others are taken as written. Either
+ * way it is a guess.
+ */
+function singleTime(clock: Clock, state: ParseState): number {
+    if (!isBareHour(clock)) return clockMinutes(clock);
+    const pm = clock.hour < 7 || (state.startMinutes ?? 0) >= 12 * 60;
+    const minutes = clockMinutes(clock, pm ? "pm" : undefined);
+    state.ambiguities.push(`"${clock.raw}" read as ${formatMinutes(minutes)}; add am/pm to be sure`);
+    return minutes;
+}
+
+/** "6-9pm", "11-1pm", "18-21", "6pm to 9": the known meridiem carries over. */
+function timeRange(from: Clock, to: Clock, state: ParseState): [number, number] {
+    let end: number;
+    let start: number;
+    if (from.meridiem || to.meridiem) {
+        const shared = to.meridiem ?? from.meridiem;
+        end = to.meridiem || !isBareHour(to) ? clockMinutes(to) : clockMinutes(to, shared);
+        start = from.meridiem || !isBareHour(from) ? clockMinutes(from) : clockMinutes(from, shared);
+        // "11-1pm" is 11am–1pm
+        if (!from.meridiem && isBareHour(from) && start > end) {
+            start = clockMinutes(from, shared === "pm" ? "am" : "pm");
+        }
+    } else if (isBareHour(from) && isBareHour(to) && from.hour < 7) {
+        start = clockMinutes(from, "pm");
+        end = clockMinutes(to, "pm");
+        state.ambiguities.push(
+            `"${from.raw}-${to.raw}" read as ${formatMinutes(start)}–${formatMinutes(end)}; add am/pm to be sure`
+        );
+    } else {
+        start = clockMinutes(from);
+        end = clockMinutes(to);
+    }
+    // "until midnight"
+    if (end === 0) end = 24 * 60;
+    return [start, end];
+}
+
+function setStart(state: ParseState, minutes: number): void {
+    if (state.startMinutes !== undefined && state.startMinutes !== minutes) {
+        state.ambiguities.push(
+            `Several start times given; using ${formatMinutes(minutes)} instead of ${formatMinutes(state.startMinutes)}`
+        );
+    }
+    state.startMinutes = minutes;
+}
+
+function setEnd(state: ParseState, minutes: number): void {
+    if (minutes === 0) minutes = 24 * 60;
+    if (state.endMinutes !== undefined && state.endMinutes !== minutes) {
+        state.ambiguities.push(
+            `Several end times given; using ${formatMinutes(minutes)} instead of ${formatMinutes(state.endMinutes)}`
+        );
+    }
+    state.endMinutes = minutes;
+}
+
+/**
+ * A start–end window. Narrowing one already given ("evening around 8") is
+ * not a conflict; anything else replaces it with a note.
+ */
+function setWindow(state: ParseState, start: number, end: number): void {
+    const { startMinutes, endMinutes } = state;
+    if (startMinutes !== undefined && endMinutes !== undefined && start >= startMinutes && end <= endMinutes) {
+        state.startMinutes = start;
+        state.endMinutes = end;
+        return;
+    }
+    setStart(state, start);
+    setEnd(state, end);
+}
+
+/**
+ * "at 6:30pm": from the hour the time falls in, with no end of its own, so
+ * a length given alongside ("sat 7pm 90 min") still fits. Inside a window
+ * already given ("tonight around 8") it only moves the start.
+ */
+function setStartAt(state: ParseState, minutes: number, raw: string): void {
+    const hour = Math.floor(minutes / 60) * 60;
+    if (hour !== minutes) {
+        state.ambiguities.push(`"${raw.trim()}" read as from ${formatMinutes(hour)}`);
+    }
+    const { startMinutes, endMinutes } = state;
+    if (startMinutes !== undefined && endMinutes !== undefined && hour >= startMinutes && hour < endMinutes) {
+        state.startMinutes = hour;
+        return;
+    }
+    setStart(state, hour);
+}
+
+const PERIODS: Record<string, [number, number]> = {
+    "early morning": [6, 9],
+    morning: [6, 12],
+    lunch: [11, 14],
+    lunchtime: [11, 14],
+    afternoon: [12, 17],
+    evening: [17, 22],
+    night: [18, 24]
+};
+
+// -------------------------------- DURATION ----------------------------------
+
+const UNIT = "h|hrs?|hours?|m|mins?|minutes?";
+const AT_LEAST = "(?:at\\s+least\\s+|min(?:imum)?\\s+|for\\s+)?";
+
+function durationMinutes(amount: string, unit: string): number {
+    return Math.round(Number(amount) * (unit.startsWith("h") ? 60 : 1));
+}
+
+function setMinMinutes(state: ParseState, minutes: number): void {
+    if (minutes < 30 || minutes > 120) {
+        throw new Error("Minimum length must be between 30m and 2h");
+    }
+    if (state.minMinutes !== undefined && state.minMinutes !== minutes) {
+        state.ambiguities.push(`Several lengths given; using ${minutes} min`);
+    }
+    state.minMinutes = minutes;
+}
+
+// ---------------------------------- RULES -----------------------------------
+
+const NUMBER_WORDS: Record<string, number> = { two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+const MAX_COURT_RANGE = 20;
+
+/** "3-5, 7 and 9" → [3, 4, 5, 7, 9] */
+function courtNumbers(list: string): number[] {
+    const courts: number[] = [];
+    let ranging = false;
+    for (const part of list.match(/\d+|-|to|through|thru/g) ?? []) {
+        if (!/^\d+$/.test(part)) {
+            ranging = courts.length > 0;
+            continue;
+        }
+        const n = Number(part);
+        if (ranging) {
+            const from = courts[courts.length - 1];
+            if (n <= from || n - from > MAX_COURT_RANGE) {
+                throw new Error(`"${list}" is not a valid court range`);
+            }
+            for (let c = from + 1; c <= n; c++) courts.push(c);
+            ranging = false;
+        } else {
+            courts.push(n);
+        }
+    }
+    return courts;
+}
+
+/** "this weekend" (today on a Sunday) or, with `next`, the one after. */
+function weekendDates(todayIso: string, next: boolean): string[] {
+    const today = weekdayOf(todayIso);
+    if (today === 0 && !next) return [todayIso];
+    const saturday = today === 6 && !next ? todayIso : upcoming(todayIso, 6, true);
+    return [saturday, addDaysIso(saturday, 1)];
+}
+
+const RULES: Rule[] = [
+    // --- courts ---
+    {
+        pattern: new RegExp(`(\\d|two|three|four|five|six)\\s+courts?(?:\\s+(?:side by side|together|at once|at the same time))?`),
+        apply: (m, s) => {
+            const n = NUMBER_WORDS[m[1]] ?? Number(m[1]);
+            if (n < 2 || n > 6) throw new Error("Courts side by side must be between 2 and 6");
+            s.courtsNeeded = n;
+        }
+    },
+    {
+        pattern: /(?:courts?|cts?)\s*#?\s*(\d{1,2}(?:\s*(?:-|to|through|thru|,|and|&|or|\/)\s*\d{1,2})*)/,
+        apply: (m, s) => {
+            s.courts.push(...courtNumbers(m[1]));
+        }
+    },
+    // --- watch interval (before durations: "every 10m") ---
+    {
+        pattern: new RegExp(`every\\s+(\\d+(?:\\.\\d+)?)\\s*(${UNIT})`),
+        apply: (m, s) => {
+            const minutes = durationMinutes(m[1], m[2]);
+            if (minutes < 5 || minutes > 1440) {
+                throw new Error("Watch interval must be between 5m and 24h");
+            }
+            s.interval = minutes;
+        }
+    },
+    {
+        pattern: /every\s+hour|hourly/,
+        apply: (_m, s) => {
+            s.interval = 60;
+        }
+    },
+    // --- dates ---
+    {
+        pattern: /(?:the\s+)?day\s+after\s+tomorrow/,
+        apply: (_m, s) => {
+            s.dates.push(addDaysIso(s.todayIso, 2));
+        }
+    },
+    {
+        pattern: /today|tdy/,
+        apply: (_m, s) => {
+            s.dates.push(s.todayIso);
+        }
+    },
+    {
+        pattern: /tonight/,
+        apply: (_m, s) => {
+            s.dates.push(s.todayIso);
+            setWindow(s, PERIODS.evening[0] * 60, 24 * 60);
+        }
+    },
+    {
+        pattern: /tomorrow|tmrw?|tmw/,
+        apply: (_m, s) => {
+            s.dates.push(addDaysIso(s.todayIso, 1));
+        }
+    },
+    {
+        pattern: /(this|next|coming)?\s*weekend/,
+        apply: (m, s) => {
+            const next = m[1] === "next";
+            const dates = weekendDates(s.todayIso, next);
+            if (next) {
+                s.ambiguities.push(
+                    `"next weekend" read as ${dates.map(dayLabel).join(" and ")}; give dates if you meant a later one`
+                );
+            }
+            s.dates.push(...dates);
+        }
+    },
+    {
+        pattern: /(this|next)\s+week/,
+        apply: (m, s) => {
+            // weeks run Monday–Sunday
+            const first = m[1] === "next" ? upcoming(s.todayIso, 1, true) : s.todayIso;
+            const last = m[1] === "next" ? addDaysIso(first, 6) : upcoming(s.todayIso, 0);
+            for (let d = first; d <= last; d = addDaysIso(d, 1)) s.dates.push(d);
+        }
+    },
+    {
+        pattern: /(?:in\s+|over\s+|within\s+)?(?:the\s+)?next\s+(\d{1,2})\s+days/,
+        apply: (m, s) => {
+            const days = Number(m[1]);
+            if (days < 1 || days > 14) throw new Error("Can only look up to 14 days ahead");
+            s.daysAhead = days;
+        }
+    },
+    {
+        pattern: /in\s+(\d{1,2})\s+days?/,
+        apply: (m, s) => {
+            s.dates.push(addDaysIso(s.todayIso, Number(m[1])));
+        }
+    },
+    {
+        pattern: /(\d{4})-(\d{2})-(\d{2})/,
+        apply: (m, s) => {
+            const date = isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+            if (!date) throw new Error(`"${m[0]}" is not a date`);
+            if (date < s.todayIso) s.ambiguities.push(`${date} is in the past`);
+            s.dates.push(date);
+        }
+    },
+    {
+        pattern: new RegExp(`(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?`),
+        apply: (m, s) => {
+            nextMonthDay(s, MONTH_PREFIXES.indexOf(m[1].slice(0, 3)) + 1, Number(m[2]), m[0]);
+        }
+    },
+    {
+        pattern: new RegExp(`(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})`),
+        apply: (m, s) => {
+            nextMonthDay(s, MONTH_PREFIXES.indexOf(m[2].slice(0, 3)) + 1, Number(m[1]), m[0]);
+        }
+    },
+    {
+        pattern: /(\d{1,2})\/(\d{1,2})/,
+        apply: (m, s) => {
+            const [a, b] = [Number(m[1]), Number(m[2])];
+            // Month first unless that cannot be a date
+            const [month, day] = a > 12 ? [b, a] : [a, b];
+            nextMonthDay(s, month, day, m[0]);
+            if (a <= 12 && b <= 12 && a !== b) {
+                s.ambiguities.push(`"${m[0]}" read as month/day (${s.dates[s.dates.length - 1]})`);
+            }
+        }
+    },
+    {
+        pattern: /(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)/,
+        apply: (m, s) => {
+            // The next time this day of the month comes round
+            const day = Number(m[1]);
+            const [year, month] = s.todayIso.split("-").map(Number);
+            for (let i = 0; i < 12; i++) {
+                const y = year + Math.floor((month - 1 + i) / 12);
+                const date = isoDate(y, ((month - 1 + i) % 12) + 1, day);
+                if (date && date >= s.todayIso) {
+                    s.dates.push(date);
+                    return;
+                }
+            }
+            throw new Error(`"${m[0]}" is not a date`);
+        }
+    },
+    {
+        pattern: new RegExp(
+            `(next|this|coming|every)?\\s*((?:${WEEKDAY})s?(?:\\s*(?:,|or|and|&|\\/)\\s*(?:${WEEKDAY})s?)*)`
+        ),
+        apply: (m, s) => {
+            const next = m[1] === "next";
+            const days = m[2].match(new RegExp(`${WEEKDAY}`, "g"))!;
+            for (const word of days) {
+                const date = upcoming(s.todayIso, weekdayNumber(word), next);
+                s.dates.push(date);
+                if (next) {
+                    s.ambiguities.push(
+                        `"next ${word}" read as ${dayLabel(date)}; give the date if you meant ${addDaysIso(date, 7)}`
+                    );
+                }
+            }
+        }
+    },
+    // --- times ---
+    {
+        pattern: new RegExp(`between\\s+(${CLOCK})\\s+and\\s+(${CLOCK})`),
+        apply: (m, s) => {
+            const [start, end] = timeRange(readClock(m[1]), readClock(m[2]), s);
+            setWindow(s, start, end);
+        }
+    },
+    {
+        pattern: new RegExp(`(?:from\\s+)?(${CLOCK})\\s*(?:-|to|until|till|til)\\s*(${CLOCK})`),
+        apply: (m, s) => {
+            const [start, end] = timeRange(readClock(m[1]), readClock(m[2]), s);
+            setWindow(s, start, end);
+        }
+    },
+    {
+        pattern: new RegExp(`(?:after|from|since|past|starting(?:\\s+at)?|not\\s+before)\\s+(${CLOCK})`),
+        apply: (m, s) => {
+            setStart(s, singleTime(readClock(m[1]), s));
+        }
+    },
+    {
+        pattern: new RegExp(`(?:before|until|till|til|by|no\\s+later\\s+than|ending(?:\\s+by)?)\\s+(${CLOCK})`),
+        apply: (m, s) => {
+            setEnd(s, singleTime(readClock(m[1]), s));
+        }
+    },
+    {
+        pattern: new RegExp(`(at|around|@)?\\s*(noon|\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2})`),
+        apply: (m, s) => {
+            setStartAt(s, singleTime(readClock(m[2]), s), m[0]);
+        }
+    },
+    {
+        pattern: /(at|around|@)\s*(\d{1,2})/,
+        apply: (m, s) => {
+            setStartAt(s, singleTime(readClock(m[2]), s), m[0]);
+        }
+    },
+    {
+        pattern: /(?:in\s+the\s+|this\s+|at\s+)?(early morning|morning|lunchtime|lunch|afternoon|evening|night)s?/,
+        apply: (m, s) => {
+            const [start, end] = PERIODS[m[1]];
+            setWindow(s, start * 60, end * 60);
+        }
+    },
+    // --- length ---
+    {
+        pattern: new RegExp(`${AT_LEAST}(?:(?:an?\\s+|one\\s+)?hour\\s+and\\s+a\\s+half|1\\s+and\\s+a\\s+half\\s+hours?)`),
+        apply: (_m, s) => setMinMinutes(s, 90)
+    },
+    {
+        pattern: new RegExp(`${AT_LEAST}half\\s+an?\\s+hour`),
+        apply: (_m, s) => setMinMinutes(s, 30)
+    },
+    {
+        pattern: new RegExp(`${AT_LEAST}(an?|one|two)\\s+hours?`),
+        apply: (m, s) => setMinMinutes(s, m[1] === "two" ? 120 : 60)
+    },
+    {
+        pattern: new RegExp(`${AT_LEAST}(\\d)\\s*h\\s*(\\d{2})\\s*m?`),
+        apply: (m, s) => setMinMinutes(s, Number(m[1]) * 60 + Number(m[2]))
+    },
+    {
+        pattern: new RegExp(`${AT_LEAST}(\\d+(?:\\.\\d+)?)\\s*(${UNIT})`),
+        apply: (m, s) => setMinMinutes(s, durationMinutes(m[1], m[2]))
+    },
+    // --- court type ---
+    {
+        pattern: /indoors?|inside|covered/,
+        apply: (_m, s) => {
+            s.indoor = true;
+        }
+    },
+    {
+        pattern: /outdoors?|outside/,
+        apply: (_m, s) => {
+            s.ambiguities.push("There is no outdoor-only filter; searching all courts");
+        }
+    }
+];
+
+/** Words that carry no preference on their own. */
+const FILLER = new Set([
+    "a", "an", "and", "any", "anything", "are", "around", "at", "available", "book", "booking",
+    "can", "check", "court", "courts", "find", "for", "free", "from", "get", "i", "in", "is",
+    "like", "looking", "me", "need", "next", "of", "on", "open", "or", "play", "please", "slot",
+    "slots", "some", "something", "tennis", "the", "there", "this", "time", "times", "to",
+    "want", "we", "with", "would", "&", "-", "+", "/"
+]);
+
+/** Compiled once: anchored at the cursor and ending on a word boundary. */
+const COMPILED = RULES.map((rule) => ({
+    ...rule,
+    pattern: new RegExp(`(?:${rule.pattern.source})(?![a-z0-9])`, "y")
+}));
+
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[‐-―]/g, "-")
+        .replace(/\b([ap])\.m\.?/g, "$1m")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// ------------------------------- PUBLIC API ---------------------------------
+
+/**
+ * Turn free text into validated Preferences. Guesses (e.g. "after 6" →
+ * 18:00) are listed in `ambiguities`; unknown words in `unrecognized`.
+ * Throws with a user-facing message on values out of range.
+ */
+export function parsePreferences(text: string, now: Date = new Date()): ParsedPreferences {
+    const input = normalize(text);
+    const state: ParseState = {
+        todayIso: facilityToday(now),
+        dates: [],
+        courts: [],
+        ambiguities: [],
+        unrecognized: []
+    };
+
+    let pos = 0;
+    while (pos < input.length) {
+        // separators between phrases
+        const gap = /[\s,;!?]+|\.(?=\s|$)/y;
+        gap.lastIndex = pos;
+        if (gap.exec(input)) {
+            pos = gap.lastIndex;
+            continue;
+        }
+
+        let matched = false;
+        for (const rule of COMPILED) {
+            rule.pattern.lastIndex = pos;
+            const m = rule.pattern.exec(input);
+            if (!m || m[0].length === 0) continue;
+            rule.apply(m, state);
+            pos = rule.pattern.lastIndex;
+            matched = true;
+            break;
+        }
+        if (matched) continue;
+
+        const word = /[^\s,;!?]+/y;
+        word.lastIndex = pos;
+        const w = word.exec(input)![0];
+        pos = word.lastIndex;
+        if (!FILLER.has(w)) state.unrecognized.push(w);
+    }
+
+    const preferences = toPreferences(state);
+    const result: ParsedPreferences = {
+        preferences,
+        interpretation: describePreferences(preferences),
+        ambiguities: state.ambiguities,
+        unrecognized: state.unrecognized
+    };
+    if (state.interval !== undefined) result.interval_minutes = state.interval;
+    return result;
+}
+
+function toPreferences(state: ParseState): Preferences {
+    const prefs: Preferences = {};
+
+    if (state.dates.length > 0) {
+        prefs.dates = Array.from(new Set(state.dates)).sort();
+        if (state.daysAhead !== undefined) {
+            state.ambiguities.push(`Both specific dates and "next ${state.daysAhead} days" given; using the dates`);
+        }
+    } else if (state.daysAhead !== undefined) {
+        prefs.days_ahead = state.daysAhead;
+    }
+
+    if (state.startMinutes !== undefined) {
+        // Hour filters are whole hours: round inwards so nothing outside the
+        // asked-for window sneaks in.
+        prefs.start_hour = Math.ceil(state.startMinutes / 60);
+        if (state.startMinutes % 60 !== 0) {
+            state.ambiguities.push(`Start ${formatMinutes(state.startMinutes)} rounded to ${prefs.start_hour}:00`);
+        }
+    }
+    if (state.endMinutes !== undefined) {
+        prefs.end_hour = Math.floor(state.endMinutes / 60);
+        if (state.endMinutes % 60 !== 0) {
+            state.ambiguities.push(`End ${formatMinutes(state.endMinutes)} rounded to ${prefs.end_hour}:00`);
+        }
+    }
+    if (
+        prefs.start_hour !== undefined &&
+        prefs.end_hour !== undefined &&
+        prefs.start_hour >= prefs.end_hour
+    ) {
+        throw new Error(
+            `${formatMinutes(prefs.start_hour * 60)}–${formatMinutes(prefs.end_hour * 60)} is not a valid hour range`
+        );
+    }
+
+    if (state.minMinutes !== undefined) prefs.min_minutes = state.minMinutes;
+    if (state.indoor) prefs.indoor_only = true;
+    if (state.courts.length > 0) {
+        prefs.locations = Array.from(new Set(state.courts)).map((n) => `Court ${n}`);
+    }
+    if (state.courtsNeeded !== undefined) prefs.courts_needed = state.courtsNeeded;
+
+    const checked = PreferencesSchema.safeParse(prefs);
+    if (!checked.success) throw new Error(z.prettifyError(checked.error));
+    return checked.data;
+}
+
+/** One-line summary, e.g. "Tue 2026-10-20 or Thu 2026-10-22, 18:00–21:00, indoor only". */
+export function describePreferences(prefs: Preferences): string {
+    const start = prefs.start_hour !== undefined ? formatMinutes(prefs.start_hour * 60) : null;
+    const end = prefs.end_hour !== undefined ? formatMinutes(prefs.end_hour * 60) : null;
+    const hours =
+        start && end ? `${start}–${end}` : start ? `from ${start}` : end ? `until ${end}` : null;
+    const parts = [
+        prefs.dates?.map(dayLabel).join(" or ") ??
+            (prefs.days_ahead ? `today and the next ${prefs.days_ahead} day(s)` : "today"),
+        hours,
+        prefs.min_minutes ? `at least ${prefs.min_minutes} min` : null,
+        prefs.indoor_only ? "indoor only" : null,
+        prefs.locations?.join("/") ?? null,
+        prefs.courts_needed ? `${prefs.courts_needed} courts together` : null
+    ];
+    return parts.filter(Boolean).join(", ");
+}
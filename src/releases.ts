@@ -0,0 +1,345 @@
+// src/releases.ts
+//
+// UBC opens courts on a rolling window ("14 days ahead at 00:00 and 07:00").
+// Around each opening, watches with release_polling scan only the newly
+// released day back to back on an already logged-in session, so notify() or
+// auto-booking fires within seconds; the regular cadence resumes afterwards.
+// The schedule is configured (API or RELEASE_SCHEDULE) or learned from the
+// day regular watch runs first see slots on.
+import { env } from "./config/env";
+import { withSession } from "./session";
+import { accountFor, getUser } from "./users";
+import { readJson, writeJson } from "./store";
+import {
+    holdScheduledRuns,
+    listWatches,
+    onWatchRun,
+    runWatch,
+    watchOwner,
+    type Watch
+} from "./watches";
+import { formatTime24 } from "./slots";
+import {
+    addDaysIso,
+    facilityToday,
+    formatZonedIso,
+    zonedParts,
+    zonedTimeToUtc,
+    FACILITY_TIME_ZONE
+} from "./time";
+import type { Slot } from "./ubc";
+
+export type ReleaseSchedule = {
+    /** the day that opens is this many days after the release day */
+    days_ahead: number;
+    /** facility-local HH:MM release times */
+    times: string[];
+};
+
+export type ReleaseObservation = {
+    watch_id: string;
+    released_date: string;
+    days_ahead: number;
+    /** estimated release time, facility-local HH:MM (rounded to 15 min) */
+    at: string;
+    observed_at: string;
+};
+
+export type ReleaseWindow = {
+    release_at: string;
+    released_date: string;
+    poll_from: string;
+    poll_until: string;
+};
+
+export type ReleaseStatus = {
+    schedule: (ReleaseSchedule & { source: "configured" | "env" | "learned" }) | null;
+    learned: ReleaseSchedule | null;
+    observations: ReleaseObservation[];
+    next_window: ReleaseWindow | null;
+    polling: boolean;
+};
+
+type Horizon = {
+    date: string;
+    scanned_at: string;
+    /** last day that run scanned; missing on horizons from older versions */
+    covered?: string;
+};
+
+type ReleaseState = {
+    /** set through the API; overrides RELEASE_SCHEDULE */
+    configured: ReleaseSchedule | null;
+    observations: ReleaseObservation[];
+    /** furthest day with slots, per watch, as of its last regular run */
+    horizons: Record<string, Horizon>;
+};
+
+const STATE_FILE = "releases.json";
+const TICK_MS = 10_000;
+/** Log in (or refresh cookies) this long before a release. */
+const WARM_LEAD_MS = 3 * 60_000;
+/** Start polling a minute early in case the server clock runs behind. */
+const POLL_LEAD_MS = 60_000;
+/** A horizon jump between runs further apart than this is too vague to learn from. */
+const MAX_OBSERVATION_GAP_MS = 60 * 60_000;
+const MIN_OBSERVATIONS = 2;
+const MAX_OBSERVATIONS = 100;
+const DAY_MS = 86_400_000;
+
+// ------------------------------- STORAGE ------------------------------------
+
+let state: ReleaseState | null = null;
+
+function load(): ReleaseState {
+    if (!state) {
+        state = readJson<ReleaseState>(STATE_FILE, {
+            configured: null,
+            observations: [],
+            horizons: {}
+        });
+    }
+    return state;
+}
+
+function save(): void {
+    writeJson(STATE_FILE, load());
+}
+
+export function setReleaseSchedule(schedule: ReleaseSchedule | null): void {
+    load().configured = schedule
+        ? { days_ahead: schedule.days_ahead, times: [...new Set(schedule.times)].sort() }
+        : null;
+    save();
+}
+
+// ------------------------------- LEARNING -----------------------------------
+
+function daysBetween(fromIso: string, toIso: string): number {
+    return Math.round((Date.parse(`${toIso}T00:00:00Z`) - Date.parse(`${fromIso}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * A regular run whose furthest day with slots moved past the previous run's
+ * means a day was released in between, as long as the previous run scanned
+ * that day too and saw nothing. A day that only came into range because the
+ * date rolled over says nothing, and neither do runs narrowed to `dates`.
+ */
+export function observeRun(watch: Watch, slots: Slot[], ranAt: string): void {
+    if (watch.preferences.dates?.length || slots.length === 0) return;
+
+    const s = load();
+    const horizon = slots.reduce((max, slot) => (slot.date_iso > max ? slot.date_iso : max), "");
+    const previous = s.horizons[watch.id];
+    const today = facilityToday(new Date(ranAt));
+    s.horizons[watch.id] = {
+        date: horizon,
+        scanned_at: ranAt,
+        covered: addDaysIso(today, watch.preferences.days_ahead ?? 0)
+    };
+
+    const gapMs = previous ? Date.parse(ranAt) - Date.parse(previous.scanned_at) : Infinity;
+    if (
+        previous?.covered &&
+        horizon > previous.date &&
+        horizon <= previous.covered &&
+        gapMs <= MAX_OBSERVATION_GAP_MS
+    ) {
+        const midpoint = new Date(Date.parse(ranAt) - gapMs / 2);
+        const { dateIso, minutes } = zonedParts(midpoint, FACILITY_TIME_ZONE);
+        const rounded = Math.round(minutes / 15) * 15;
+        // 23:55 rounds up to 00:00 of the next day.
+        const releaseDay = rounded === 24 * 60 ? addDaysIso(dateIso, 1) : dateIso;
+        const observation: ReleaseObservation = {
+            watch_id: watch.id,
+            released_date: horizon,
+            days_ahead: daysBetween(releaseDay, horizon),
+            at: formatTime24(rounded % (24 * 60)),
+            observed_at: ranAt
+        };
+        console.log(
+            `[releases] ${horizon} opened around ${observation.at} (${observation.days_ahead} days ahead)`
+        );
+        s.observations.push(observation);
+        if (s.observations.length > MAX_OBSERVATIONS) {
+            s.observations.splice(0, s.observations.length - MAX_OBSERVATIONS);
+        }
+    }
+    save();
+}
+
+/**
+ * The days_ahead seen most often, with every time seen at least
+ * MIN_OBSERVATIONS times for it; null until that much evidence exists.
+ */
+function learnedSchedule(observations: ReleaseObservation[]): ReleaseSchedule | null {
+    const counts = new Map<string, number>();
+    for (const o of observations) {
+        const key = `${o.days_ahead}@${o.at}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    const byDays = new Map<number, string[]>();
+    for (const [key, count] of counts) {
+        if (count < MIN_OBSERVATIONS) continue;
+        const [days, at] = key.split("@");
+        byDays.set(Number(days), [...(byDays.get(Number(days)) ?? []), at]);
+    }
+    if (byDays.size === 0) return null;
+
+    const total = (days: number) =>
+        observations.filter((o) => o.days_ahead === days).length;
+    const [daysAhead, times] = [...byDays.entries()].sort((a, b) => total(b[0]) - total(a[0]))[0];
+    return { days_ahead: daysAhead, times: times.sort() };
+}
+
+function effectiveSchedule(): ReleaseStatus["schedule"] {
+    const s = load();
+    if (s.configured) return { ...s.configured, source: "configured" };
+    if (env.releases.schedule) return { ...env.releases.schedule, source: "env" };
+    const learned = learnedSchedule(s.observations);
+    return learned ? { ...learned, source: "learned" } : null;
+}
+
+// ------------------------------- WINDOWS ------------------------------------
+
+/** The release window that is running now or comes next. */
+function nextWindow(schedule: ReleaseSchedule | null, now = Date.now()): ReleaseWindow | null {
+    if (!schedule || schedule.times.length === 0) return null;
+
+    const today = facilityToday(new Date(now));
+    const candidates: ReleaseWindow[] = [];
+    // Yesterday's last release may still be inside its window just after midnight.
+    for (const offset of [-1, 0, 1]) {
+        const day = addDaysIso(today, offset);
+        for (const time of schedule.times) {
+            const releaseAt = zonedTimeToUtc(day, time, FACILITY_TIME_ZONE);
+            const until = releaseAt.getTime() + env.releases.windowMs;
+            if (until <= now) continue;
+            candidates.push({
+                release_at: formatZonedIso(releaseAt, FACILITY_TIME_ZONE),
+                released_date: addDaysIso(day, schedule.days_ahead),
+                poll_from: formatZonedIso(new Date(releaseAt.getTime() - POLL_LEAD_MS), FACILITY_TIME_ZONE),
+                poll_until: formatZonedIso(new Date(until), FACILITY_TIME_ZONE)
+            });
+        }
+    }
+    candidates.sort((a, b) => Date.parse(a.release_at) - Date.parse(b.release_at));
+    return candidates[0] ?? null;
+}
+
+/** Enabled release_polling watches that want the released day. */
+function pollingWatches(releasedDate: string): Watch[] {
+    return listWatches().filter(
+        (w) =>
+            w.enabled &&
+            w.release_polling &&
+            (!w.preferences.dates?.length || w.preferences.dates.includes(releasedDate))
+    );
+}
+
+// ------------------------------- POLLING ------------------------------------
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Log every polling account in ahead of time so the first pass does not pay for CWL. */
+async function warmSessions(watches: Watch[]): Promise<void> {
+    const owners = new Set(watches.map(watchOwner));
+    for (const ownerId of owners) {
+        const owner = getUser(ownerId);
+        if (!owner?.enabled) continue;
+        try {
+            await withSession(async () => undefined, accountFor(owner));
+            console.log(`[releases] Session ready for ${ownerId}`);
+        } catch (err: any) {
+            console.error(`[releases] Could not log in ${ownerId}:`, err?.message || err);
+        }
+    }
+}
+
+let ticking = false;
+let polling = false;
+let warmedFor: string | null = null;
+
+/** Scan only the released day, pass after pass, until the window closes. */
+async function pollRelease(release: ReleaseWindow): Promise<void> {
+    console.log(
+        `[releases] Fast polling ${release.released_date} until ${release.poll_until} (release at ${release.release_at})`
+    );
+    polling = true;
+    holdScheduledRuns(true);
+    try {
+        const until = Date.parse(release.poll_until);
+        while (Date.now() < until) {
+            const watches = pollingWatches(release.released_date);
+            if (watches.length === 0) break;
+            for (const watch of watches) {
+                await runWatch(watch, [release.released_date]);
+            }
+            await sleep(env.releases.pollMs);
+        }
+    } finally {
+        polling = false;
+        holdScheduledRuns(false);
+        console.log(`[releases] Back to the regular cadence after ${release.released_date}`);
+    }
+}
+
+async function tick(): Promise<void> {
+    if (ticking) return;
+    ticking = true;
+    try {
+        const release = nextWindow(effectiveSchedule());
+        if (!release) return;
+
+        const watches = pollingWatches(release.released_date);
+        if (watches.length === 0) return;
+
+        if (Date.now() >= Date.parse(release.release_at) - WARM_LEAD_MS && warmedFor !== release.release_at) {
+            warmedFor = release.release_at;
+            await warmSessions(watches);
+        }
+        if (Date.now() >= Date.parse(release.poll_from)) {
+            await pollRelease(release);
+        }
+    } finally {
+        ticking = false;
+    }
+}
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+export function getReleaseStatus(): ReleaseStatus {
+    const s = load();
+    const schedule = effectiveSchedule();
+    return {
+        schedule,
+        learned: learnedSchedule(s.observations),
+        observations: [...s.observations].reverse(),
+        next_window: nextWindow(schedule),
+        polling
+    };
+}
+
+/** Learn from regular watch runs and poll around releases; call once at boot. */
+export function startReleaseScheduler(): void {
+    onWatchRun((watch, slots, ranAt) => {
+        try {
+            observeRun(watch, slots, ranAt);
+        } catch (err: any) {
+            console.error("[releases] Could not record run:", err?.message || err);
+        }
+    });
+
+    const schedule = effectiveSchedule();
+    console.log(
+        schedule
+            ? `[releases] Schedule (${schedule.source}): ${schedule.days_ahead} days ahead at ${schedule.times.join(", ")}`
+            : "[releases] No release schedule yet; learning from watch runs"
+    );
+    setInterval(() => {
+        tick().catch((err) =>
+            console.error("[releases] Tick failed:", err?.message || err)
+        );
+    }, TICK_MS);
+}
@@ -0,0 +1,474 @@
+// src/reservations.ts
+//
+// The account's existing reservations, scraped from PerfectMind's "My
+// Bookings" page, the cancellation flow, and reminders sent before a
+// reservation's cancellation deadline passes.
+import { Page, Locator } from "playwright";
+import { env } from "./config/env";
+import { BOOKINGS_URL } from "./login";
+import { withSession, defaultAccount, LoginFailedError, type SessionAccount } from "./session";
+import { matchConfirmationNumber } from "./booking";
+import { parseTileTitle, to24h } from "./ubc";
+import { slotTimes } from "./slots";
+import { FACILITY_TIME_ZONE, formatZonedIso, zonedTimeToUtc } from "./time";
+import { notify, describeFailures } from "./notify";
+import { accountFor, getUser, listUsers, BUILTIN_ADMIN_ID, type User } from "./users";
+import { readJson, writeJson } from "./store";
+
+export type Reservation = {
+    /** PerfectMind's booking id when the page exposes one; what DELETE /bookings/:id takes */
+    id: string;
+    court: string;
+    /** facility-local day */
+    date_iso: string;
+    /** facility-local start */
+    time_24h: string;
+    minutes: number;
+    start_iso: string;
+    end_iso: string;
+    confirmation_number: string | null;
+    /** a Cancel control is offered and the deadline the page states (if any) has not passed */
+    cancellable: boolean;
+    /**
+     * Last moment a cancellation is accepted, with offset. Read from the page,
+     * else assumed BOOKING_CANCEL_NOTICE_HOURS before the start (only for
+     * reminders; an assumed deadline never stops a cancellation).
+     */
+    cancel_deadline: string | null;
+};
+
+export type CancellationFailureReason =
+    | "login_failed"
+    | "not_found"
+    | "past_deadline"
+    | "form_changed"
+    | "unknown";
+
+export type CancellationResult =
+    | {
+          status: "cancelled";
+          reservation: Reservation;
+          /** refund or account-credit text from the confirmation, if shown */
+          refund: string | null;
+      }
+    | {
+          status: "failed";
+          id: string;
+          reason: CancellationFailureReason;
+          detail: string;
+      };
+
+/** Thrown inside the flow to bail out with a structured reason. */
+class CancellationFailure extends Error {
+    constructor(
+        readonly reason: CancellationFailureReason,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+const REMINDERS_FILE = "cancel-reminders.json";
+const REMINDER_TICK_MS = 15 * 60_000;
+/** How long a scraped listing is trusted by the reminder scheduler. */
+const LISTING_TTL_MS = 6 * 60 * 60_000;
+
+// ------------------------------- PARSING ------------------------------------
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoDate(year: number, month: number, day: number): string | null {
+    const d = new Date(Date.UTC(year, month - 1, day));
+    if (d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+    return d.toISOString().slice(0, 10);
+}
+
+/** First date in the text: 2026-10-20, "Tue, Oct 20, 2026", "20 October 2026" or 10/20/2026. */
+function parseDate(text: string): string | null {
+    const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    const monthDay = text.match(/\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i);
+    if (monthDay && MONTHS.includes(monthDay[1].toLowerCase())) {
+        return isoDate(Number(monthDay[3]), MONTHS.indexOf(monthDay[1].toLowerCase()) + 1, Number(monthDay[2]));
+    }
+
+    const dayMonth = text.match(/\b(\d{1,2})[\s-]([a-z]{3})[a-z]*\.?[\s-](\d{4})\b/i);
+    if (dayMonth && MONTHS.includes(dayMonth[2].toLowerCase())) {
+        return isoDate(Number(dayMonth[3]), MONTHS.indexOf(dayMonth[2].toLowerCase()) + 1, Number(dayMonth[1]));
+    }
+
+    const slashed = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+    if (slashed) return isoDate(Number(slashed[3]), Number(slashed[1]), Number(slashed[2]));
+
+    return null;
+}
+
+/** "Cancel by Oct 19, 2026 6:00 PM" → that instant; null when the row states no deadline. */
+function parseDeadline(text: string): Date | null {
+    const match = text.match(/cancel(?:lation)?s?\s*(?:deadline|until|by|before)\s*:?\s*([^\n]+)/i);
+    if (!match) return null;
+    const dateIso = parseDate(match[1]);
+    const time = match[1].match(/\d{1,2}:\d{2}\s*(?:AM|PM)/i);
+    const time24 = time ? to24h(time[0]) : null;
+    if (!dateIso || !time24) return null;
+    return zonedTimeToUtc(dateIso, time24, FACILITY_TIME_ZONE);
+}
+
+/**
+ * Whether a row can be cancelled, and its deadline. Only a deadline the page
+ * states rules a cancellation out; without one, PerfectMind's Cancel control
+ * decides and the assumed deadline only times the reminder.
+ */
+export function cancelWindow(
+    text: string,
+    startIso: string,
+    cancelOffered: boolean,
+    now: Date
+): Pick<Reservation, "cancellable" | "cancel_deadline"> {
+    const stated = parseDeadline(text);
+    const deadline = stated ?? new Date(Date.parse(startIso) - env.bookings.cancelNoticeHours * 3_600_000);
+    return {
+        cancellable: cancelOffered && (!stated || now < stated),
+        cancel_deadline: formatZonedIso(deadline, FACILITY_TIME_ZONE)
+    };
+}
+
+/** "Court 3 – Indoor" style line; else the first line that is not a date, time or label. */
+function parseCourt(heading: string, text: string): string | null {
+    if (heading.trim()) return heading.trim();
+    const named = text.match(/^.*\bcourt\b.*$/im);
+    if (named) return named[0].trim();
+    const line = text
+        .split("\n")
+        .map((l) => l.trim())
+        .find((l) => l && !parseDate(l) && !parseTileTitle(l) && !/confirmation|cancel|receipt/i.test(l));
+    return line ?? null;
+}
+
+function slug(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+// ------------------------------ MY BOOKINGS ---------------------------------
+
+type ReservationRow = {
+    reservation: Reservation;
+    /** the row's Cancel control, when it has an enabled one */
+    cancel: Locator | null;
+};
+
+function reservationRows(page: Page): Locator {
+    return page.locator(
+        '[data-booking-id], .booking-item, .my-booking, [class*="booking-row" i], table.bookings tbody tr'
+    );
+}
+
+/** The My Bookings page, following the account menu when the direct URL lands elsewhere. */
+async function openMyBookings(page: Page): Promise<void> {
+    await page.goto(BOOKINGS_URL, { waitUntil: "networkidle" });
+    if ((await reservationRows(page).count()) > 0) return;
+
+    const link = page.getByRole("link", { name: /my bookings|my reservations|my schedule/i }).first();
+    if (await link.isVisible().catch(() => false)) {
+        await link.click();
+        await page.waitForLoadState("networkidle");
+    }
+}
+
+/** Booking id from data attributes or the Cancel link's query string. */
+async function rowId(row: Locator, cancel: Locator | null): Promise<string | null> {
+    const attr =
+        (await row.getAttribute("data-booking-id").catch(() => null)) ??
+        (await row.getAttribute("data-id").catch(() => null));
+    if (attr) return attr;
+
+    const href = cancel ? await cancel.getAttribute("href").catch(() => null) : null;
+    if (!href) return null;
+    try {
+        for (const [name, value] of new URL(href, BOOKINGS_URL).searchParams) {
+            if (/id$/i.test(name) && value) return value;
+        }
+    } catch {
+        // javascript: links and the like carry no id
+    }
+    return null;
+}
+
+async function readRow(row: Locator, now: Date): Promise<ReservationRow | null> {
+    const text = (await row.innerText().catch(() => "")).trim();
+    const heading = await row
+        .locator(".booking-title, .facility-name, h2, h3, h4")
+        .first()
+        .innerText()
+        .catch(() => "");
+
+    const dateIso = parseDate(text);
+    const times = parseTileTitle(text);
+    const court = parseCourt(heading, text);
+    if (!dateIso || !times || !court) {
+        console.warn(`[reservations] Skipping unreadable row: ${text.replace(/\s+/g, " ").slice(0, 120)}`);
+        return null;
+    }
+
+    const cancelControl = row
+        .locator('a:has-text("Cancel"), button:has-text("Cancel")')
+        .first();
+    const cancelOffered =
+        (await cancelControl.isVisible().catch(() => false)) &&
+        (await cancelControl.isEnabled().catch(() => false));
+    const cancel = cancelOffered ? cancelControl : null;
+
+    const { start_iso, end_iso } = slotTimes(dateIso, times.start24, times.minutes);
+    const confirmationNumber = matchConfirmationNumber(text);
+
+    return {
+        reservation: {
+            id:
+                (await rowId(row, cancel)) ??
+                confirmationNumber ??
+                `${dateIso}T${times.start24}-${slug(court)}`,
+            court,
+            date_iso: dateIso,
+            time_24h: times.start24,
+            minutes: times.minutes,
+            start_iso,
+            end_iso,
+            confirmation_number: confirmationNumber,
+            ...cancelWindow(text, start_iso, Boolean(cancel), now)
+        },
+        cancel
+    };
+}
+
+async function readReservations(page: Page): Promise<ReservationRow[]> {
+    await openMyBookings(page);
+    const rows = reservationRows(page);
+    const count = await rows.count();
+    const now = new Date();
+
+    const result: ReservationRow[] = [];
+    for (let i = 0; i < count; i++) {
+        const row = await readRow(rows.nth(i), now);
+        if (row) result.push(row);
+    }
+    console.log(`[reservations] ${result.length} reservations on My Bookings (${count} rows)`);
+    return result;
+}
+
+// ----------------------------- CANCELLATION ---------------------------------
+
+/** Refund / account-credit wording on the confirmation, e.g. "$12.00 credited to your account". */
+async function readRefund(page: Page): Promise<string | null> {
+    const body = await page.locator("body").innerText().catch(() => "");
+    const line = body
+        .split("\n")
+        .map((l) => l.trim())
+        .find((l) => /refund|credit/i.test(l));
+    return line ? line.replace(/\s+/g, " ") : null;
+}
+
+async function runCancellationFlow(page: Page, id: string): Promise<CancellationResult> {
+    const rows = await readReservations(page);
+    const row = rows.find((r) => r.reservation.id === id);
+    if (!row) {
+        throw new CancellationFailure("not_found", `No reservation ${id} on My Bookings`);
+    }
+    const { reservation } = row;
+    if (!row.cancel || !reservation.cancellable) {
+        throw new CancellationFailure(
+            "past_deadline",
+            row.cancel
+                ? `Cancellation deadline ${reservation.cancel_deadline} has passed`
+                : "PerfectMind no longer offers to cancel this reservation"
+        );
+    }
+
+    // Some themes confirm with window.confirm(), others with a modal.
+    page.once("dialog", (dialog) => dialog.accept().catch(() => undefined));
+    console.log(`[reservations] Cancelling ${reservation.court} ${reservation.date_iso} ${reservation.time_24h}…`);
+    await row.cancel.click();
+    await page.waitForLoadState("networkidle");
+
+    const confirmButton = page
+        .getByRole("button", { name: /yes|confirm|cancel (?:booking|reservation)|ok/i })
+        .first();
+    if (await confirmButton.isVisible().catch(() => false)) {
+        await confirmButton.click();
+        await page.waitForLoadState("networkidle");
+    }
+
+    const refund = await readRefund(page);
+
+    const after = await readReservations(page);
+    if (after.some((r) => r.reservation.id === id && r.cancel)) {
+        throw new CancellationFailure(
+            "form_changed",
+            "The reservation is still listed as cancellable after confirming"
+        );
+    }
+
+    console.log(`[reservations] Cancelled ${id}; ${refund ?? "no refund text shown"}`);
+    return { status: "cancelled", reservation, refund };
+}
+
+// ------------------------------ LISTING CACHE -------------------------------
+
+type Listing = { fetched_at: number; reservations: Reservation[] };
+
+/** Latest listing per account key; feeds the deadline reminders. */
+const listings = new Map<string, Listing>();
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+/** Every reservation on the account's My Bookings page, soonest first. */
+export async function listReservations(
+    account: SessionAccount | null = defaultAccount()
+): Promise<Reservation[]> {
+    const rows = await withSession((page) => readReservations(page), account);
+    const reservations = rows
+        .map((r) => r.reservation)
+        .sort((a, b) => Date.parse(a.start_iso) - Date.parse(b.start_iso));
+    if (account) listings.set(account.key, { fetched_at: Date.now(), reservations });
+    return reservations;
+}
+
+/**
+ * The account's reservations, reusing a listing scraped within `maxAgeMs`.
+ * When a fresh scrape fails, an older listing is better than nothing.
+ */
+export async function recentReservations(
+    account: SessionAccount,
+    maxAgeMs: number
+): Promise<Reservation[]> {
+    const listing = listings.get(account.key);
+    if (listing && Date.now() - listing.fetched_at <= maxAgeMs) return listing.reservations;
+    try {
+        return await listReservations(account);
+    } catch (err: any) {
+        if (!listing) throw err;
+        console.warn(`[reservations] Serving a stale listing for ${account.key}:`, err?.message || err);
+        return listing.reservations;
+    }
+}
+
+/** Cancel one reservation by its id from listReservations(). */
+export async function cancelReservation(
+    id: string,
+    account: SessionAccount | null = defaultAccount()
+): Promise<CancellationResult> {
+    try {
+        console.log(`[reservations] Cancelling reservation ${id}…`);
+        const result = await withSession((page) => runCancellationFlow(page, id), account);
+        if (account) listings.delete(account.key);
+        return result;
+    } catch (err: any) {
+        const failure =
+            err instanceof LoginFailedError
+                ? new CancellationFailure("login_failed", err.message)
+                : err;
+        if (failure instanceof CancellationFailure) {
+            console.warn(`[reservations] Cancel failed (${failure.reason}): ${failure.message}`);
+            return { status: "failed", id, reason: failure.reason, detail: failure.message };
+        }
+        console.error("[reservations] Unexpected error:", err?.message || err);
+        return { status: "failed", id, reason: "unknown", detail: String(err?.message || err) };
+    }
+}
+
+/**
+ * Drop the account's cached listing after a booking made outside the
+ * scraper, so the next read (auto-book safeguards, reminders) includes it.
+ */
+export function forgetListing(account: SessionAccount | null): void {
+    if (account) listings.delete(account.key);
+}
+
+// ------------------------------ REMINDERS -----------------------------------
+
+/** Reservation ids already reminded about, per account key. */
+let reminded: Record<string, string[]> | null = null;
+
+function loadReminded(): Record<string, string[]> {
+    if (!reminded) reminded = readJson<Record<string, string[]>>(REMINDERS_FILE, {});
+    return reminded;
+}
+
+/** Users whose reservations are checked: the built-in admin plus everyone with a UBC login. */
+function remindedUsers(): User[] {
+    return [getUser(BUILTIN_ADMIN_ID)!, ...listUsers()].filter(
+        (u) => u.enabled && accountFor(u)
+    );
+}
+
+/**
+ * Warn a user once per reservation when its cancellation deadline is less
+ * than CANCEL_REMINDER_HOURS away. Listings are re-scraped at most every
+ * few hours; GET /bookings refreshes them too.
+ */
+async function remindUser(user: User, leadMs: number): Promise<void> {
+    const account = accountFor(user)!;
+    let listing = listings.get(account.key);
+    if (!listing || Date.now() - listing.fetched_at > LISTING_TTL_MS) {
+        await listReservations(account);
+        listing = listings.get(account.key)!;
+    }
+
+    const store = loadReminded();
+    const done = new Set(store[account.key] ?? []);
+    const now = Date.now();
+    const due = listing.reservations.filter((r) => {
+        if (!r.cancellable || !r.cancel_deadline || done.has(r.id)) return false;
+        const left = Date.parse(r.cancel_deadline) - now;
+        return left > 0 && left <= leadMs;
+    });
+
+    for (const reservation of due) {
+        const sent = await notify({
+            notify: user.notify,
+            event: { type: "cancel_deadline", reservation }
+        });
+        if (!sent.ok) {
+            console.error(`[reservations] Reminder for ${reservation.id} failed: ${describeFailures(sent)}`);
+            continue;
+        }
+        done.add(reservation.id);
+    }
+
+    // Forget reservations that are gone so the file does not grow forever.
+    const current = new Set(listing.reservations.map((r) => r.id));
+    store[account.key] = [...done].filter((id) => current.has(id));
+    writeJson(REMINDERS_FILE, store);
+}
+
+let reminding = false;
+
+async function remindTick(leadMs: number): Promise<void> {
+    if (reminding) return;
+    reminding = true;
+    try {
+        for (const user of remindedUsers()) {
+            try {
+                await remindUser(user, leadMs);
+            } catch (err: any) {
+                console.error(`[reservations] Reminders for ${user.id} failed:`, err?.message || err);
+            }
+        }
+    } finally {
+        reminding = false;
+    }
+}
+
+/** Start cancellation-deadline reminders when CANCEL_REMINDER_HOURS is set; call once at boot. */
+export function startCancelReminderScheduler(): void {
+    const hours = env.bookings.reminderHours;
+    if (!hours) return;
+
+    console.log(`[reservations] Reminding ${hours}h before cancellation deadlines`);
+    const leadMs = hours * 3_600_000;
+    setInterval(() => {
+        remindTick(leadMs).catch((err) =>
+            console.error("[reservations] Reminder tick failed:", err?.message || err)
+        );
+    }, REMINDER_TICK_MS);
+}
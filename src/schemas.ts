@@ -0,0 +1,753 @@
+// src/schemas.ts
+import { z } from "zod/v4";
+import { isValidTimeZone } from "./time";
+import { withSlotTimes } from "./slots";
+
+/**
+ * Every request and response shape the API speaks. Requests are validated
+ * against these and /openapi.json is generated from them, so a schema is
+ * registered under the component name it gets in the document.
+ */
+export const schemaRegistry = z.registry<{ id: string }>();
+
+function named<S extends z.ZodType>(id: string, schema: S): S {
+    schemaRegistry.add(schema, { id });
+    return schema;
+}
+
+const DATE_ISO = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_HHMM = /^\d{2}:\d{2}$/;
+
+// --------------------------------- SHARED -----------------------------------
+
+export const ErrorSchema = named(
+    "Error",
+    z.object({
+        error: z.string(),
+        detail: z.string().optional()
+    })
+);
+
+export const PreferencesSchema = named(
+    "Preferences",
+    z.object({
+        days_ahead: z.number().min(0).max(14).optional().describe("Days to scan from today"),
+        start_hour: z.number().min(0).max(23).optional(),
+        end_hour: z.number().min(1).max(24).optional(),
+        min_minutes: z.number().min(30).max(120).optional(),
+        indoor_only: z.boolean().optional(),
+        locations: z.array(z.string()).optional().describe("Court names to scan; empty = all"),
+        dates: z
+            .array(z.string().regex(DATE_ISO, "dates must be YYYY-MM-DD"))
+            .optional()
+            .describe("Exact dates; overrides days_ahead"),
+        courts_needed: z
+            .number()
+            .int()
+            .min(2)
+            .max(6)
+            .optional()
+            .describe("Find this many courts free at the same time (such slots are never auto-booked)")
+    })
+);
+
+export const NotifyTargetSchema = named(
+    "NotifyTarget",
+    z.object({
+        email: z.email().optional(),
+        sms: z.string().optional(),
+        telegram_chat_id: z.string().optional(),
+        webhook_url: z.url().optional(),
+        quiet_hours: z
+            .object({
+                start: z.string().regex(TIME_HHMM, "start must be HH:MM"),
+                end: z.string().regex(TIME_HHMM, "end must be HH:MM"),
+                timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional()
+            })
+            .optional()
+            .describe("Non-urgent messages are held for a digest inside this window")
+    })
+);
+
+const SlotFields = {
+    date_iso: z.string().regex(DATE_ISO, "date_iso must be YYYY-MM-DD"),
+    time_24h: z.string().regex(TIME_HHMM, "time_24h must be HH:MM"),
+    minutes: z.number().min(15).max(240),
+    location: z.string().min(1),
+    deep_link: z.url().nullable().default(null)
+};
+
+const SlotInput = z.object({
+    ...SlotFields,
+    start_iso: z.string().optional(),
+    end_iso: z.string().optional()
+});
+
+/**
+ * A slot sent by a client. start_iso/end_iso may be echoed back from a scan
+ * but are always recomputed from date_iso, time_24h and minutes.
+ */
+export const SlotSchema = named(
+    "Slot",
+    SlotInput.describe("date_iso and time_24h are America/Vancouver wall-clock").transform(withSlotTimes)
+);
+
+/** A slot to book, keeping the tiles a scan said it is made of. */
+export const BookSlotSchema = named(
+    "BookSlot",
+    SlotInput.extend({
+        tiles: z
+            .array(SlotInput.transform(withSlotTimes))
+            .optional()
+            .describe("As returned by a scan; a merged block or group slot is several tiles")
+    })
+        .describe("date_iso and time_24h are America/Vancouver wall-clock")
+        .transform(withSlotTimes)
+);
+
+const SlotTimeFields = {
+    ...SlotFields,
+    start_iso: z.string().describe("Start with its UTC offset, e.g. 2026-10-20T18:00:00-07:00"),
+    end_iso: z.string().describe("End with its UTC offset")
+};
+
+/** A slot as the API returns it. */
+export const SlotResultSchema = named("SlotResult", z.object(SlotTimeFields));
+
+/** A slot as scans return it, with the PerfectMind tiles behind it. */
+export const ScannedSlotSchema = named(
+    "ScannedSlot",
+    z.object({
+        ...SlotTimeFields,
+        tiles: z.array(z.object(SlotTimeFields)).optional()
+    })
+);
+
+/** A reservation on the account's My Bookings page. */
+export const ReservationSchema = named(
+    "Reservation",
+    z.object({
+        id: z.string().describe("Pass to DELETE /bookings/{id}"),
+        court: z.string(),
+        date_iso: z.string().regex(DATE_ISO, "date_iso must be YYYY-MM-DD"),
+        time_24h: z.string().regex(TIME_HHMM, "time_24h must be HH:MM"),
+        minutes: z.number(),
+        start_iso: z.string(),
+        end_iso: z.string(),
+        confirmation_number: z.string().nullable(),
+        cancellable: z.boolean().describe("Offered a Cancel button and the deadline the page states (if any) has not passed"),
+        cancel_deadline: z
+            .string()
+            .nullable()
+            .describe("From the page, else assumed BOOKING_CANCEL_NOTICE_HOURS before the start (reminders only)")
+    })
+);
+
+// -------------------------------- REQUESTS ----------------------------------
+
+export const CheckRequestSchema = named(
+    "CheckRequest",
+    z
+        .object({
+            preferences: PreferencesSchema.optional(),
+            query: z
+                .string()
+                .min(1)
+                .max(500)
+                .optional()
+                .describe('Free text such as "next Tue after 6pm, 90 min"; preferences override what it yields')
+        })
+        .refine((r) => r.preferences !== undefined || r.query !== undefined, {
+            message: "Either preferences or query is required"
+        })
+        .describe("Either preferences or query is required")
+);
+
+export const ParsePreferencesRequestSchema = named(
+    "ParsePreferencesRequest",
+    z.object({
+        query: z.string().min(1).max(500)
+    })
+);
+
+export const NotifyEventSchema = named(
+    "NotifyEvent",
+    z.discriminatedUnion("type", [
+        z.object({
+            type: z.literal("slots_found"),
+            slots: z.array(SlotSchema).min(1),
+            ics_slot: SlotSchema.optional()
+        }),
+        z.object({
+            type: z.literal("booking_confirmed"),
+            slot: SlotSchema,
+            confirmation_number: z.string().nullable().default(null)
+        }),
+        z.object({
+            type: z.literal("booking_failed"),
+            slot: SlotSchema,
+            reason: z.string(),
+            detail: z.string().optional()
+        }),
+        z.object({
+            type: z.literal("cancel_deadline"),
+            reservation: ReservationSchema
+        }),
+        z.object({
+            type: z.literal("mfa_required"),
+            account: z.string(),
+            methods: z.array(z.enum(["push", "passcode"])).min(1),
+            expires_at: z.string()
+        })
+    ])
+);
+
+export const NotifyRequestSchema = named(
+    "NotifyRequest",
+    z
+        .object({
+            notify: NotifyTargetSchema.optional().describe("Admins only; defaults to the caller's notify target"),
+            text: z.string().optional(),
+            event: NotifyEventSchema.optional(),
+            priority: z.enum(["info", "warn", "urgent"]).optional(),
+            channels: z
+                .array(z.enum(["telegram", "email", "sms", "webhook"]))
+                .optional()
+                .describe("Fan out to exactly these; omitted = first usable channel")
+        })
+        .refine((r) => r.text !== undefined || r.event !== undefined, {
+            message: "Either text or event is required"
+        })
+        .describe("Either text or event is required")
+);
+
+export const BookRequestSchema = named(
+    "BookRequest",
+    z.object({
+        slot: BookSlotSchema,
+        dry_run: z.boolean().optional().describe("Stop on the checkout page"),
+        attendees: z.number().int().min(1).max(8).optional()
+    })
+);
+
+export const AutoBookSchema = named(
+    "AutoBook",
+    z.object({
+        enabled: z.boolean(),
+        courts: z.array(z.string()).optional().describe("Most preferred first"),
+        hours: z.array(z.number().int().min(0).max(23)).optional().describe("Most preferred first"),
+        max_per_day: z.number().int().min(0).max(10).default(1),
+        max_per_week: z.number().int().min(0).max(50).default(3),
+        blackout_dates: z
+            .array(z.string().regex(DATE_ISO, "blackout_dates must be YYYY-MM-DD"))
+            .optional(),
+        dry_run: z.boolean().optional()
+    })
+        .describe("Books single-court slots only; group slots (courts_needed) are notified but never auto-booked")
+);
+
+// No defaults here: a PATCH must not reset fields it leaves out.
+const WatchFields = z.object({
+    preferences: PreferencesSchema,
+    interval_minutes: z.number().int().min(5).max(1440),
+    notify: NotifyTargetSchema.optional().describe("Admins only; defaults to the caller's notify target"),
+    enabled: z.boolean().optional(),
+    auto_book: AutoBookSchema.nullable().optional(),
+    release_polling: z
+        .boolean()
+        .optional()
+        .describe("Poll the newly released day every few seconds around each booking-window opening")
+});
+
+export const WatchRequestSchema = named(
+    "WatchRequest",
+    WatchFields.extend({
+        interval_minutes: WatchFields.shape.interval_minutes.default(15)
+    })
+);
+
+export const WatchPatchSchema = named("WatchPatch", WatchFields.partial());
+
+export const UserRequestSchema = named(
+    "UserRequest",
+    z.object({
+        name: z.string().min(1),
+        role: z.enum(["admin", "member"]).optional(),
+        enabled: z.boolean().optional(),
+        ubc_user: z.string().min(1).optional().describe("Stored encrypted; needs ubc_pass"),
+        ubc_pass: z.string().min(1).optional().describe("Stored encrypted; needs ubc_user"),
+        default_preferences: PreferencesSchema.optional(),
+        notify: NotifyTargetSchema.optional()
+    })
+);
+
+export const UserPatchSchema = named("UserPatch", UserRequestSchema.partial());
+
+export const ReleaseScheduleSchema = named(
+    "ReleaseSchedule",
+    z.object({
+        days_ahead: z.number().int().min(1).max(90).describe("The day that opens is this many days out"),
+        times: z
+            .array(z.string().regex(TIME_HHMM, "times must be HH:MM"))
+            .min(1)
+            .describe("America/Vancouver release times, e.g. [\"00:00\", \"07:00\"]")
+    })
+);
+
+export const AuditQuerySchema = named(
+    "AuditQuery",
+    z.object({
+        watch_id: z.string().optional(),
+        action: z.enum(["booked", "dry_run", "skipped", "failed"]).optional(),
+        limit: z.coerce.number().int().min(1).max(1000).optional()
+    })
+);
+
+export const StatsQuerySchema = named(
+    "StatsQuery",
+    z.object({
+        group_by: z
+            .string()
+            .regex(/^(court|weekday|hour)(,(court|weekday|hour))*$/, "group_by must list court, weekday and/or hour")
+            .default("court,weekday,hour")
+            .describe("Comma-separated: court, weekday, hour"),
+        court: z.string().optional().describe('Fuzzy, e.g. "court 3"'),
+        weekday: z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"]).optional(),
+        from: z.string().regex(DATE_ISO, "from must be YYYY-MM-DD").optional(),
+        to: z.string().regex(DATE_ISO, "to must be YYYY-MM-DD").optional(),
+        format: z.enum(["json", "csv"]).default("json")
+    })
+);
+
+export const CourtsQuerySchema = named(
+    "CourtsQuery",
+    z.object({
+        refresh: z.enum(["true", "false"]).optional().describe("Rescan the facility list")
+    })
+);
+
+export const CalendarQuerySchema = named(
+    "CalendarQuery",
+    z.object({
+        watch: z.string().optional().describe("Only this watch's slots; default: all of the user's enabled watches")
+    })
+);
+
+// -------------------------------- RESPONSES ---------------------------------
+
+export const HealthSchema = named(
+    "Health",
+    z.object({
+        ok: z.boolean(),
+        ts: z.number(),
+        status: z
+            .enum(["ok", "degraded"])
+            .describe("degraded while a PerfectMind page no longer matches the expected markup"),
+        drift: z.array(
+            z.object({
+                page: z.enum(["court_list", "facility"]),
+                url: z.string(),
+                missing: z.array(z.string()).describe("Elements no selector candidate matched"),
+                fallbacks: z
+                    .array(z.object({ name: z.string(), selector: z.string() }))
+                    .describe("Elements only a fallback candidate matched"),
+                first_seen_at: z.string(),
+                last_seen_at: z.string(),
+                snapshot: z
+                    .object({
+                        html: z.string(),
+                        screenshot: z.string().nullable(),
+                        taken_at: z.string()
+                    })
+                    .nullable()
+                    .describe("Saved page, relative to DATA_DIR")
+            })
+        )
+    })
+);
+
+export const CourtScanSchema = named(
+    "CourtScan",
+    z.object({
+        court: z.string(),
+        url: z.string().nullable(),
+        status: z.enum(["scanned", "skipped", "failed"]),
+        slots: z.number(),
+        detail: z.string().optional()
+    })
+);
+
+export const ScanDiagnosticsSchema = named(
+    "ScanDiagnostics",
+    z
+        .object({
+            courts_seen: z.number(),
+            book_now_spans: z.number(),
+            filtered: z.record(z.string(), z.number()),
+            slots_returned: z.number(),
+            login: z.object({
+                logged_in: z.boolean().nullable(),
+                last_login_at: z.string().nullable(),
+                relogged: z.boolean()
+            }),
+            timing: z.object({
+                started_at: z.string(),
+                finished_at: z.string().nullable(),
+                session_ready_ms: z.number().nullable(),
+                total_ms: z.number().nullable()
+            }),
+            events: z.array(z.string())
+        })
+        .describe("How the scan went; for debugging")
+);
+
+export const CheckResultSchema = named(
+    "CheckResult",
+    z.object({
+        slots: z.array(ScannedSlotSchema),
+        courts: z.array(CourtScanSchema),
+        diagnostics: ScanDiagnosticsSchema
+    })
+);
+
+export const ParsedPreferencesSchema = named(
+    "ParsedPreferences",
+    z.object({
+        preferences: PreferencesSchema,
+        interpretation: z.string().describe("How the text was read, in normalized form"),
+        ambiguities: z.array(z.string()).describe("Guesses the parser made, each saying what it picked"),
+        unrecognized: z.array(z.string()).describe("Words that were ignored"),
+        interval_minutes: z.number().optional().describe('From "every 10m"')
+    })
+);
+
+export const CheckNowResultSchema = named(
+    "CheckNowResult",
+    CheckResultSchema.extend({
+        parsed: ParsedPreferencesSchema.optional().describe("How `query` was read, when given")
+    })
+);
+
+export const CheckJobSchema = named(
+    "CheckJob",
+    z.object({
+        id: z.string(),
+        owner_id: z.string(),
+        status: z.enum(["queued", "running", "done", "failed"]),
+        preferences: PreferencesSchema,
+        created_at: z.string(),
+        started_at: z.string().nullable(),
+        finished_at: z.string().nullable(),
+        progress: z.object({
+            courts_total: z.number().nullable().describe("Courts to scan; null until the catalog is read"),
+            courts_done: z.number(),
+            courts: z.array(CourtScanSchema)
+        }),
+        slots: z.array(ScannedSlotSchema).describe("Slots from the courts finished so far; final once status is done"),
+        diagnostics: ScanDiagnosticsSchema.nullable(),
+        error: z.string().nullable()
+    })
+);
+
+export const CheckSubmissionSchema = named(
+    "CheckSubmission",
+    z.object({
+        job: CheckJobSchema,
+        deduplicated: z.boolean().describe("An identical check was already queued or running"),
+        cached: z.boolean().describe("An identical check finished within CHECK_CACHE_SECONDS"),
+        parsed: ParsedPreferencesSchema.optional().describe("How `query` was read, when given")
+    })
+);
+
+export const BookingResultSchema = named(
+    "BookingResult",
+    z.discriminatedUnion("status", [
+        z.object({
+            status: z.literal("booked"),
+            slot: SlotResultSchema,
+            confirmation_number: z.string().nullable(),
+            price_summary: z.string().nullable()
+        }),
+        z.object({
+            status: z.literal("dry_run"),
+            slot: SlotResultSchema,
+            price_summary: z.string().nullable()
+        }),
+        z.object({
+            status: z.literal("failed"),
+            slot: SlotResultSchema,
+            reason: z.enum([
+                "login_failed",
+                "court_not_found",
+                "slot_taken",
+                "payment_required",
+                "duration_unavailable",
+                "form_changed",
+                "unknown"
+            ]),
+            detail: z.string()
+        })
+    ])
+);
+
+export const ReservationListSchema = named(
+    "ReservationList",
+    z.object({ reservations: z.array(ReservationSchema) })
+);
+
+export const CancellationResultSchema = named(
+    "CancellationResult",
+    z.discriminatedUnion("status", [
+        z.object({
+            status: z.literal("cancelled"),
+            reservation: ReservationSchema,
+            refund: z.string().nullable().describe("Refund or account-credit text, if shown")
+        }),
+        z.object({
+            status: z.literal("failed"),
+            id: z.string(),
+            reason: z.enum(["login_failed", "not_found", "past_deadline", "form_changed", "unknown"]),
+            detail: z.string()
+        })
+    ])
+);
+
+export const NotifyResultSchema = named(
+    "NotifyResult",
+    z.object({
+        ok: z.boolean(),
+        results: z.array(
+            z.object({
+                channel: z.enum(["telegram", "email", "sms", "webhook"]),
+                ok: z.boolean(),
+                recipient: z.string().optional(),
+                error: z.string().optional(),
+                attempts: z.number().optional(),
+                suppressed: z.enum(["duplicate", "rate_limited"]).optional()
+            })
+        ),
+        deferred: z.boolean().optional().describe("Held for the quiet-hours digest")
+    })
+);
+
+export const CourtCatalogSchema = named(
+    "CourtCatalog",
+    z.object({
+        built_at: z.string(),
+        courts: z.array(
+            z.object({
+                name: z.string(),
+                facility_url: z.string().nullable(),
+                indoor: z.boolean().nullable(),
+                surface: z.string().nullable()
+            })
+        )
+    })
+);
+
+export const WatchSchema = named(
+    "Watch",
+    z.object({
+        id: z.string(),
+        owner_id: z.string().optional(),
+        preferences: PreferencesSchema,
+        interval_minutes: z.number(),
+        notify: NotifyTargetSchema,
+        enabled: z.boolean(),
+        auto_book: AutoBookSchema.nullable(),
+        release_polling: z.boolean().optional(),
+        created_at: z.string(),
+        last_run_at: z.string().nullable(),
+        last_error: z.string().nullable(),
+        next_run_at: z.string(),
+        last_seen: z.array(z.string()),
+        open_slots: z.array(SlotSchema).optional().describe("Slots open as of the last run; feeds /calendar/availability.ics")
+    })
+);
+
+export const WatchListSchema = named(
+    "WatchList",
+    z.object({ watches: z.array(WatchSchema) })
+);
+
+export const ReleaseStatusSchema = named(
+    "ReleaseStatus",
+    z.object({
+        schedule: ReleaseScheduleSchema.extend({
+            source: z.enum(["configured", "env", "learned"])
+        })
+            .nullable()
+            .describe("What release polling uses: the API setting, else RELEASE_SCHEDULE, else the learned one"),
+        learned: ReleaseScheduleSchema.nullable(),
+        observations: z
+            .array(
+                z.object({
+                    watch_id: z.string(),
+                    released_date: z.string(),
+                    days_ahead: z.number(),
+                    at: z.string(),
+                    observed_at: z.string()
+                })
+            )
+            .describe("Days seen opening during regular watch runs, newest first"),
+        next_window: z
+            .object({
+                release_at: z.string(),
+                released_date: z.string(),
+                poll_from: z.string(),
+                poll_until: z.string()
+            })
+            .nullable(),
+        polling: z.boolean().describe("A release window is being polled right now")
+    })
+);
+
+export const StatsSchema = named(
+    "Stats",
+    z.object({
+        rows: z.array(
+            z.object({
+                court: z.string().optional(),
+                weekday: z.string().optional(),
+                hour: z.number().optional(),
+                slots_tracked: z.number(),
+                availability_rate: z
+                    .number()
+                    .nullable()
+                    .describe("Share of scans covering a slot that found it open"),
+                bookings_observed: z.number().describe("Open slots later seen gone"),
+                median_lead_hours: z
+                    .number()
+                    .nullable()
+                    .describe("Median hours between a slot going and its start"),
+                cancellations: z.number().describe("Slots that (re)appeared after being booked"),
+                cancellation_rate: z.number().nullable().describe("Cancellations per tracked slot")
+            })
+        )
+    })
+);
+
+export const SessionStatusSchema = named(
+    "SessionStatus",
+    z.object({
+        account: z.string(),
+        browser_running: z.boolean(),
+        logged_in: z.boolean().nullable(),
+        last_login_at: z.string().nullable(),
+        last_checked_at: z.string().nullable(),
+        cookies_expire_at: z.string().nullable(),
+        mfa: z
+            .object({
+                methods: z.array(z.enum(["push", "passcode"])),
+                started_at: z.string(),
+                expires_at: z.string()
+            })
+            .nullable()
+            .describe("Duo prompt the login is waiting on: approve the push or POST /session/mfa"),
+        last_error: z
+            .object({
+                code: z.enum([
+                    "no_credentials",
+                    "bad_credentials",
+                    "mfa_timeout",
+                    "mfa_denied",
+                    "portal_changed",
+                    "timeout",
+                    "unknown"
+                ]),
+                stage: z.enum(["portal", "cwl_form", "mfa_challenge", "redirect", "logged_in"]).nullable(),
+                message: z.string(),
+                at: z.string()
+            })
+            .nullable()
+            .describe("Why the last login failed; cleared by the next successful one"),
+        active: z.number(),
+        queued: z.number()
+    })
+);
+
+export const MfaPasscodeSchema = named(
+    "MfaPasscode",
+    z.object({
+        passcode: z
+            .string()
+            .regex(/^\d{6,10}$/, "passcode must be 6-10 digits")
+            .describe("Duo Mobile passcode, hardware token code or bypass code")
+    })
+);
+
+export const AuditLogSchema = named(
+    "AuditLog",
+    z.object({
+        entries: z.array(
+            z.object({
+                id: z.string(),
+                ts: z.string(),
+                watch_id: z.string(),
+                action: z.enum(["booked", "dry_run", "skipped", "failed"]),
+                slot: SlotResultSchema.nullable(),
+                reason: z.string(),
+                detail: z.string().optional()
+            })
+        )
+    })
+);
+
+export const PublicUserSchema = named(
+    "User",
+    z.object({
+        id: z.string(),
+        name: z.string(),
+        role: z.enum(["admin", "member"]),
+        enabled: z.boolean(),
+        has_ubc_credentials: z.boolean(),
+        default_preferences: PreferencesSchema,
+        notify: NotifyTargetSchema,
+        created_at: z.string(),
+        updated_at: z.string(),
+        token_rotated_at: z.string(),
+        builtin: z.literal(true).optional()
+    })
+);
+
+export const UserListSchema = named(
+    "UserList",
+    z.object({ users: z.array(PublicUserSchema) })
+);
+
+export const UserTokenSchema = named(
+    "UserWithToken",
+    z.object({
+        user: PublicUserSchema,
+        token: z.string().describe("Shown only on creation and rotation")
+    })
+);
+
+export const CalendarFeedsSchema = named(
+    "CalendarFeeds",
+    z.object({
+        token: z.string().describe("Feed secret; shown only now, rotating it breaks the old URLs"),
+        bookings_url: z.string(),
+        availability_url: z.string()
+    })
+);
+
+export const TelegramUpdateSchema = named(
+    "TelegramUpdate",
+    z.looseObject({ update_id: z.number() }).describe("A Bot API Update object")
+);
+
+export type CheckRequest = z.infer<typeof CheckRequestSchema>;
+export type ParsePreferencesRequest = z.infer<typeof ParsePreferencesRequestSchema>;
+export type NotifyRequest = z.infer<typeof NotifyRequestSchema>;
+export type BookRequest = z.infer<typeof BookRequestSchema>;
+export type WatchRequest = z.infer<typeof WatchRequestSchema>;
+export type WatchPatch = z.infer<typeof WatchPatchSchema>;
+export type UserRequest = z.infer<typeof UserRequestSchema>;
+export type UserPatch = z.infer<typeof UserPatchSchema>;
+export type ReleaseScheduleRequest = z.infer<typeof ReleaseScheduleSchema>;
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+export type StatsQuery = z.infer<typeof StatsQuerySchema>;
+export type CourtsQuery = z.infer<typeof CourtsQuerySchema>;
+export type MfaPasscode = z.infer<typeof MfaPasscodeSchema>;
+export type CalendarQuery = z.infer<typeof CalendarQuerySchema>;
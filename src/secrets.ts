@@ -0,0 +1,60 @@
+// src/secrets.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { env } from "./config/env";
+
+const VERSION = "v1";
+
+let key: Buffer | null = null;
+
+/** AES-256 key derived once from CREDENTIALS_KEY. */
+function encryptionKey(): Buffer {
+    if (!env.credentialsKey) {
+        throw new Error("CREDENTIALS_KEY is not set; cannot store UBC credentials");
+    }
+    if (!key) key = scryptSync(env.credentialsKey, "facility-booker/credentials", 32);
+    return key;
+}
+
+export function canEncrypt(): boolean {
+    return Boolean(env.credentialsKey);
+}
+
+/** AES-256-GCM; the result is "v1:<iv>:<tag>:<ciphertext>", all base64. */
+export function encryptSecret(plain: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+    const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [VERSION, iv.toString("base64"), tag.toString("base64"), data.toString("base64")].join(":");
+}
+
+export function decryptSecret(sealed: string): string {
+    const [version, iv, tag, data] = sealed.split(":");
+    if (version !== VERSION || !iv || !tag || !data) {
+        throw new Error("Unrecognized encrypted value");
+    }
+    const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+        decipher.update(Buffer.from(data, "base64")),
+        decipher.final()
+    ]).toString("utf8");
+}
+
+// --------------------------------- TOKENS -----------------------------------
+
+/** New API token; only its hash is ever stored. */
+export function generateToken(): string {
+    return `bk_${randomBytes(24).toString("base64url")}`;
+}
+
+/** Tokens are long random strings, so a plain SHA-256 is enough. */
+export function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
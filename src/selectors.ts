@@ -0,0 +1,225 @@
+// src/selectors.ts
+//
+// Every PerfectMind element the scanner and booking flow look for, by
+// logical name, with fallbacks in order of preference (the same idea as the
+// CWL button candidates in login.ts). checkPage() verifies a page still has
+// what it should; when it does not, or only a fallback matched, the page is
+// saved under DATA_DIR/drift/ and GET /health reports "degraded" until a
+// later check of the same page passes again.
+import fs from "fs";
+import type { Locator, Page } from "playwright";
+import { dataPath, readJson, writeJson } from "./store";
+
+export type SelectorName =
+    | "court_choose_button"
+    | "court_card"
+    | "court_card_name"
+    | "facility_name"
+    | "scheduler"
+    | "scheduler_rows"
+    | "scheduler_nav_next"
+    | "scheduler_nav_prev"
+    | "book_now_tile"
+    | "tile_container";
+
+/** Most specific first; the first candidate is what the pages use today. */
+export const SELECTORS: Record<SelectorName, string[]> = {
+    // Desktop buttons only: each court card also has a tablet copy.
+    court_choose_button: [
+        'a.pm-confirm-button.desktop-details:has-text("Choose")',
+        'a.pm-confirm-button:visible:has-text("Choose")',
+        'a:visible:has-text("Choose"), button:visible:has-text("Choose")'
+    ],
+    // Relative to a Choose button
+    court_card: [
+        'xpath=ancestor::div[contains(@class,"facility-item")]',
+        'xpath=ancestor::*[contains(@class,"facility")][1]',
+        "xpath=ancestor::div[.//h2 or .//h3][1]"
+    ],
+    court_card_name: [".facility-details h2", "h2", "h3"],
+    facility_name: ["h1.facility-name", ".facility-name", "h1"],
+    // Plain CSS: also used inside page.evaluate()
+    scheduler: ["#scheduler", ".k-scheduler", '[data-role="scheduler"]'],
+    scheduler_rows: ['#scheduler tr[role="row"], #scheduler .k-scheduler-row', '.k-scheduler tr[role="row"]'],
+    scheduler_nav_next: ["#scheduler .k-nav-next", ".k-scheduler .k-nav-next", '.k-scheduler [aria-label*="Next" i]'],
+    scheduler_nav_prev: ["#scheduler .k-nav-prev", ".k-scheduler .k-nav-prev", '.k-scheduler [aria-label*="Previous" i]'],
+    book_now_tile: [
+        "#scheduler .k-event-template.facility-booking-slot span",
+        "#scheduler .facility-booking-slot span",
+        ".k-scheduler .k-event span"
+    ],
+    // Plain CSS: the event element a "Book Now" span sits in
+    tile_container: [".facility-booking-slot", ".k-event-template", '[class*="event"]']
+};
+
+/** Event-container classes that mean a "Book Now" tile cannot be booked. */
+export const UNAVAILABLE_CLASSES = /unavailable|disabled|booked|reserved|full|past|expired/i;
+
+export type PageKind = "court_list" | "facility";
+
+/** What each page must contain for a scan of it to mean anything. */
+const EXPECTED: Record<PageKind, SelectorName[]> = {
+    court_list: ["court_choose_button", "court_card_name"],
+    facility: ["facility_name", "scheduler", "scheduler_nav_next"]
+};
+
+export type DriftSnapshot = {
+    /** paths relative to DATA_DIR */
+    html: string;
+    screenshot: string | null;
+    taken_at: string;
+};
+
+export type DriftRecord = {
+    page: PageKind;
+    url: string;
+    /** no candidate matched */
+    missing: SelectorName[];
+    /** only a fallback candidate matched */
+    fallbacks: { name: SelectorName; selector: string }[];
+    first_seen_at: string;
+    last_seen_at: string;
+    snapshot: DriftSnapshot | null;
+};
+
+export type SelectorHealth = {
+    status: "ok" | "degraded";
+    drift: DriftRecord[];
+};
+
+type DriftState = { pages: Partial<Record<PageKind, DriftRecord>> };
+
+const DRIFT_FILE = "selector-drift.json";
+const SNAPSHOT_DIR = "drift";
+/** One snapshot per page kind per hour is plenty to debug from. */
+const SNAPSHOT_INTERVAL_MS = 60 * 60_000;
+const MAX_SNAPSHOT_FILES = 20;
+
+// ------------------------------ RESOLUTION ----------------------------------
+
+type Scope = Page | Locator;
+
+const warnedFallbacks = new Set<string>();
+
+/** Index of the first candidate with a match under `scope`, -1 when none has. */
+async function matchingCandidate(scope: Scope, name: SelectorName): Promise<number> {
+    const candidates = SELECTORS[name];
+    for (let i = 0; i < candidates.length; i++) {
+        if ((await scope.locator(candidates[i]).count().catch(() => 0)) > 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * The first candidate that matches anything under `scope`, or the primary
+ * one (matching nothing) when none does, so callers see an empty locator.
+ */
+export async function locate(scope: Scope, name: SelectorName): Promise<Locator> {
+    const index = await matchingCandidate(scope, name);
+    const selector = SELECTORS[name][Math.max(index, 0)];
+    if (index > 0 && !warnedFallbacks.has(selector)) {
+        warnedFallbacks.add(selector);
+        console.warn(`[selectors] "${name}" only matched fallback ${selector}`);
+    }
+    return scope.locator(selector);
+}
+
+/** The candidates as one CSS selector list, for use inside page.evaluate(). */
+export function cssSelector(name: SelectorName): string {
+    return SELECTORS[name].join(", ");
+}
+
+// -------------------------------- DRIFT -------------------------------------
+
+let state: DriftState | null = null;
+
+function load(): DriftState {
+    if (!state) state = readJson<DriftState>(DRIFT_FILE, { pages: {} });
+    return state;
+}
+
+function save(): void {
+    writeJson(DRIFT_FILE, load());
+}
+
+/** Keep the newest MAX_SNAPSHOT_FILES files; names start with a timestamp. */
+function pruneSnapshots(): void {
+    const dir = dataPath(SNAPSHOT_DIR);
+    const files = fs.readdirSync(dir).sort();
+    for (const file of files.slice(0, Math.max(0, files.length - MAX_SNAPSHOT_FILES))) {
+        fs.rmSync(dataPath(`${SNAPSHOT_DIR}/${file}`), { force: true });
+    }
+}
+
+async function saveSnapshot(page: Page, kind: PageKind): Promise<DriftSnapshot | null> {
+    const takenAt = new Date().toISOString();
+    const base = `${SNAPSHOT_DIR}/${takenAt.replace(/[:.]/g, "-")}-${kind}`;
+    try {
+        fs.mkdirSync(dataPath(SNAPSHOT_DIR), { recursive: true });
+        fs.writeFileSync(dataPath(`${base}.html`), await page.content());
+        const screenshot = await page
+            .screenshot({ path: dataPath(`${base}.png`), fullPage: true })
+            .then(() => `${base}.png`)
+            .catch(() => null);
+        pruneSnapshots();
+        return { html: `${base}.html`, screenshot, taken_at: takenAt };
+    } catch (err: any) {
+        console.error(`[selectors] Could not save ${kind} snapshot:`, err?.message || err);
+        return null;
+    }
+}
+
+/**
+ * Check `page` against what a `kind` page must contain. Drift is recorded
+ * (with a snapshot at most hourly); a clean check clears it. Returns the
+ * logical elements that are missing altogether.
+ */
+export async function checkPage(page: Page, kind: PageKind): Promise<SelectorName[]> {
+    const missing: SelectorName[] = [];
+    const fallbacks: DriftRecord["fallbacks"] = [];
+    for (const name of EXPECTED[kind]) {
+        const index = await matchingCandidate(page, name);
+        if (index === -1) missing.push(name);
+        else if (index > 0) fallbacks.push({ name, selector: SELECTORS[name][index] });
+    }
+
+    const s = load();
+    const previous = s.pages[kind];
+    if (missing.length === 0 && fallbacks.length === 0) {
+        if (previous) {
+            delete s.pages[kind];
+            save();
+            console.log(`[selectors] ${kind} page matches the expected markup again`);
+        }
+        return missing;
+    }
+
+    const now = new Date().toISOString();
+    const snapshotAge = previous?.snapshot ? Date.now() - Date.parse(previous.snapshot.taken_at) : Infinity;
+    const snapshot =
+        snapshotAge < SNAPSHOT_INTERVAL_MS ? previous!.snapshot : await saveSnapshot(page, kind);
+
+    s.pages[kind] = {
+        page: kind,
+        url: page.url(),
+        missing,
+        fallbacks,
+        first_seen_at: previous?.first_seen_at ?? now,
+        last_seen_at: now,
+        snapshot
+    };
+    save();
+
+    console.warn(
+        `[selectors] ${kind} page drifted (${page.url()}): missing [${missing.join(", ")}], fallbacks [${fallbacks
+            .map((f) => f.name)
+            .join(", ")}]${snapshot ? `; snapshot ${snapshot.html}` : ""}`
+    );
+    return missing;
+}
+
+/** For GET /health: degraded while any page kind has unresolved drift. */
+export function getSelectorHealth(): SelectorHealth {
+    const drift = Object.values(load().pages).filter((d): d is DriftRecord => Boolean(d));
+    return { status: drift.length > 0 ? "degraded" : "ok", drift };
+}
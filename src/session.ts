@@ -0,0 +1,375 @@
+// src/session.ts
+import fs from "fs";
+import path from "path";
+import { chromium, Browser, BrowserContext, Page } from "playwright";
+import { env } from "./config/env";
+import { createLimiter, type Limiter } from "./concurrency";
+import {
+    BASE_URL,
+    ensureLoggedIn,
+    isLoggedIn,
+    LoginError,
+    type LoginErrorCode,
+    type LoginStage,
+    type MfaChallenge,
+    type MfaHandler,
+    type UbcCredentials
+} from "./login";
+import { dataPath, readJson, writeJson } from "./store";
+import { FACILITY_TIME_ZONE } from "./time";
+
+export type SessionStatus = {
+    account: string;
+    browser_running: boolean;
+    logged_in: boolean | null;
+    last_login_at: string | null;
+    last_checked_at: string | null;
+    cookies_expire_at: string | null;
+    /** a Duo prompt the login is waiting on (approve the push or POST /session/mfa) */
+    mfa: MfaChallenge | null;
+    last_error: LoginFailure | null;
+    active: number;
+    queued: number;
+};
+
+export type LoginFailure = {
+    code: LoginErrorCode | "unknown";
+    stage: LoginStage | null;
+    message: string;
+    at: string;
+};
+
+/**
+ * Whose UBC login a session runs under. Each account gets its own browser
+ * context (cookies, storage) inside the one shared Chromium.
+ */
+export type SessionAccount = {
+    key: string;
+    credentials: UbcCredentials;
+};
+
+/** Raised when a session cannot get past the CWL login. */
+export class LoginFailedError extends Error {
+    constructor(
+        readonly code: LoginFailure["code"],
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+/** Called when a login hits a Duo prompt, with the account it is for. */
+export type MfaListener = (accountKey: string, challenge: MfaChallenge) => void;
+
+type PendingMfa = {
+    challenge: MfaChallenge;
+    /** submitted through POST /session/mfa, oldest first */
+    passcodes: string[];
+};
+
+type SessionMeta = { last_login_at: string | null };
+
+type AccountSession = {
+    key: string;
+    context: BrowserContext | null;
+    opening: Promise<BrowserContext> | null;
+    loggedIn: boolean | null;
+    lastCheckedAt: string | null;
+    /** the running check/login; resolves true when it had to log in */
+    loginInFlight: Promise<boolean> | null;
+    /** SESSION_MAX_CONCURRENT tasks at a time in this account's context */
+    limiter: Limiter;
+    mfa: PendingMfa | null;
+    lastError: LoginFailure | null;
+    meta: SessionMeta;
+};
+
+/** The shared UBC_USER/UBC_PASS account keeps the original file names. */
+export const DEFAULT_ACCOUNT_KEY = "default";
+
+let browser: Browser | null = null;
+let launching: Promise<Browser> | null = null;
+
+const sessions = new Map<string, AccountSession>();
+const mfaListeners: MfaListener[] = [];
+
+function stateFile(key: string): string {
+    return key === DEFAULT_ACCOUNT_KEY ? "storage-state.json" : `sessions/${key}.storage-state.json`;
+}
+
+function metaFile(key: string): string {
+    return key === DEFAULT_ACCOUNT_KEY ? "session.json" : `sessions/${key}.session.json`;
+}
+
+function sessionFor(key: string): AccountSession {
+    let session = sessions.get(key);
+    if (!session) {
+        session = {
+            key,
+            context: null,
+            opening: null,
+            loggedIn: null,
+            lastCheckedAt: null,
+            loginInFlight: null,
+            limiter: createLimiter(env.session.maxConcurrent),
+            mfa: null,
+            lastError: null,
+            meta: readJson<SessionMeta>(metaFile(key), { last_login_at: null })
+        };
+        sessions.set(key, session);
+    }
+    return session;
+}
+
+/** The UBC_USER/UBC_PASS account, or null when those are not set. */
+export function defaultAccount(): SessionAccount | null {
+    return env.ubc.credentials
+        ? { key: DEFAULT_ACCOUNT_KEY, credentials: env.ubc.credentials }
+        : null;
+}
+
+// ------------------------------ BROWSER -------------------------------------
+
+/** The shared Chromium, (re)launching it if it never started or crashed. */
+async function getBrowser(): Promise<Browser> {
+    if (browser?.isConnected()) return browser;
+    if (!launching) {
+        launching = launch().finally(() => {
+            launching = null;
+        });
+    }
+    return launching;
+}
+
+async function launch(): Promise<Browser> {
+    console.log("[session] Launching shared browser…");
+    const launched = await chromium.launch({ headless: true });
+    launched.on("disconnected", () => {
+        console.warn("[session] Browser disconnected; will relaunch on next use");
+        browser = null;
+        for (const session of sessions.values()) {
+            session.context = null;
+            session.loggedIn = null;
+        }
+    });
+    browser = launched;
+    return launched;
+}
+
+/**
+ * The account's long-lived context. Cookies from its last login are
+ * restored from storageState.
+ */
+async function getContext(session: AccountSession): Promise<BrowserContext> {
+    if (browser?.isConnected() && session.context) return session.context;
+    if (!session.opening) {
+        session.opening = (async () => {
+            const shared = await getBrowser();
+            const statePath = dataPath(stateFile(session.key));
+            session.context = await shared.newContext({
+                storageState: fs.existsSync(statePath) ? statePath : undefined,
+                // Scheduler dates are read with the page's local Date methods.
+                timezoneId: FACILITY_TIME_ZONE
+            });
+            return session.context;
+        })().finally(() => {
+            session.opening = null;
+        });
+    }
+    return session.opening;
+}
+
+async function saveStorageState(session: AccountSession, ctx: BrowserContext): Promise<void> {
+    const statePath = dataPath(stateFile(session.key));
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    await ctx.storageState({ path: statePath });
+}
+
+// ------------------------------- LOGIN --------------------------------------
+
+/** Publishes the account's Duo prompt and hands over passcodes as they come in. */
+function mfaHandler(session: AccountSession): MfaHandler {
+    return {
+        started(challenge) {
+            session.mfa = { challenge, passcodes: [] };
+            for (const listener of mfaListeners) {
+                try {
+                    listener(session.key, challenge);
+                } catch (err: any) {
+                    console.warn("[session] MFA listener failed:", err?.message || err);
+                }
+            }
+        },
+        takePasscode() {
+            return session.mfa?.passcodes.shift() ?? null;
+        },
+        ended() {
+            session.mfa = null;
+        }
+    };
+}
+
+/** Run the CWL login on `page`, recording the outcome on the session. */
+async function logIn(
+    session: AccountSession,
+    credentials: UbcCredentials,
+    ctx: BrowserContext,
+    page: Page
+): Promise<Page> {
+    console.log(`[session] ${session.key}: session cookies missing or expired; logging in…`);
+    let authPage: Page;
+    try {
+        authPage = await ensureLoggedIn(ctx, page, credentials, mfaHandler(session));
+    } catch (err: any) {
+        session.loggedIn = false;
+        const failure: LoginFailure = {
+            code: err instanceof LoginError ? err.code : "unknown",
+            stage: err instanceof LoginError ? err.stage : null,
+            message: String(err?.message || err),
+            at: new Date().toISOString()
+        };
+        session.lastError = failure;
+        console.error(`[session] ${session.key}: login failed (${failure.code}): ${failure.message}`);
+        throw new LoginFailedError(failure.code, `Login failed (${failure.code}): ${failure.message}`);
+    }
+
+    session.loggedIn = true;
+    session.lastError = null;
+    session.meta.last_login_at = new Date().toISOString();
+    writeJson(metaFile(session.key), session.meta);
+    await saveStorageState(session, ctx);
+    return authPage;
+}
+
+/**
+ * Make sure `page` (already on BASE_URL) is authenticated. One check/login
+ * per account runs at a time, claimed before anything is awaited; concurrent
+ * callers share its outcome (reloading if it logged in, failing with it if
+ * it failed) instead of starting a login of their own.
+ */
+async function ensureSession(
+    session: AccountSession,
+    credentials: UbcCredentials,
+    ctx: BrowserContext,
+    page: Page
+): Promise<Page> {
+    session.lastCheckedAt = new Date().toISOString();
+
+    const running = session.loginInFlight;
+    if (running) {
+        if (await running) await page.goto(BASE_URL, { waitUntil: "networkidle" });
+        return page;
+    }
+
+    let authPage = page;
+    const attempt = (async () => {
+        if (await isLoggedIn(page)) {
+            session.loggedIn = true;
+            return false;
+        }
+        authPage = await logIn(session, credentials, ctx, page);
+        return true;
+    })();
+    session.loginInFlight = attempt;
+
+    try {
+        await attempt;
+    } finally {
+        if (session.loginInFlight === attempt) session.loginInFlight = null;
+    }
+    return authPage;
+}
+
+// ----------------------------- PUBLIC API -----------------------------------
+
+/**
+ * Run `task` on a fresh page in the account's authenticated context (the
+ * shared UBC_USER account by default), already sitting on the court list.
+ * Tasks beyond SESSION_MAX_CONCURRENT for the same account queue up; other
+ * accounts are not held up (say, by one waiting at a Duo prompt).
+ */
+export async function withSession<T>(
+    task: (page: Page, context: BrowserContext) => Promise<T>,
+    account: SessionAccount | null = defaultAccount()
+): Promise<T> {
+    if (!account) {
+        throw new LoginFailedError("no_credentials", "No UBC credentials configured for this account");
+    }
+    const session = sessionFor(account.key);
+
+    return session.limiter.run(async () => {
+        const ctx = await getContext(session);
+        const page = await ctx.newPage();
+        let workPage = page;
+
+        try {
+            await page.goto(BASE_URL, { waitUntil: "networkidle" });
+            workPage = await ensureSession(session, account.credentials, ctx, page);
+            return await task(workPage, ctx);
+        } finally {
+            await page.close().catch(() => undefined);
+            if (workPage !== page) await workPage.close().catch(() => undefined);
+        }
+    });
+}
+
+/** Subscribe to Duo prompts (to tell the account's owner). */
+export function onMfaChallenge(listener: MfaListener): void {
+    mfaListeners.push(listener);
+}
+
+/**
+ * Hand a Duo passcode to the login waiting on the account's prompt. False
+ * when no login is waiting on one.
+ */
+export function submitMfaPasscode(key: string, passcode: string): boolean {
+    const pending = sessions.get(key)?.mfa;
+    if (!pending) return false;
+    pending.passcodes.push(passcode);
+    return true;
+}
+
+/** Drop an account's context and saved cookies (credentials changed, user disabled). */
+export async function closeSession(key: string): Promise<void> {
+    const session = sessions.get(key);
+    sessions.delete(key);
+    await session?.context?.close().catch(() => undefined);
+    fs.rmSync(dataPath(stateFile(key)), { force: true });
+}
+
+/** Close every account's context and the shared Chromium (tests, shutdown). */
+export async function closeBrowser(): Promise<void> {
+    const running = browser;
+    browser = null;
+    for (const session of sessions.values()) session.context = null;
+    await running?.close().catch(() => undefined);
+}
+
+export async function getSessionStatus(key = DEFAULT_ACCOUNT_KEY): Promise<SessionStatus> {
+    const session = sessionFor(key);
+
+    let cookiesExpireAt: string | null = null;
+    if (session.context) {
+        const host = new URL(BASE_URL).hostname;
+        const expiries = (await session.context.cookies().catch(() => []))
+            .filter((c) => host.endsWith(c.domain.replace(/^\./, "")))
+            .map((c) => c.expires)
+            .filter((e) => e > 0);
+        if (expiries.length > 0) {
+            cookiesExpireAt = new Date(Math.min(...expiries) * 1000).toISOString();
+        }
+    }
+
+    return {
+        account: key,
+        browser_running: Boolean(browser?.isConnected()),
+        logged_in: session.loggedIn,
+        last_login_at: session.meta.last_login_at,
+        last_checked_at: session.lastCheckedAt,
+        cookies_expire_at: cookiesExpireAt,
+        mfa: session.mfa?.challenge ?? null,
+        last_error: session.lastError,
+        active: session.limiter.active,
+        queued: session.limiter.queued
+    };
+}
@@ -0,0 +1,182 @@
+// src/slots.ts
+import type { Slot, SlotTile } from "./ubc";
+import { FACILITY_TIME_ZONE, formatZonedIso, zonedTimeToUtc } from "./time";
+
+export function minutesOfDay(time24: string): number {
+    const [h, m] = time24.split(":").map(Number);
+    return h * 60 + m;
+}
+
+export function formatTime24(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+export type SlotTimes = { start_iso: string; end_iso: string };
+
+/**
+ * Start/end of a facility-local date + start time as ISO timestamps with the
+ * Vancouver offset in force on that day (DST-aware). The end is `minutes`
+ * of elapsed time after the start.
+ */
+export function slotTimes(dateIso: string, time24: string, minutes: number): SlotTimes {
+    const start = zonedTimeToUtc(dateIso, time24, FACILITY_TIME_ZONE);
+    const end = new Date(start.getTime() + minutes * 60_000);
+    return {
+        start_iso: formatZonedIso(start, FACILITY_TIME_ZONE),
+        end_iso: formatZonedIso(end, FACILITY_TIME_ZONE)
+    };
+}
+
+/** Fill in (or recompute) start_iso/end_iso from date_iso, time_24h and minutes. */
+export function withSlotTimes<T extends { date_iso: string; time_24h: string; minutes: number }>(
+    slot: T
+): T & SlotTimes {
+    return { ...slot, ...slotTimes(slot.date_iso, slot.time_24h, slot.minutes) };
+}
+
+function tileOf(slot: Slot): SlotTile {
+    const { tiles: _tiles, ...tile } = slot;
+    return tile;
+}
+
+/** The tiles a slot is made of (a plain single-tile slot is its own tile). */
+export function slotTiles(slot: Slot): SlotTile[] {
+    return slot.tiles ?? [tileOf(slot)];
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        const list = groups.get(k);
+        if (list) list.push(item);
+        else groups.set(k, [item]);
+    }
+    return groups;
+}
+
+/**
+ * Merge back-to-back tiles on the same court and day into one block, so two
+ * free 60-minute tiles satisfy a 120-minute request. Blocks made of more than
+ * one tile list them in `tiles`.
+ */
+export function mergeContiguous(tiles: Slot[]): Slot[] {
+    const blocks: Slot[] = [];
+
+    for (const group of groupBy(tiles, (t) => `${t.location}|${t.date_iso}`).values()) {
+        const sorted = [...group].sort(
+            (a, b) => minutesOfDay(a.time_24h) - minutesOfDay(b.time_24h)
+        );
+
+        let current: SlotTile[] = [];
+        let end = -1;
+
+        const flush = () => {
+            if (current.length === 0) return;
+            const first = current[0];
+            const start = minutesOfDay(first.time_24h);
+            blocks.push({
+                ...withSlotTimes({ ...first, minutes: end - start }),
+                ...(current.length > 1 ? { tiles: current } : {})
+            });
+        };
+
+        for (const slot of sorted) {
+            const start = minutesOfDay(slot.time_24h);
+            if (current.length > 0 && start <= end) {
+                // Same court, touching or overlapping the running block.
+                current.push(...slotTiles(slot));
+                end = Math.max(end, start + slot.minutes);
+                continue;
+            }
+            flush();
+            current = [...slotTiles(slot)];
+            end = start + slot.minutes;
+        }
+        flush();
+    }
+
+    return blocks;
+}
+
+/**
+ * Doubles / group search: start times at which at least `courtsNeeded`
+ * different courts are each free for `minutes` in a row. Each hit is one Slot
+ * whose location names the courts and whose tiles cover every piece to book.
+ */
+export function findGroupSlots(
+    blocks: Slot[],
+    courtsNeeded: number,
+    minutes: number
+): Slot[] {
+    const results: Slot[] = [];
+
+    for (const [dateIso, dayBlocks] of groupBy(blocks, (b) => b.date_iso)) {
+        const starts = new Set<number>();
+        for (const block of dayBlocks) {
+            for (const tile of slotTiles(block)) starts.add(minutesOfDay(tile.time_24h));
+        }
+
+        for (const start of [...starts].sort((a, b) => a - b)) {
+            const end = start + minutes;
+
+            // One covering block per court, courts in name order.
+            const covering = new Map<string, Slot>();
+            for (const block of dayBlocks) {
+                const blockStart = minutesOfDay(block.time_24h);
+                if (blockStart <= start && blockStart + block.minutes >= end && !covering.has(block.location)) {
+                    covering.set(block.location, block);
+                }
+            }
+            if (covering.size < courtsNeeded) continue;
+
+            const chosen = [...covering.values()]
+                .sort((a, b) => a.location.localeCompare(b.location))
+                .slice(0, courtsNeeded);
+
+            const tiles = chosen.flatMap((block) =>
+                slotTiles(block).filter((tile) => {
+                    const tileStart = minutesOfDay(tile.time_24h);
+                    return tileStart < end && tileStart + tile.minutes > start;
+                })
+            );
+
+            results.push({
+                ...withSlotTimes({ date_iso: dateIso, time_24h: formatTime24(start), minutes }),
+                location: chosen.map((b) => b.location).join(" + "),
+                deep_link: null,
+                tiles
+            });
+        }
+    }
+
+    return results;
+}
+
+/** A courts_needed hit: tiles on more than one court. */
+export function isGroupSlot(slot: Slot): boolean {
+    return new Set(slotTiles(slot).map((t) => t.location)).size > 1;
+}
+
+/**
+ * Compact, self-contained reference to a single-court slot
+ * ("202610201800:120:Court 01"), small enough for Telegram callback data.
+ * Group slots (several courts) have no reference.
+ */
+export function encodeSlotRef(slot: Slot): string | null {
+    if (isGroupSlot(slot)) return null;
+    return `${slot.date_iso.replace(/-/g, "")}${slot.time_24h.replace(":", "")}:${slot.minutes}:${slot.location}`;
+}
+
+export function decodeSlotRef(ref: string): Slot | null {
+    const match = ref.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2}):(\d+):(.+)$/);
+    if (!match) return null;
+    const [, y, mo, d, h, mi, minutes, location] = match;
+    return {
+        ...withSlotTimes({ date_iso: `${y}-${mo}-${d}`, time_24h: `${h}:${mi}`, minutes: Number(minutes) }),
+        location,
+        deep_link: null
+    };
+}
@@ -0,0 +1,31 @@
+// src/store.ts
+import fs from "fs";
+import path from "path";
+import { env } from "./config/env";
+
+/**
+ * Tiny JSON-file persistence under DATA_DIR. Files are small (watches,
+ * last-seen slot keys, …) so synchronous reads/writes keep callers simple.
+ */
+export function dataPath(name: string): string {
+    return path.join(env.dataDir, name);
+}
+
+export function readJson<T>(name: string, fallback: T): T {
+    try {
+        return JSON.parse(fs.readFileSync(dataPath(name), "utf8")) as T;
+    } catch (err: any) {
+        if (err?.code === "ENOENT") return fallback;
+        throw new Error(`Could not read ${dataPath(name)}: ${err?.message || err}`);
+    }
+}
+
+/** Write via a temp file + rename so a crash never leaves half a file behind. */
+export function writeJson(name: string, value: unknown): void {
+    const file = dataPath(name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(value, null, 2));
+    fs.renameSync(tmp, file);
+}
@@ -0,0 +1,303 @@
+// src/telegramBot.ts
+//
+// Two-way Telegram bot: chat commands are parsed into Preferences and run
+// through checkAvailability / the watch store; "Book" buttons on slot
+// messages come back as callback queries and go through bookSlot.
+// Updates arrive via POST /telegram/webhook or long polling (TELEGRAM_POLLING).
+import { env } from "./config/env";
+import { checkAvailability, type Preferences } from "./ubc";
+import { bookSlot } from "./booking";
+import { forgetListing } from "./reservations";
+import { createWatch, deleteWatch, listWatches, watchOwner, type Watch } from "./watches";
+import { accountFor, getUser, listUsers, BUILTIN_ADMIN_ID, type User } from "./users";
+import { renderEvent } from "./templates";
+import { decodeSlotRef } from "./slots";
+import { sendTelegram, telegramApi } from "./notifiers/telegram";
+import type { OutgoingMessage } from "./notifiers";
+import { describePreferences, parsePreferences, type ParsedPreferences } from "./parsePreferences";
+
+type TelegramChat = { id: number | string };
+
+export type TelegramUpdate = {
+    update_id: number;
+    message?: {
+        chat: TelegramChat;
+        text?: string;
+    };
+    callback_query?: {
+        id: string;
+        data?: string;
+        message?: { chat: TelegramChat };
+    };
+};
+
+const POLL_TIMEOUT_S = 25;
+const POLL_RETRY_MS = 5_000;
+const DEFAULT_WATCH_INTERVAL_MINUTES = 15;
+
+const HELP = [
+    "Commands:",
+    "/check tomorrow 6-9pm indoor – look for open courts now",
+    "/watch next sat morning 90 min every 10m – get notified when courts open up",
+    "/watches – list this chat's watches",
+    "/cancel <id> – stop a watch",
+    "",
+    "Filters: today, tomorrow, next tue, oct 24, this weekend, after 6pm, 18-21,",
+    "evening, indoor, 90 min / 1.5h (minimum length), courts 3-5, 2 courts (side by side)"
+].join("\n");
+
+// -------------------------------- REPLIES -----------------------------------
+
+async function reply(chatId: string, message: string | OutgoingMessage): Promise<void> {
+    if (typeof message === "string") {
+        await sendTelegram(message, chatId);
+        return;
+    }
+    await sendTelegram(message.text, chatId, {
+        markdown: message.markdown,
+        buttons: message.buttons
+    });
+}
+
+/**
+ * Who a chat acts as. Only chats on TELEGRAM_ALLOWED_CHAT_IDS are heard: a
+ * notify target is just an address anyone can type in, not proof the chat is
+ * theirs. An allowed chat acts as the enabled user whose notify target it
+ * is, else as the built-in admin. null = ignore.
+ */
+function chatUser(chatId: string): User | null {
+    if (!env.telegram?.allowedChatIds.includes(chatId)) return null;
+    const user = listUsers().find((u) => u.enabled && u.notify.telegram_chat_id === chatId);
+    return user ?? getUser(BUILTIN_ADMIN_ID)!;
+}
+
+// --------------------------- ARGUMENT PARSING -------------------------------
+
+/**
+ * "/check next tue after 6pm indoor" → Preferences via parsePreferences.
+ * Chat commands are strict: a word the parser does not know is an error
+ * rather than silently widening the search.
+ */
+function parseArgs(args: string[]): ParsedPreferences {
+    const parsed = parsePreferences(args.join(" "));
+    if (parsed.unrecognized.length > 0) {
+        throw new Error(`I don't understand "${parsed.unrecognized.join(" ")}"`);
+    }
+    return parsed;
+}
+
+/** The parser's guesses, one line each, so the user can correct them. */
+function notes(parsed: ParsedPreferences): string {
+    return parsed.ambiguities.map((a) => `\nℹ️ ${a}`).join("");
+}
+
+function shortId(watch: Watch): string {
+    return watch.id.slice(0, 8);
+}
+
+function chatWatches(chatId: string, user: User): Watch[] {
+    return listWatches().filter(
+        (w) => w.notify.telegram_chat_id === chatId && watchOwner(w) === user.id
+    );
+}
+
+// ------------------------------- COMMANDS -----------------------------------
+
+async function handleCheck(chatId: string, user: User, args: string[]): Promise<void> {
+    const parsed = parseArgs(args);
+    const prefs = { ...user.default_preferences, ...parsed.preferences };
+    await reply(chatId, `🔎 Checking ${describePreferences(prefs)}…${notes(parsed)}`);
+
+    const { slots } = await checkAvailability(prefs, accountFor(user));
+    if (slots.length === 0) {
+        await reply(chatId, "No open courts match right now.");
+        return;
+    }
+    await reply(
+        chatId,
+        renderEvent({
+            type: "slots_found",
+            slots,
+            heading: `🎾 ${slots.length} open court slot${slots.length === 1 ? "" : "s"}`
+        })
+    );
+}
+
+async function handleWatch(chatId: string, user: User, args: string[]): Promise<void> {
+    const parsed = parseArgs(args);
+    const prefs = { ...user.default_preferences, ...parsed.preferences };
+    const { interval_minutes } = parsed;
+    const watch = createWatch({
+        owner_id: user.id,
+        preferences: prefs,
+        interval_minutes: interval_minutes ?? DEFAULT_WATCH_INTERVAL_MINUTES,
+        notify: { telegram_chat_id: chatId }
+    });
+    await reply(
+        chatId,
+        `👀 Watching ${describePreferences(prefs)} every ${watch.interval_minutes} min (id ${shortId(watch)}). /cancel ${shortId(watch)} to stop.${notes(parsed)}`
+    );
+}
+
+async function handleWatches(chatId: string, user: User): Promise<void> {
+    const mine = chatWatches(chatId, user);
+    if (mine.length === 0) {
+        await reply(chatId, "No watches for this chat. Start one with /watch.");
+        return;
+    }
+    const lines = mine.map(
+        (w) =>
+            `• ${shortId(w)}: ${describePreferences(w.preferences)} every ${w.interval_minutes} min${w.enabled ? "" : " (paused)"}${w.last_error ? ` ⚠️ ${w.last_error}` : ""}`
+    );
+    await reply(chatId, lines.join("\n"));
+}
+
+async function handleCancel(chatId: string, user: User, args: string[]): Promise<void> {
+    const prefix = (args[0] ?? "").toLowerCase();
+    if (!prefix) {
+        await reply(chatId, "Usage: /cancel <id> (see /watches)");
+        return;
+    }
+    const matches = chatWatches(chatId, user).filter((w) => w.id.startsWith(prefix));
+    if (matches.length !== 1) {
+        await reply(chatId, matches.length === 0 ? `No watch ${prefix} in this chat.` : `"${prefix}" matches several watches; use more of the id.`);
+        return;
+    }
+    deleteWatch(matches[0].id);
+    await reply(chatId, `🛑 Watch ${shortId(matches[0])} cancelled.`);
+}
+
+async function handleCommand(chatId: string, user: User, text: string): Promise<void> {
+    const [head, ...args] = text.trim().split(/\s+/);
+    // "/check@MyBot" in group chats
+    const command = head.toLowerCase().replace(/@.*$/, "");
+
+    try {
+        switch (command) {
+            case "/start":
+            case "/help":
+                return await reply(chatId, HELP);
+            case "/check":
+                return await handleCheck(chatId, user, args);
+            case "/watch":
+                return await handleWatch(chatId, user, args);
+            case "/watches":
+                return await handleWatches(chatId, user);
+            case "/cancel":
+                return await handleCancel(chatId, user, args);
+            default:
+                if (command.startsWith("/")) {
+                    return await reply(chatId, `Unknown command ${command}.\n\n${HELP}`);
+                }
+        }
+    } catch (err: any) {
+        console.error(`[telegram-bot] ${command} failed:`, err?.message || err);
+        await reply(chatId, `❌ ${err?.message || err}`).catch(() => undefined);
+    }
+}
+
+async function handleBookButton(
+    chatId: string,
+    user: User,
+    queryId: string,
+    data: string
+): Promise<void> {
+    const slot = data.startsWith("book:") ? decodeSlotRef(data.slice(5)) : null;
+    if (!slot) {
+        await telegramApi("answerCallbackQuery", { callback_query_id: queryId, text: "Unknown button" });
+        return;
+    }
+
+    await telegramApi("answerCallbackQuery", {
+        callback_query_id: queryId,
+        text: `Booking ${slot.location} ${slot.date_iso} ${slot.time_24h}…`
+    });
+
+    const account = accountFor(user);
+    const result = await bookSlot({ slot }, account);
+    if (result.status === "booked") forgetListing(account);
+    const message =
+        result.status === "failed"
+            ? renderEvent({ type: "booking_failed", slot, reason: result.reason, detail: result.detail })
+            : renderEvent({
+                type: "booking_confirmed",
+                slot,
+                confirmation_number: result.status === "booked" ? result.confirmation_number : null
+            });
+    await reply(chatId, message);
+}
+
+// -------------------------------- UPDATES -----------------------------------
+
+/** Entry point for both the webhook route and the polling loop. */
+export async function handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+    const query = update.callback_query;
+    const chat = update.message?.chat ?? query?.message?.chat;
+    if (!chat) return;
+
+    const chatId = String(chat.id);
+    const user = chatUser(chatId);
+    if (!user) {
+        console.warn(`[telegram-bot] Ignoring update from chat ${chatId} (not on TELEGRAM_ALLOWED_CHAT_IDS)`);
+        if (query) {
+            await telegramApi("answerCallbackQuery", { callback_query_id: query.id, text: "Not allowed" });
+        }
+        return;
+    }
+
+    if (query) {
+        try {
+            await handleBookButton(chatId, user, query.id, query.data ?? "");
+        } catch (err: any) {
+            console.error("[telegram-bot] Booking from button failed:", err?.message || err);
+            await reply(chatId, `❌ Booking failed: ${err?.message || err}`).catch(() => undefined);
+        }
+        return;
+    }
+
+    const text = update.message?.text;
+    if (text) await handleCommand(chatId, user, text);
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function pollForever(): Promise<never> {
+    // getUpdates is refused while a webhook is registered.
+    await telegramApi("deleteWebhook").catch((err) =>
+        console.warn("[telegram-bot] deleteWebhook failed:", err?.message || err)
+    );
+
+    let offset = 0;
+    for (;;) {
+        try {
+            const updates = await telegramApi<TelegramUpdate[]>(
+                "getUpdates",
+                { offset, timeout: POLL_TIMEOUT_S, allowed_updates: ["message", "callback_query"] },
+                // Telegram holds the request open for up to POLL_TIMEOUT_S
+                (POLL_TIMEOUT_S + 10) * 1000
+            );
+            for (const update of updates) {
+                offset = update.update_id + 1;
+                // Scans take minutes; don't hold up the next poll.
+                handleTelegramUpdate(update).catch((err) =>
+                    console.error("[telegram-bot] Update failed:", err?.message || err)
+                );
+            }
+        } catch (err: any) {
+            console.error("[telegram-bot] getUpdates failed:", err?.message || err);
+            await sleep(POLL_RETRY_MS);
+        }
+    }
+}
+
+/** Start long polling when TELEGRAM_POLLING=true; webhook mode needs nothing here. */
+export function startTelegramBot(): void {
+    if (!env.telegram?.updates) return;
+
+    console.log(
+        `[telegram-bot] Listening via ${env.telegram.updates} for ${env.telegram.allowedChatIds.length} allowed chat(s)`
+    );
+    if (env.telegram.updates === "polling") {
+        void pollForever();
+    }
+}
@@ -0,0 +1,290 @@
+// src/templates.ts
+import { slotToIcs } from "./ics";
+import { encodeSlotRef } from "./slots";
+import { FACILITY_TIME_ZONE } from "./time";
+import type { InlineButton, OutgoingMessage } from "./notifiers";
+import type { Slot } from "./ubc";
+import type { Reservation } from "./reservations";
+import type { MfaMethod } from "./login";
+
+export type NotifyEvent =
+    | {
+        type: "slots_found";
+        slots: Slot[];
+        /** attach an .ics invite for this slot to the email */
+        ics_slot?: Slot;
+        /** replaces the default "N new court slots opened" */
+        heading?: string;
+    }
+    | {
+        type: "booking_confirmed";
+        slot: Slot;
+        confirmation_number: string | null;
+    }
+    | {
+        type: "booking_failed";
+        slot: Slot;
+        reason: string;
+        detail?: string;
+    }
+    | {
+        type: "cancel_deadline";
+        reservation: Reservation;
+    }
+    | {
+        type: "mfa_required";
+        /** UBC account the login runs under */
+        account: string;
+        methods: MfaMethod[];
+        expires_at: string;
+    };
+
+export type EventType = NotifyEvent["type"];
+
+const SUBJECT_PREFIX = "UBC Tennis Booker";
+const MAX_LISTED_SLOTS = 20;
+const MAX_BUTTONS = 8;
+
+// ------------------------------- FORMATTING ---------------------------------
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/** Every character Telegram's MarkdownV2 treats as markup must be escaped. */
+export function escapeMarkdownV2(value: string): string {
+    return value.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
+
+/** "Mon, Oct 19" */
+function formatDate(dateIso: string): string {
+    return new Date(`${dateIso}T00:00:00Z`).toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        timeZone: "UTC"
+    });
+}
+
+function describeSlot(slot: Slot): string {
+    return `${formatDate(slot.date_iso)} ${slot.time_24h} (${slot.minutes} min) – ${slot.location}`;
+}
+
+/** "Mon, Oct 19 6:00 PM" from an ISO timestamp with offset, in facility time. */
+function formatDeadline(iso: string): string {
+    return new Date(iso).toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: FACILITY_TIME_ZONE
+    });
+}
+
+function describeReservation(reservation: Reservation): string {
+    return `${formatDate(reservation.date_iso)} ${reservation.time_24h} (${reservation.minutes} min) – ${reservation.court}`;
+}
+
+/** Telegram callback data is limited to 64 bytes. */
+export function bookCallbackData(slot: Slot): string | null {
+    const ref = encodeSlotRef(slot);
+    if (!ref) return null;
+    const data = `book:${ref}`;
+    return Buffer.byteLength(data) <= 64 ? data : null;
+}
+
+function slotButtons(slots: Slot[]): InlineButton[][] {
+    return slots
+        .map((s) => ({
+            text: `Book ${formatDate(s.date_iso)} ${s.time_24h} · ${s.location}`,
+            url: s.deep_link ?? undefined,
+            callback_data: bookCallbackData(s) ?? undefined
+        }))
+        .filter((b) => b.url || b.callback_data)
+        .slice(0, MAX_BUTTONS)
+        .map((b) => [b]);
+}
+
+function htmlDocument(heading: string, body: string): string {
+    return `<!doctype html>
+<html>
+<body style="font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #1f2933;">
+<h2 style="margin: 0 0 12px;">${escapeHtml(heading)}</h2>
+${body}
+<p style="color: #7b8794; font-size: 12px;">Sent by ${SUBJECT_PREFIX}</p>
+</body>
+</html>`;
+}
+
+function htmlSlotTable(slots: Slot[]): string {
+    const rows = slots
+        .map((s) => {
+            const link = s.deep_link
+                ? `<a href="${escapeHtml(s.deep_link)}">Book</a>`
+                : "";
+            return `<tr><td>${escapeHtml(formatDate(s.date_iso))}</td><td>${s.time_24h}</td><td>${s.minutes} min</td><td>${escapeHtml(s.location)}</td><td>${link}</td></tr>`;
+        })
+        .join("\n");
+    return `<table cellpadding="6" style="border-collapse: collapse;">
+<tr style="text-align: left;"><th>Date</th><th>Time</th><th>Length</th><th>Court</th><th></th></tr>
+${rows}
+</table>`;
+}
+
+function icsAttachment(slot: Slot, summary?: string) {
+    return {
+        filename: `tennis-${slot.date_iso}-${slot.time_24h.replace(":", "")}.ics`,
+        content: slotToIcs(slot, summary),
+        content_type: "text/calendar; charset=utf-8; method=PUBLISH"
+    };
+}
+
+// ------------------------------- TEMPLATES ----------------------------------
+
+type TemplateMap = {
+    [K in EventType]: (event: Extract<NotifyEvent, { type: K }>) => OutgoingMessage;
+};
+
+const templates: TemplateMap = {
+    slots_found: (event) => {
+        const { slots } = event;
+        const heading =
+            event.heading ??
+            `🎾 ${slots.length} new court slot${slots.length === 1 ? "" : "s"} opened`;
+        const listed = slots.slice(0, MAX_LISTED_SLOTS);
+        const more = slots.length - listed.length;
+        const moreLine = more > 0 ? `…and ${more} more` : null;
+
+        const text = [
+            `${heading}:`,
+            ...listed.map((s) => `• ${describeSlot(s)}`),
+            ...(moreLine ? [moreLine] : [])
+        ].join("\n");
+
+        const markdown = [
+            `*${escapeMarkdownV2(heading)}*`,
+            ...listed.map((s) => `• ${escapeMarkdownV2(describeSlot(s))}`),
+            ...(moreLine ? [escapeMarkdownV2(moreLine)] : [])
+        ].join("\n");
+
+        return {
+            event: event.type,
+            priority: "info",
+            subject: `${SUBJECT_PREFIX}: ${slots.length} new slot${slots.length === 1 ? "" : "s"}`,
+            text,
+            markdown,
+            html: htmlDocument(
+                heading,
+                htmlSlotTable(listed) +
+                    (moreLine ? `\n<p>${escapeHtml(moreLine)}</p>` : "")
+            ),
+            buttons: slotButtons(listed),
+            attachments: event.ics_slot ? [icsAttachment(event.ics_slot)] : undefined
+        };
+    },
+
+    booking_confirmed: (event) => {
+        const { slot } = event;
+        const confirmation = event.confirmation_number ?? "n/a";
+        const heading = "✅ Court booked";
+
+        return {
+            event: event.type,
+            priority: "warn",
+            subject: `${SUBJECT_PREFIX}: booked ${slot.location} on ${formatDate(slot.date_iso)} ${slot.time_24h}`,
+            text: `${heading}: ${describeSlot(slot)}. Confirmation: ${confirmation}`,
+            markdown: [
+                `*${escapeMarkdownV2(heading)}*`,
+                escapeMarkdownV2(describeSlot(slot)),
+                `Confirmation: \`${escapeMarkdownV2(confirmation)}\``
+            ].join("\n"),
+            html: htmlDocument(
+                heading,
+                `${htmlSlotTable([slot])}\n<p>Confirmation: <strong>${escapeHtml(confirmation)}</strong></p>`
+            ),
+            buttons: slot.deep_link
+                ? [[{ text: "Open in PerfectMind", url: slot.deep_link }]]
+                : undefined,
+            attachments: [icsAttachment(slot)]
+        };
+    },
+
+    booking_failed: (event) => {
+        const { slot } = event;
+        const heading = "⚠️ Booking failed";
+        const why = event.detail ? `${event.reason} (${event.detail})` : event.reason;
+
+        return {
+            event: event.type,
+            priority: "warn",
+            subject: `${SUBJECT_PREFIX}: booking failed for ${slot.location} on ${formatDate(slot.date_iso)}`,
+            text: `${heading}: ${describeSlot(slot)}. Reason: ${why}`,
+            markdown: [
+                `*${escapeMarkdownV2(heading)}*`,
+                escapeMarkdownV2(describeSlot(slot)),
+                `Reason: ${escapeMarkdownV2(why)}`
+            ].join("\n"),
+            html: htmlDocument(
+                heading,
+                `${htmlSlotTable([slot])}\n<p>Reason: ${escapeHtml(why)}</p>`
+            ),
+            buttons: slotButtons([slot]).map((row) =>
+                row.map((b) => ({ ...b, text: "Try again" }))
+            )
+        };
+    },
+
+    cancel_deadline: (event) => {
+        const { reservation } = event;
+        const heading = "⏰ Cancellation deadline coming up";
+        const deadline = formatDeadline(reservation.cancel_deadline!);
+        const confirmation = reservation.confirmation_number ?? "n/a";
+        const how = `Cancel by ${deadline} (DELETE /bookings/${reservation.id}) or keep the court.`;
+
+        return {
+            event: event.type,
+            priority: "warn",
+            subject: `${SUBJECT_PREFIX}: cancel ${reservation.court} on ${formatDate(reservation.date_iso)} by ${deadline}`,
+            text: `${heading}: ${describeReservation(reservation)}. Confirmation: ${confirmation}. ${how}`,
+            markdown: [
+                `*${escapeMarkdownV2(heading)}*`,
+                escapeMarkdownV2(describeReservation(reservation)),
+                `Confirmation: \`${escapeMarkdownV2(confirmation)}\``,
+                escapeMarkdownV2(how)
+            ].join("\n"),
+            html: htmlDocument(
+                heading,
+                `<p>${escapeHtml(describeReservation(reservation))}</p>\n<p>Confirmation: <strong>${escapeHtml(confirmation)}</strong></p>\n<p>${escapeHtml(how)}</p>`
+            )
+        };
+    },
+
+    mfa_required: (event) => {
+        const heading = "🔐 Duo approval needed";
+        const until = formatDeadline(event.expires_at);
+        const what = `The UBC login for account "${event.account}" is waiting at the Duo prompt.`;
+        const how = event.methods.includes("push")
+            ? `Approve the Duo push, or send a passcode (POST /session/mfa), by ${until}.`
+            : `Send a Duo passcode (POST /session/mfa) by ${until}.`;
+
+        return {
+            event: event.type,
+            priority: "urgent",
+            subject: `${SUBJECT_PREFIX}: Duo approval needed by ${until}`,
+            text: `${heading}: ${what} ${how}`,
+            markdown: [`*${escapeMarkdownV2(heading)}*`, escapeMarkdownV2(what), escapeMarkdownV2(how)].join("\n"),
+            html: htmlDocument(heading, `<p>${escapeHtml(what)}</p>\n<p>${escapeHtml(how)}</p>`)
+        };
+    }
+};
+
+/** Render an event into every format the channels understand. */
+export function renderEvent(event: NotifyEvent): OutgoingMessage {
+    const template = templates[event.type] as (e: NotifyEvent) => OutgoingMessage;
+    return template(event);
+}
@@ -0,0 +1,104 @@
+// src/time.ts
+
+/** PerfectMind shows UBC court times in Vancouver local time. */
+export const FACILITY_TIME_ZONE = "America/Vancouver";
+
+export type ZonedParts = {
+    /** YYYY-MM-DD in the zone */
+    dateIso: string;
+    /** minutes since local midnight in the zone */
+    minutes: number;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Wall-clock date and time of `date` as seen in an IANA time zone. */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts = new Intl.DateTimeFormat("en-CA", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23"
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+    return {
+        dateIso: `${get("year")}-${get("month")}-${get("day")}`,
+        minutes: Number(get("hour")) * 60 + Number(get("minute"))
+    };
+}
+
+/** Today's date at the facility; the server's own clock may be in UTC. */
+export function facilityToday(now: Date = new Date()): string {
+    return zonedParts(now, FACILITY_TIME_ZONE).dateIso;
+}
+
+export function addDaysIso(dateIso: string, days: number): string {
+    const d = new Date(`${dateIso}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether `minutes` (since midnight) falls inside [start, end). Windows that
+ * wrap past midnight (22:00–07:00) are handled.
+ */
+export function inDailyWindow(minutes: number, start: number, end: number): boolean {
+    if (start === end) return false;
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+}
+
+/** `timeZone`'s UTC offset at `ms`, in milliseconds (negative west of UTC). */
+function offsetAt(ms: number, timeZone: string): number {
+    const seen = zonedParts(new Date(ms), timeZone);
+    return Date.parse(`${seen.dateIso}T00:00:00Z`) + seen.minutes * 60_000 - Math.floor(ms / 60_000) * 60_000;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads `dateIso` `time24`.
+ * A time that occurs twice (fall back) is its first occurrence; one skipped
+ * by spring forward lands as far past the gap as it was into it (02:30 →
+ * 03:30), as Temporal's "compatible" disambiguation does.
+ */
+export function zonedTimeToUtc(dateIso: string, time24: string, timeZone: string): Date {
+    const [y, mo, d] = dateIso.split("-").map(Number);
+    const [h, mi] = time24.split(":").map(Number);
+    const wanted = Date.UTC(y, mo - 1, d, h, mi);
+
+    // The offsets on either side of any transition near the wanted time
+    const before = offsetAt(wanted - 12 * 3_600_000, timeZone);
+    const after = offsetAt(wanted + 12 * 3_600_000, timeZone);
+
+    const matches = [before, after]
+        .map((offset) => wanted - offset)
+        .filter((instant) => instant + offsetAt(instant, timeZone) === wanted);
+    return new Date(matches.length > 0 ? Math.min(...matches) : wanted - before);
+}
+
+/**
+ * Wall-clock time of `instant` in `timeZone` with that zone's UTC offset at
+ * the time, e.g. "2026-10-20T18:00:00-07:00". Seconds are dropped.
+ */
+export function formatZonedIso(instant: Date, timeZone: string): string {
+    const { dateIso, minutes } = zonedParts(instant, timeZone);
+    const offset = offsetAt(instant.getTime(), timeZone) / 60_000;
+
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const abs = Math.abs(offset);
+    return (
+        `${dateIso}T${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:00` +
+        `${offset < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+    );
+}
@@ -1,138 +1,196 @@
-import { chromium, BrowserContext, Page, Locator } from "playwright";
-
+import { BrowserContext, Page, Locator } from "playwright";
+import { BASE_URL } from "./login";
+import {
+    withSession,
+    getSessionStatus,
+    defaultAccount,
+    DEFAULT_ACCOUNT_KEY,
+    type SessionAccount
+} from "./session";
+import { createLimiter, withTimeout } from "./concurrency";
+import { env } from "./config/env";
+import { getCourtCatalog, selectCourts, type CourtInfo } from "./courts";
+import { mergeContiguous, findGroupSlots, minutesOfDay, withSlotTimes } from "./slots";
+import { addDaysIso, facilityToday } from "./time";
+import { recordScan, type CourtObservation } from "./history";
+import { checkPage, cssSelector, locate, UNAVAILABLE_CLASSES } from "./selectors";
+
+/** Dates and hours are facility-local (America/Vancouver). */
 export type Preferences = {
     days_ahead?: number;
+    /** slots must start at or after this hour */
     start_hour?: number;
+    /** slots must end by this hour */
     end_hour?: number;
     min_minutes?: number;
     indoor_only?: boolean;
     locations?: string[];
     dates?: string[];
+    /** only return start times where this many courts are free together */
+    courts_needed?: number;
 };
 
 export type Slot = {
+    /** facility-local day */
     date_iso: string;
+    /** facility-local start */
     time_24h: string;
     minutes: number;
+    /** start with its UTC offset, e.g. 2026-10-20T18:00:00-07:00 */
+    start_iso: string;
+    end_iso: string;
     location: string;
     deep_link: string | null;
+    /** PerfectMind tiles behind a merged block or multi-court group */
+    tiles?: SlotTile[];
 };
 
-const BASE_URL =
-    process.env.UBC_BASE_URL ??
-    "https://ubc.perfectmind.com/24063/Clients/BookMe4FacilityList/List?calendarId=e65c1527-c4f8-4316-b6d6-3b174041f00e&widgetId=c7c36ee3-2494-4de2-b2cb-d50a86487656&embed=False&singleCalendarWidget=true";
-
-// ------------------------------ LOGIN FLOW ----------------------------------
-
-async function ensureLoggedIn(
-    context: BrowserContext,
-    page: Page
-): Promise<Page> {
-    console.log("[ubc] Checking login state…");
-
-    // If the header has a visible "Login" button/link, we're NOT logged in.
-    const loginButton = page.locator('text=Login').first();
-    const loginVisible = await loginButton
-        .isVisible()
-        .catch(() => false);
-
-    if (!loginVisible) {
-        console.log("[ubc] Already logged in (no Login button visible)");
-        return page;
-    }
-
-    console.log("[ubc] Clicking Login (URL1 → URL2: Login Portal)…");
-    const [maybeNewPage] = await Promise.all([
-        context.waitForEvent("page").catch(() => null),
-        loginButton.click()
-    ]);
-
-    let authPage: Page = maybeNewPage ?? page;
-    await authPage.waitForLoadState("domcontentloaded");
-
-    // --- URL2: Login Portal – click "CWL Login" ---
-    console.log("[ubc] Looking for 'CWL Login' button on Login Portal…");
-
-    const candidates: Locator[] = [
-        authPage.getByRole("button", { name: /cwl login/i }),
-        authPage.getByRole("link", { name: /cwl login/i }),
-        authPage.locator('a:has(img[alt*="CWL"])'),
-        authPage.locator('img[alt*="CWL"]').locator("xpath=ancestor::a[1]")
-    ];
-
-    let cwlButton: Locator | null = null;
-    for (const cand of candidates) {
-        const first = cand.first();
-        if (await first.isVisible().catch(() => false)) {
-            cwlButton = first;
-            break;
-        }
-    }
-
-    if (cwlButton) {
-        console.log("[ubc] Clicking CWL Login (URL2 → URL3)…");
-        const [maybeCwlPage] = await Promise.all([
-            context.waitForEvent("page").catch(() => null),
-            cwlButton.click()
-        ]);
-        if (maybeCwlPage) authPage = maybeCwlPage;
-        await authPage.waitForLoadState("domcontentloaded");
-    } else {
-        console.warn(
-            "[ubc] Could not find CWL Login button; continuing on current page."
-        );
-    }
+/** One bookable "Book Now" tile as PerfectMind shows it. */
+export type SlotTile = Omit<Slot, "tiles">;
 
-    // --- URL3: CWL Authentication – fill username/password ---
-    const user = process.env.UBC_USER || "";
-    const pass = process.env.UBC_PASS || "";
-    if (!user || !pass) {
-        throw new Error("UBC_USER and UBC_PASS must be set in environment");
-    }
-
-    console.log("[ubc] Looking for CWL username/password fields (URL3)…");
-
-    const usernameLocator = authPage.locator(
-        'input[name="username"], #username, input[id*="Login"], input[id*="User"]'
-    );
-    const passwordLocator = authPage.locator(
-        'input[name="password"], #password, input[type="password"]'
-    );
+export type CourtScan = {
+    court: string;
+    url: string | null;
+    status: "scanned" | "skipped" | "failed";
+    slots: number;
+    /** why a court was skipped or how its scan failed */
+    detail?: string;
+};
 
-    await usernameLocator.waitFor({ timeout: 60000 });
-    await passwordLocator.waitFor({ timeout: 60000 });
+export type FilterReason =
+    | "not_visible"
+    | "unavailable"
+    | "outside_hours"
+    | "too_short"
+    | "outside_dates"
+    | "unparseable";
+
+export type ScanDiagnostics = {
+    courts_seen: number;
+    book_now_spans: number;
+    /** "Book Now" spans dropped, by reason */
+    filtered: Record<FilterReason, number>;
+    slots_returned: number;
+    login: {
+        logged_in: boolean | null;
+        last_login_at: string | null;
+        /** whether this check had to run the CWL login */
+        relogged: boolean;
+    };
+    timing: {
+        started_at: string;
+        finished_at: string | null;
+        /** queueing for the shared session + any login */
+        session_ready_ms: number | null;
+        total_ms: number | null;
+    };
+    /** scanner log lines, oldest first (capped) */
+    events: string[];
+};
 
-    console.log("[ubc] Filling CWL credentials…");
-    await usernameLocator.fill(user);
-    await passwordLocator.fill(pass);
+/** What a running scan reports as it goes (see checkAvailability's onProgress). */
+export type ScanProgress =
+    | { type: "session_ready"; ms: number }
+    | { type: "courts_selected"; scanning: string[]; skipped: CourtScan[] }
+    | { type: "court_started"; court: string; index: number; total: number }
+    /** slots are this court's blocks before any courts_needed grouping */
+    | { type: "court_done"; report: CourtScan; slots: Slot[] };
+
+export type CheckResult = {
+    slots: Slot[];
+    courts: CourtScan[];
+    diagnostics: ScanDiagnostics;
+};
 
-    const submitButton = authPage
-        .getByRole("button", { name: /login|sign in|submit/i })
-        .first();
+/** Identity of a slot across scans (court + day + start + length). */
+export function slotKey(slot: Slot): string {
+    return `${slot.location}|${slot.date_iso}|${slot.time_24h}|${slot.minutes}`;
+}
 
-    console.log("[ubc] Submitting CWL form…");
-    await submitButton.click();
+// ------------------------------ SCAN TRACE ----------------------------------
 
-    // Wait for SAML + Duo + redirect chain to finish.
-    await authPage.waitForLoadState("networkidle", { timeout: 60000 });
+const MAX_TRACE_EVENTS = 500;
 
-    // --- Back to URL4: courts list (logged in) ---
-    const baseNoQuery = BASE_URL.split("?")[0];
-    if (!authPage.url().startsWith(baseNoQuery)) {
-        console.log(
-            "[ubc] Navigating back to court list after login…",
-            authPage.url()
-        );
-        await authPage.goto(BASE_URL, { waitUntil: "networkidle" });
-    }
+/**
+ * Per-check log sink: every line still goes to stdout, but is also kept in
+ * the diagnostics returned to the caller, and filter decisions are counted.
+ */
+type ScanTrace = {
+    diagnostics: ScanDiagnostics;
+    log(message: string): void;
+    warn(message: string): void;
+    filtered(reason: FilterReason, message: string): void;
+    progress(event: ScanProgress): void;
+};
 
-    console.log("[ubc] Login flow complete; back on court list (URL4).");
-    return authPage;
+function createScanTrace(onProgress?: (event: ScanProgress) => void): ScanTrace {
+    const diagnostics: ScanDiagnostics = {
+        courts_seen: 0,
+        book_now_spans: 0,
+        filtered: {
+            not_visible: 0,
+            unavailable: 0,
+            outside_hours: 0,
+            too_short: 0,
+            outside_dates: 0,
+            unparseable: 0
+        },
+        slots_returned: 0,
+        login: { logged_in: null, last_login_at: null, relogged: false },
+        timing: {
+            started_at: new Date().toISOString(),
+            finished_at: null,
+            session_ready_ms: null,
+            total_ms: null
+        },
+        events: []
+    };
+
+    const keep = (line: string) => {
+        if (diagnostics.events.length < MAX_TRACE_EVENTS) {
+            diagnostics.events.push(line);
+        }
+    };
+
+    return {
+        diagnostics,
+        log(message) {
+            console.log(`[ubc] ${message}`);
+            keep(message);
+        },
+        warn(message) {
+            console.warn(`[ubc] ${message}`);
+            keep(`WARN ${message}`);
+        },
+        filtered(reason, message) {
+            diagnostics.filtered[reason]++;
+            this.log(message);
+        },
+        progress(event) {
+            // A listener bug must not break the scan.
+            try {
+                onProgress?.(event);
+            } catch (err: any) {
+                console.warn(`[ubc] Progress listener failed: ${err?.message || err}`);
+            }
+        }
+    };
 }
 
 // ------------------------ SCHEDULER PARSING HELPERS -------------------------
 
-function to24h(time12: string): string | null {
+/** The parts of PerfectMind's Kendo UI scheduler widget read in the page. */
+type KendoScheduler = {
+    occurrenceByUid(uid: string): { start?: Date | string } | undefined;
+    view(): { startDate(): Date; endDate(): Date };
+};
+
+/** The page's window; PerfectMind loads jQuery, which holds the Kendo widgets. */
+type KendoWindow = Window & {
+    jQuery?: (el: Element) => { data(key: "kendoScheduler"): KendoScheduler | undefined };
+};
+
+export function to24h(time12: string): string | null {
     // "03:00 PM" -> "15:00"
     const m = time12.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
     if (!m) return null;
@@ -144,32 +202,225 @@ function to24h(time12: string): string | null {
     return `${h.toString().padStart(2, "0")}:${mm}`;
 }
 
-function durationMinutes(start24: string, end24: string): number {
+export function durationMinutes(start24: string, end24: string): number {
     const [sh, sm] = start24.split(":").map(Number);
     const [eh, em] = end24.split(":").map(Number);
     return (eh * 60 + em) - (sh * 60 + sm);
 }
 
+/**
+ * Why a tile falls outside the start_hour/end_hour window (the whole tile
+ * must fit), or null when it is inside.
+ */
+export function outsideHours(
+    start24: string,
+    end24: string,
+    minutes: number,
+    prefs: Pick<Preferences, "start_hour" | "end_hour">
+): string | null {
+    const startMin = minutesOfDay(start24);
+    if (prefs.start_hour !== undefined && startMin < prefs.start_hour * 60) {
+        return `starts ${start24}, before ${prefs.start_hour}:00`;
+    }
+    if (prefs.end_hour !== undefined && startMin + minutes > prefs.end_hour * 60) {
+        return `ends ${end24}, after ${prefs.end_hour}:00`;
+    }
+    return null;
+}
+
+/** Every “Book Now” span under the scheduler’s booking template. */
+export async function bookNowTiles(page: Page): Promise<Locator> {
+    return (await locate(page, "book_now_tile")).filter({ hasText: /Book Now/i });
+}
+
+/**
+ * Parse a tile title such as "03:00 PM-04:00 PM" into 24h start/end + minutes.
+ */
+export function parseTileTitle(
+    title: string
+): { start24: string; end24: string; minutes: number } | null {
+    const match = title.match(
+        /([0-9]{1,2}:[0-9]{2}\s*(?:AM|PM))\s*-\s*([0-9]{1,2}:[0-9]{2}\s*(?:AM|PM))/i
+    );
+    if (!match) return null;
+
+    const start24 = to24h(match[1]);
+    const end24 = to24h(match[2]);
+    if (!start24 || !end24) return null;
+
+    return { start24, end24, minutes: durationMinutes(start24, end24) };
+}
+
+/**
+ * Whether a "Book Now" tile is actually bookable: its event container must not
+ * carry unavailable/booked classes, be hidden, or refuse pointer events.
+ */
+export async function isTileAvailable(span: Locator): Promise<boolean> {
+    const markup = { container: cssSelector("tile_container"), unavailable: UNAVAILABLE_CLASSES.source };
+    return span.evaluate((el, { container, unavailable }) => {
+        const parent = (el as HTMLElement).closest(container);
+        if (!parent) return true; // If no parent found, assume available
+        
+        // Check for disabled/unavailable indicators in class names
+        const classes = parent.className || '';
+        const hasUnavailable = new RegExp(unavailable, "i").test(classes);
+        
+        // Check if parent is visible and not hidden
+        const style = window.getComputedStyle(parent);
+        const isHidden = style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) < 0.1;
+        
+        // Check for pointer-events: none (indicates not clickable)
+        const hasNoPointerEvents = style.pointerEvents === 'none';
+        
+        // Check if parent has aria-disabled or disabled attribute
+        const isDisabled = parent.hasAttribute('disabled') || parent.getAttribute('aria-disabled') === 'true';
+        
+        return !hasUnavailable && !isHidden && !hasNoPointerEvents && !isDisabled;
+    }, markup);
+}
+
+/**
+ * Calendar day of a scheduler tile: the Kendo event behind the tile first,
+ * then an ancestor with data-date. Empty string when neither is available.
+ */
+export async function resolveTileDate(span: Locator): Promise<string> {
+    return span.evaluate((el, schedulerCss) => {
+        const fmt = (d: Date) =>
+            `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+        const $ = (window as KendoWindow).jQuery;
+        const root = (el as HTMLElement).closest(schedulerCss);
+        const scheduler =
+            typeof $ === "function" && root ? $(root).data("kendoScheduler") : null;
+        const uid = (el as HTMLElement)
+            .closest<HTMLElement>("[data-uid]")
+            ?.getAttribute("data-uid");
+        if (scheduler && uid) {
+            const event = scheduler.occurrenceByUid(uid);
+            if (event?.start) return fmt(new Date(event.start));
+        }
+
+        const dateNode =
+            (el as HTMLElement).closest<HTMLElement>("[data-date]");
+        const raw = dateNode?.getAttribute("data-date") || "";
+        if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+        return "";
+    }, cssSelector("scheduler"));
+}
+
+// ----------------------- DATE RANGE + NAVIGATION ----------------------------
+
+type SchedulerRange = { start: string; end: string };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Calendar days a request covers:
+ *   - explicit `dates` win (deduped, sorted, past/invalid entries dropped)
+ *   - otherwise today plus the next `days_ahead` days (default: today only)
+ * "Today" is the facility's, not the server's (often UTC) date.
+ */
+function resolveTargetDates(prefs: Preferences): string[] {
+    const todayIso = facilityToday();
+
+    if (prefs.dates && prefs.dates.length > 0) {
+        const valid = prefs.dates.filter(
+            (d) => ISO_DATE.test(d) && d >= todayIso
+        );
+        return Array.from(new Set(valid)).sort();
+    }
+
+    const daysAhead = prefs.days_ahead ?? 0;
+    const dates: string[] = [];
+    for (let i = 0; i <= daysAhead; i++) {
+        dates.push(addDaysIso(todayIso, i));
+    }
+    return dates;
+}
+
+/**
+ * First and last calendar day the scheduler is currently showing.
+ * Prefers the Kendo widget's own view range; falls back to the data-date
+ * attributes rendered into the scheduler table.
+ */
+async function getSchedulerRange(page: Page): Promise<SchedulerRange | null> {
+    return page
+        .evaluate((schedulerCss) => {
+            const fmt = (d: Date) =>
+                `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+            const root = document.querySelector(schedulerCss);
+            if (!root) return null;
+
+            const $ = (window as KendoWindow).jQuery;
+            const scheduler =
+                typeof $ === "function" ? $(root).data("kendoScheduler") : null;
+            if (scheduler) {
+                const view = scheduler.view();
+                return { start: fmt(view.startDate()), end: fmt(view.endDate()) };
+            }
+
+            const dates = Array.from(
+                root.querySelectorAll("[data-date]")
+            )
+                .map((el) => el.getAttribute("data-date") || "")
+                .filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d))
+                .sort();
+            if (dates.length === 0) return null;
+            return { start: dates[0], end: dates[dates.length - 1] };
+        }, cssSelector("scheduler"))
+        .catch(() => null);
+}
+
+/**
+ * Page the scheduler (toolbar prev/next arrows) until `dateIso` is visible.
+ * Going through the toolbar rather than widget.date() keeps PerfectMind's own
+ * navigate handler in charge of fetching that range's bookings.
+ */
+export async function gotoSchedulerDate(
+    page: Page,
+    dateIso: string,
+    maxSteps = 21
+): Promise<SchedulerRange | null> {
+    for (let step = 0; step <= maxSteps; step++) {
+        const range = await getSchedulerRange(page);
+        if (!range) return null;
+        if (dateIso >= range.start && dateIso <= range.end) return range;
+
+        const arrow = (
+            await locate(page, dateIso > range.end ? "scheduler_nav_next" : "scheduler_nav_prev")
+        ).first();
+        if (!(await arrow.isVisible().catch(() => false))) return null;
+
+        await arrow.click();
+        await page.waitForLoadState("networkidle").catch(() => undefined);
+    }
+    return null;
+}
+
 /**
  * On a facility page, scan for
  *   <span title="03:00 PM-04:00 PM">Book Now</span>
- * tiles and turn them into Slot objects.
+ * tiles and turn them into single-tile Slot objects. Duration is judged
+ * later, once adjacent tiles have been merged into blocks.
  */
 async function extractSlotsFromScheduler(
     page: Page,
     prefs: Preferences,
-    courtLabel: string
+    courtLabel: string,
+    wantedDates: Set<string>,
+    fallbackDate: string | null,
+    trace: ScanTrace
 ): Promise<Slot[]> {
     const slots: Slot[] = [];
 
     // Every “Book Now” span under the scheduler’s booking template.
-    const bookNowSpans = page
-        .locator("#scheduler .k-event-template.facility-booking-slot span")
-        .filter({ hasText: /Book Now/i });
+    const bookNowSpans = await bookNowTiles(page);
 
     const count = await bookNowSpans.count();
-    console.log(
-        `[ubc] Found ${count} "Book Now" spans on court "${courtLabel}"`
+    trace.diagnostics.book_now_spans += count;
+    trace.log(
+        `Found ${count} "Book Now" spans on court "${courtLabel}"`
     );
 
     for (let i = 0; i < count; i++) {
@@ -178,267 +429,349 @@ async function extractSlotsFromScheduler(
         // First check if the span is actually visible
         const isVisible = await span.isVisible().catch(() => false);
         if (!isVisible) {
-            console.log(`[ubc] Skipping span ${i + 1}/${count} on "${courtLabel}": not visible`);
+            trace.filtered("not_visible", `Skipping span ${i + 1}/${count} on "${courtLabel}": not visible`);
             continue;
         }
         
         // Verify the text content is actually "Book Now" (case-insensitive)
         const textContent = (await span.innerText().catch(() => "")).trim();
         if (!/^book\s+now$/i.test(textContent)) {
-            console.log(`[ubc] Skipping span ${i + 1}/${count} on "${courtLabel}": text content "${textContent}" doesn't match "Book Now"`);
+            trace.filtered("unparseable", `Skipping span ${i + 1}/${count} on "${courtLabel}": text content "${textContent}" doesn't match "Book Now"`);
             continue;
         }
         
         // Check if the slot is actually available/bookable
         // Look for parent elements that might indicate unavailable/booked slots
-        const isAvailable = await span.evaluate((el) => {
-            const parent = (el as HTMLElement).closest('.facility-booking-slot, .k-event-template, [class*="event"]');
-            if (!parent) return true; // If no parent found, assume available
-            
-            // Check for disabled/unavailable indicators in class names
-            const classes = parent.className || '';
-            const hasUnavailable = /unavailable|disabled|booked|reserved|full|past|expired/i.test(classes);
-            
-            // Check if parent is visible and not hidden
-            const style = window.getComputedStyle(parent);
-            const isHidden = style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) < 0.1;
-            
-            // Check for pointer-events: none (indicates not clickable)
-            const hasNoPointerEvents = style.pointerEvents === 'none';
-            
-            // Check if parent has aria-disabled or disabled attribute
-            const isDisabled = parent.hasAttribute('disabled') || parent.getAttribute('aria-disabled') === 'true';
-            
-            return !hasUnavailable && !isHidden && !hasNoPointerEvents && !isDisabled;
-        });
+        const isAvailable = await isTileAvailable(span);
         
         if (!isAvailable) {
-            console.log(`[ubc] Skipping span ${i + 1}/${count} on "${courtLabel}": slot appears unavailable/disabled`);
+            trace.filtered("unavailable", `Skipping span ${i + 1}/${count} on "${courtLabel}": slot appears unavailable/disabled`);
             continue;
         }
         
         const titleAttr = (await span.getAttribute("title")) || "";
-        console.log(`[ubc] Processing span ${i + 1}/${count} on "${courtLabel}": title="${titleAttr}"`);
-
-        // e.g. "03:00 PM-04:00 PM"
-        const match = titleAttr.match(
-            /([0-9]{1,2}:[0-9]{2}\s*(?:AM|PM))\s*-\s*([0-9]{1,2}:[0-9]{2}\s*(?:AM|PM))/
-        );
-        if (!match) {
-            console.warn(
-                `[ubc] Could not parse time range from title="${titleAttr}" on "${courtLabel}"`
-            );
-            continue;
-        }
+        trace.log(`Processing span ${i + 1}/${count} on "${courtLabel}": title="${titleAttr}"`);
 
-        const start24 = to24h(match[1]);
-        const end24 = to24h(match[2]);
-        if (!start24 || !end24) {
-            console.warn(
-                `[ubc] Failed 12h→24h conversion for title="${titleAttr}" on "${courtLabel}" (start24=${start24}, end24=${end24})`
+        const times = parseTileTitle(titleAttr);
+        if (!times) {
+            trace.filtered(
+                "unparseable",
+                `Could not parse time range from title="${titleAttr}" on "${courtLabel}"`
             );
             continue;
         }
 
-        const mins = durationMinutes(start24, end24);
-        console.log(`[ubc] Parsed time: ${start24}-${end24} (${mins} minutes)`);
+        const { start24, end24, minutes: mins } = times;
+        trace.log(`Parsed time: ${start24}-${end24} (${mins} minutes)`);
 
-        // --- Apply preferences (time window + min duration) ---
-        if (prefs.start_hour !== undefined) {
-            const h = parseInt(start24.split(":")[0], 10);
-            if (h < prefs.start_hour) {
-                console.log(`[ubc] Filtered out: start hour ${h} < ${prefs.start_hour}`);
-                continue;
-            }
+        // --- Apply preferences (time window): the whole tile must fit ---
+        const outside = outsideHours(start24, end24, mins, prefs);
+        if (outside) {
+            trace.filtered("outside_hours", `Filtered out: ${outside}`);
+            continue;
         }
-        if (prefs.end_hour !== undefined) {
-            const h = parseInt(start24.split(":")[0], 10);
-            if (h >= prefs.end_hour) {
-                console.log(`[ubc] Filtered out: start hour ${h} >= ${prefs.end_hour}`);
-                continue;
-            }
+        // Resolve the slot's calendar day from the scheduler itself.
+        const dateIso = await resolveTileDate(span);
+
+        const date_iso = ISO_DATE.test(dateIso) ? dateIso : fallbackDate;
+        if (!date_iso) {
+            trace.filtered(
+                "unparseable",
+                `Could not determine date for title="${titleAttr}" on "${courtLabel}"; skipping`
+            );
+            continue;
         }
-        if (prefs.min_minutes !== undefined && mins < prefs.min_minutes) {
-            console.log(`[ubc] Filtered out: duration ${mins} < ${prefs.min_minutes}`);
+        if (!wantedDates.has(date_iso)) {
+            trace.filtered("outside_dates", `Filtered out: date ${date_iso} not requested`);
             continue;
         }
 
-        // Try to get an ISO date from an ancestor with data-date (if present).
-        const dateIso = await span.evaluate((el) => {
-            const dateNode =
-                (el as HTMLElement).closest<HTMLElement>("[data-date]");
-            const raw = dateNode?.getAttribute("data-date") || "";
-            if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
-            return "";
-        });
-
-        const date_iso =
-            dateIso && /^\d{4}-\d{2}-\d{2}$/.test(dateIso)
-                ? dateIso
-                : new Date().toISOString().slice(0, 10);
-
         const slot = {
-            date_iso,
-            time_24h: start24,
-            minutes: mins,
+            ...withSlotTimes({ date_iso, time_24h: start24, minutes: mins }),
             location: courtLabel,
             deep_link: page.url()
         };
-        console.log(`[ubc] Adding slot: ${JSON.stringify(slot)}`);
+        trace.log(`Adding slot: ${JSON.stringify(slot)}`);
         slots.push(slot);
     }
 
-    console.log(`[ubc] Extracted ${slots.length} slots from ${count} "Book Now" spans on "${courtLabel}"`);
+    trace.log(`Extracted ${slots.length} slots from ${count} "Book Now" spans on "${courtLabel}"`);
     return slots;
 }
 
+/**
+ * Walk the scheduler across every requested day on the current facility page.
+ * A week view covers several target days at once, so each visible range is
+ * extracted once and the days it covered are ticked off.
+ */
+async function scanFacilityDates(
+    page: Page,
+    prefs: Preferences,
+    courtLabel: string,
+    targetDates: string[],
+    trace: ScanTrace
+): Promise<{ tiles: Slot[]; dates: string[] }> {
+    const slots: Slot[] = [];
+    const pending = new Set(targetDates);
+    const shown: string[] = [];
+
+    for (const dateIso of targetDates) {
+        if (!pending.has(dateIso)) continue;
+
+        const range = await gotoSchedulerDate(page, dateIso);
+        if (!range) {
+            trace.warn(
+                `Could not move scheduler on "${courtLabel}" to ${dateIso}; skipping that day`
+            );
+            pending.delete(dateIso);
+            continue;
+        }
+
+        const covered = new Set(
+            Array.from(pending).filter(
+                (d) => d >= range.start && d <= range.end
+            )
+        );
+        trace.log(
+            `Scheduler on "${courtLabel}" showing ${range.start}..${range.end}; extracting ${Array.from(covered).join(", ")}`
+        );
+
+        const fallbackDate = range.start === range.end ? range.start : null;
+        slots.push(
+            ...(await extractSlotsFromScheduler(
+                page,
+                prefs,
+                courtLabel,
+                covered,
+                fallbackDate,
+                trace
+            ))
+        );
+        covered.forEach((d) => {
+            pending.delete(d);
+            shown.push(d);
+        });
+    }
+
+    return { tiles: slots, dates: shown };
+}
+
 // ------------------------ COURT LIST SCANNING -------------------------------
 
-async function scanCourtsAndSlots(
-    context: BrowserContext,
+/** Scan one facility page (on its own tab) across every target date. */
+async function scanCourt(
     page: Page,
-    prefs: Preferences
-): Promise<Slot[]> {
-    const allSlots: Slot[] = [];
+    court: CourtInfo & { facility_url: string },
+    prefs: Preferences,
+    targetDates: string[],
+    trace: ScanTrace
+): Promise<{ label: string; slots: Slot[]; observation: CourtObservation }> {
+    let courtLabel = court.name;
 
-    // Select only desktop "Choose" buttons to avoid duplicates (each court has desktop + tablet versions)
-    const chooseButtons = page.locator('a.pm-confirm-button.desktop-details:has-text("Choose")');
-    const count = await chooseButtons.count();
-    console.log(`[ubc] Found ${count} court 'Choose' buttons (desktop only)`);
+    trace.log(
+        `Navigating to facility page for court "${courtLabel}", URL: ${court.facility_url}`
+    );
+    await page.goto(court.facility_url, { waitUntil: "networkidle" });
 
-    const limit = Math.min(count, 10); // sanity cap
-    for (let i = 0; i < limit; i++) {
-        const button = chooseButtons.nth(i);
+    // Without a scheduler every day would come back empty; say so instead.
+    const missing = await checkPage(page, "facility");
+    if (missing.includes("scheduler")) {
+        throw new Error(`Facility page no longer matches the expected markup (missing: ${missing.join(", ")})`);
+    }
 
-        // Extract court label from the facility-item container
-        // The structure is: .facility-item > .facility-details > h2 (contains "Court 01", etc.)
-        let courtLabel = `Court ${i + 1}`;
-        try {
-            // Navigate from button up to the facility-item container, then find .facility-details h2
-            const facilityItem = button.locator('xpath=ancestor::div[contains(@class,"facility-item")]').first();
-            
-            if (await facilityItem.isVisible().catch(() => false)) {
-                const heading = facilityItem.locator('.facility-details h2').first();
-                if (await heading.isVisible().catch(() => false)) {
-                    const text = (await heading.innerText()).trim();
-                    if (text) courtLabel = text;
-                }
+    // Extract the actual court name from the facility page
+    try {
+        const facilityNameHeading = (await locate(page, "facility_name")).first();
+        if (await facilityNameHeading.isVisible({ timeout: 5000 }).catch(() => false)) {
+            const extractedName = (await facilityNameHeading.innerText()).trim();
+            if (extractedName) {
+                trace.log(`Found court name on facility page: "${extractedName}"`);
+                courtLabel = extractedName;
             }
-        } catch {
-            // fall back to default
         }
+    } catch (err) {
+        trace.warn(`Could not extract court name from facility page, using "${courtLabel}"`);
+    }
 
-        console.log(
-            `[ubc] Scanning court ${i + 1}/${limit}: "${courtLabel}"…`
+    // Optional debug: how many table rows in the scheduler
+    const rowCount = await (await locate(page, "scheduler_rows"))
+        .count()
+        .catch(() => 0);
+    if (rowCount > 0) {
+        trace.log(
+            `Scheduler table found on "${courtLabel}" with ${rowCount} rows`
         );
+    }
+
+    const { tiles, dates } = await scanFacilityDates(page, prefs, courtLabel, targetDates, trace);
+    const blocks = mergeContiguous(tiles);
+    if (blocks.length !== tiles.length) {
+        trace.log(`Merged ${tiles.length} tiles into ${blocks.length} contiguous blocks on "${courtLabel}"`);
+    }
 
-        // Build a facility URL from the button's href if present.
-        let facilityUrl: string;
-        const href = await button.getAttribute("href");
-        if (href) {
-            facilityUrl = new URL(href, BASE_URL).toString();
-        } else {
-            // Fallback: click and wait for navigation
-            console.log(
-                `[ubc] No href on court button "${courtLabel}", clicking instead…`
+    const slots = blocks.filter((block) => {
+        if (prefs.min_minutes !== undefined && block.minutes < prefs.min_minutes) {
+            trace.filtered(
+                "too_short",
+                `Filtered out: ${block.date_iso} ${block.time_24h} on "${courtLabel}" lasts ${block.minutes} < ${prefs.min_minutes}`
             );
-            await Promise.all([
-                page.waitForNavigation({ waitUntil: "networkidle" }),
-                button.click()
-            ]);
-            facilityUrl = page.url();
+            return false;
         }
+        return true;
+    });
+    return { label: courtLabel, slots, observation: { court: courtLabel, dates, tiles } };
+}
 
-        console.log(
-            `[ubc] Navigating to facility page for court "${courtLabel}", URL: ${facilityUrl}`
-        );
-        await page.goto(facilityUrl, { waitUntil: "networkidle" });
-
-        // Extract the actual court name from the facility page
-        try {
-            const facilityNameHeading = page.locator('h1.facility-name').first();
-            if (await facilityNameHeading.isVisible({ timeout: 5000 }).catch(() => false)) {
-                const extractedName = (await facilityNameHeading.innerText()).trim();
-                if (extractedName) {
-                    console.log(`[ubc] Found court name on facility page: "${extractedName}"`);
-                    courtLabel = extractedName;
-                }
-            }
-        } catch (err) {
-            console.warn(`[ubc] Could not extract court name from facility page, using "${courtLabel}"`);
+/**
+ * Take the court list from the (cached) catalog, drop courts the preferences
+ * rule out, then scan facility pages in parallel tabs of the same
+ * authenticated context (SCAN_CONCURRENCY at a time, each bounded by
+ * SCAN_COURT_TIMEOUT_MS). Every court ends up in the report.
+ */
+async function scanCourtsAndSlots(
+    context: BrowserContext,
+    page: Page,
+    prefs: Preferences,
+    trace: ScanTrace
+): Promise<{ slots: Slot[]; courts: CourtScan[] }> {
+    const targetDates = resolveTargetDates(prefs);
+    trace.log(`Target dates: ${targetDates.join(", ") || "(none)"}`);
+    if (targetDates.length === 0) return { slots: [], courts: [] };
+
+    const catalog = await getCourtCatalog(page);
+    trace.diagnostics.courts_seen = catalog.courts.length;
+    trace.log(`Court catalog has ${catalog.courts.length} courts (built ${catalog.built_at})`);
+
+    const { selected: courts, skipped } = selectCourts(catalog.courts, prefs);
+    const skippedReports: CourtScan[] = skipped.map(({ court, reason }) => {
+        trace.log(`Skipping court "${court.name}": ${reason}`);
+        return { court: court.name, url: court.facility_url, status: "skipped", slots: 0, detail: reason };
+    });
+    trace.progress({
+        type: "courts_selected",
+        scanning: courts.map((c) => c.name),
+        skipped: skippedReports
+    });
+
+    const limiter = createLimiter(env.scan.concurrency);
+    const timeoutMs = env.scan.courtTimeoutMs;
+
+    type CourtResult = { report: CourtScan; slots: Slot[]; observation?: CourtObservation };
+
+    const scanOne = async (court: CourtInfo, i: number): Promise<CourtResult> => {
+        const url = court.facility_url;
+        if (!url) {
+            return {
+                report: { court: court.name, url: null, status: "skipped", slots: 0, detail: "no facility link" },
+                slots: []
+            };
         }
 
-        // Optional debug: how many table rows in the scheduler
-        const rowCount = await page
-            .locator('#scheduler tr[role="row"], #scheduler .k-scheduler-row')
-            .count()
-            .catch(() => 0);
-        if (rowCount > 0) {
-            console.log(
-                `[ubc] Scheduler table found on "${courtLabel}" with ${rowCount} rows`
+        trace.log(`Scanning court ${i + 1}/${courts.length}: "${court.name}"…`);
+        trace.progress({ type: "court_started", court: court.name, index: i, total: courts.length });
+        const courtPage = await context.newPage();
+        try {
+            const { label, slots, observation } = await withTimeout(
+                scanCourt(courtPage, { ...court, facility_url: url }, prefs, targetDates, trace),
+                timeoutMs,
+                `Timed out after ${timeoutMs} ms`
             );
+            return {
+                report: { court: label, url, status: "scanned", slots: slots.length },
+                slots,
+                observation
+            };
+        } catch (err: any) {
+            const detail = String(err?.message || err);
+            trace.warn(`Scan of "${court.name}" failed: ${detail}`);
+            return {
+                report: { court: court.name, url, status: "failed", slots: 0, detail },
+                slots: []
+            };
+        } finally {
+            await courtPage.close().catch(() => undefined);
         }
+    };
+
+    const results = await Promise.all(
+        courts.map((court, i) =>
+            limiter.run(async () => {
+                const result = await scanOne(court, i);
+                trace.progress({ type: "court_done", report: result.report, slots: result.slots });
+                return result;
+            })
+        )
+    );
 
-        const slotsHere = await extractSlotsFromScheduler(
-            page,
-            prefs,
-            courtLabel
-        );
-        allSlots.push(...slotsHere);
-
-        // Go back to courts list for the next court
-        // Note: Don't call ensureLoggedIn here - session is maintained via cookies
-        await page.goto(BASE_URL, { waitUntil: "networkidle" });
+    try {
+        recordScan({
+            scanned_at: trace.diagnostics.timing.started_at,
+            start: (prefs.start_hour ?? 0) * 60,
+            end: (prefs.end_hour ?? 24) * 60,
+            courts: results.flatMap((r) => (r.observation ? [r.observation] : []))
+        });
+    } catch (err: any) {
+        trace.warn(`Could not record availability history: ${err?.message || err}`);
     }
 
-    console.log(
-        `[ubc] Total candidate slots found across courts: ${allSlots.length}`
+    let allSlots = results.flatMap((r) => r.slots);
+    trace.log(
+        `Total candidate slots found across courts: ${allSlots.length}`
     );
-    return allSlots;
+
+    if (prefs.courts_needed !== undefined) {
+        allSlots = findGroupSlots(allSlots, prefs.courts_needed, prefs.min_minutes ?? 60);
+        trace.log(
+            `Found ${allSlots.length} start times with ${prefs.courts_needed} courts free together`
+        );
+    }
+
+    return {
+        slots: allSlots,
+        courts: [...results.map((r) => r.report), ...skippedReports]
+    };
 }
 
 // ----------------------------- PUBLIC API -----------------------------------
 
 export async function checkAvailability(
-    prefs: Preferences
-): Promise<Slot[]> {
-    const browser = await chromium.launch({ headless: true });
-    const context = await browser.newContext();
-    let page = await context.newPage();
+    prefs: Preferences,
+    account: SessionAccount | null = defaultAccount(),
+    onProgress?: (event: ScanProgress) => void
+): Promise<CheckResult> {
+    const trace = createScanTrace(onProgress);
+    const startedMs = Date.now();
+    const accountKey = account?.key ?? DEFAULT_ACCOUNT_KEY;
+    const loginBefore = (await getSessionStatus(accountKey)).last_login_at;
 
     try {
-        console.log("[ubc] Navigating to booking page…");
-        await page.goto(BASE_URL, { waitUntil: "networkidle" });
-
-        // Make sure we are logged in and back on the courts list
-        page = await ensureLoggedIn(context, page);
-
-        const slots = await scanCourtsAndSlots(context, page, prefs);
-
-        if (slots.length > 0) {
-            // Sort by date + time just to be nice
-            slots.sort((a, b) =>
-                a.date_iso === b.date_iso
-                    ? a.time_24h.localeCompare(b.time_24h)
-                    : a.date_iso.localeCompare(b.date_iso)
-            );
-            return slots;
+        // The shared session lands us on the courts list, logged in.
+        const { slots, courts } = await withSession(async (page, context) => {
+            trace.diagnostics.timing.session_ready_ms = Date.now() - startedMs;
+            trace.progress({ type: "session_ready", ms: trace.diagnostics.timing.session_ready_ms });
+            return scanCourtsAndSlots(context, page, prefs, trace);
+        }, account);
+
+        // Sort by date + time just to be nice
+        slots.sort((a, b) =>
+            a.date_iso === b.date_iso
+                ? a.time_24h.localeCompare(b.time_24h)
+                : a.date_iso.localeCompare(b.date_iso)
+        );
+        trace.diagnostics.slots_returned = slots.length;
+        if (slots.length === 0) {
+            trace.log("No slots matched; see filtered counts for why");
         }
 
-        // Fallback stub if nothing matched
-        const todayIso = new Date().toISOString().slice(0, 10);
-        console.log("[ubc] No slots found by scanner; falling back to stub");
-
-        return [
-            {
-                date_iso: todayIso,
-                time_24h: "19:00",
-                minutes: prefs.min_minutes ?? 60,
-                location: "UBC Tennis Centre – (stubbed)",
-                deep_link: BASE_URL
-            }
-        ];
+        return { slots, courts, diagnostics: trace.diagnostics };
     } finally {
-        await browser.close();
+        const session = await getSessionStatus(accountKey);
+        trace.diagnostics.login = {
+            logged_in: session.logged_in,
+            last_login_at: session.last_login_at,
+            relogged: session.last_login_at !== loginBefore
+        };
+        trace.diagnostics.timing.finished_at = new Date().toISOString();
+        trace.diagnostics.timing.total_ms = Date.now() - startedMs;
     }
 }
@@ -0,0 +1,206 @@
+// src/users.ts
+import { randomUUID } from "crypto";
+import { env } from "./config/env";
+import { readJson, writeJson } from "./store";
+import { closeSession, defaultAccount, DEFAULT_ACCOUNT_KEY, type SessionAccount } from "./session";
+import { decryptSecret, encryptSecret, generateToken, hashToken, safeEqual } from "./secrets";
+import type { NotifyTarget } from "./notify";
+import type { Preferences } from "./ubc";
+
+export type UserRole = "admin" | "member";
+
+export type User = {
+    id: string;
+    name: string;
+    role: UserRole;
+    enabled: boolean;
+    /** SHA-256 of the API token; the token itself is shown once */
+    token_hash: string;
+    /** CWL login, each field encrypted with CREDENTIALS_KEY */
+    ubc_credentials: { user: string; pass: string } | null;
+    default_preferences: Preferences;
+    notify: NotifyTarget;
+    created_at: string;
+    updated_at: string;
+    token_rotated_at: string;
+    /** the BOOKER_GPT_TOKEN admin; never stored */
+    builtin?: true;
+};
+
+/** What the API returns: no token hash, no credentials. */
+export type PublicUser = Omit<User, "token_hash" | "ubc_credentials"> & {
+    has_ubc_credentials: boolean;
+};
+
+export type UserInput = {
+    name: string;
+    role?: UserRole;
+    enabled?: boolean;
+    ubc_user?: string;
+    ubc_pass?: string;
+    default_preferences?: Preferences;
+    notify?: NotifyTarget;
+};
+
+const USERS_FILE = "users.json";
+
+export const BUILTIN_ADMIN_ID = "admin";
+
+/**
+ * BOOKER_GPT_TOKEN keeps working as an admin that scans and books with the
+ * shared UBC_USER/UBC_PASS account.
+ */
+const BUILTIN_ADMIN: User = {
+    id: BUILTIN_ADMIN_ID,
+    name: "Built-in admin",
+    role: "admin",
+    enabled: true,
+    token_hash: "",
+    ubc_credentials: null,
+    default_preferences: {},
+    notify: {},
+    created_at: new Date(0).toISOString(),
+    updated_at: new Date(0).toISOString(),
+    token_rotated_at: new Date(0).toISOString(),
+    builtin: true
+};
+
+// ------------------------------- STORAGE ------------------------------------
+
+let users: User[] | null = null;
+
+function load(): User[] {
+    if (!users) users = readJson<User[]>(USERS_FILE, []);
+    return users;
+}
+
+function save(): void {
+    writeJson(USERS_FILE, load());
+}
+
+export function listUsers(): User[] {
+    return load();
+}
+
+/** Stored users plus the built-in admin. */
+export function getUser(id: string): User | undefined {
+    if (id === BUILTIN_ADMIN_ID) return BUILTIN_ADMIN;
+    return load().find((u) => u.id === id);
+}
+
+export function publicUser(user: User): PublicUser {
+    const { token_hash: _hash, ubc_credentials, ...rest } = user;
+    return {
+        ...rest,
+        has_ubc_credentials: user.builtin ? Boolean(env.ubc.credentials) : Boolean(ubc_credentials)
+    };
+}
+
+function sealCredentials(user: string, pass: string): User["ubc_credentials"] {
+    return { user: encryptSecret(user), pass: encryptSecret(pass) };
+}
+
+// ---------------------------- ADMIN OPERATIONS ------------------------------
+
+/** Returns the new user and its API token (the only time it is visible). */
+export function createUser(input: UserInput): { user: User; token: string } {
+    if (Boolean(input.ubc_user) !== Boolean(input.ubc_pass)) {
+        throw new Error("ubc_user and ubc_pass must be given together");
+    }
+
+    const now = new Date().toISOString();
+    const token = generateToken();
+    const user: User = {
+        id: randomUUID(),
+        name: input.name,
+        role: input.role ?? "member",
+        enabled: input.enabled ?? true,
+        token_hash: hashToken(token),
+        ubc_credentials:
+            input.ubc_user && input.ubc_pass
+                ? sealCredentials(input.ubc_user, input.ubc_pass)
+                : null,
+        default_preferences: input.default_preferences ?? {},
+        notify: input.notify ?? {},
+        created_at: now,
+        updated_at: now,
+        token_rotated_at: now
+    };
+    load().push(user);
+    save();
+    return { user, token };
+}
+
+export async function updateUser(
+    id: string,
+    patch: Partial<UserInput>
+): Promise<User | undefined> {
+    const user = load().find((u) => u.id === id);
+    if (!user) return undefined;
+
+    if (Boolean(patch.ubc_user) !== Boolean(patch.ubc_pass)) {
+        throw new Error("ubc_user and ubc_pass must be given together");
+    }
+
+    let dropSession = false;
+    if (patch.name !== undefined) user.name = patch.name;
+    if (patch.role !== undefined) user.role = patch.role;
+    if (patch.default_preferences) user.default_preferences = patch.default_preferences;
+    if (patch.notify) user.notify = patch.notify;
+    if (patch.ubc_user && patch.ubc_pass) {
+        user.ubc_credentials = sealCredentials(patch.ubc_user, patch.ubc_pass);
+        dropSession = true;
+    }
+    if (patch.enabled !== undefined) {
+        user.enabled = patch.enabled;
+        if (!patch.enabled) dropSession = true;
+    }
+    user.updated_at = new Date().toISOString();
+    save();
+
+    // Cookies from the old login (or a disabled user) must not be reused.
+    if (dropSession) await closeSession(user.id);
+    return user;
+}
+
+/** Replace the user's token; the old one stops working immediately. */
+export function rotateToken(id: string): string | undefined {
+    const user = load().find((u) => u.id === id);
+    if (!user) return undefined;
+
+    const token = generateToken();
+    user.token_hash = hashToken(token);
+    user.token_rotated_at = user.updated_at = new Date().toISOString();
+    save();
+    return token;
+}
+
+// ---------------------------------- AUTH ------------------------------------
+
+/** The enabled user a Bearer token belongs to, or null. */
+export function authenticate(token: string): User | null {
+    if (!token) return null;
+    if (safeEqual(token, env.bookerToken)) return BUILTIN_ADMIN;
+
+    const hash = hashToken(token);
+    const user = load().find((u) => safeEqual(u.token_hash, hash));
+    return user?.enabled ? user : null;
+}
+
+/** The UBC account this user's scans and bookings run under, if any. */
+export function accountFor(user: User): SessionAccount | null {
+    if (user.builtin) return defaultAccount();
+    if (!user.ubc_credentials) return null;
+    return {
+        key: user.id,
+        credentials: {
+            user: decryptSecret(user.ubc_credentials.user),
+            pass: decryptSecret(user.ubc_credentials.pass)
+        }
+    };
+}
+
+/** Who a UBC account belongs to: the built-in admin for the shared one. */
+export function accountOwner(key: string): User | undefined {
+    return key === DEFAULT_ACCOUNT_KEY ? BUILTIN_ADMIN : getUser(key);
+}
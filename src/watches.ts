@@ -0,0 +1,255 @@
+// src/watches.ts
+import { randomUUID } from "crypto";
+import { checkAvailability, slotKey, type Preferences, type Slot } from "./ubc";
+import { notify, describeFailures, type NotifyTarget } from "./notify";
+import { readJson, writeJson } from "./store";
+import { autoBook, type AutoBookConfig } from "./autobook";
+import { accountFor, getUser, BUILTIN_ADMIN_ID } from "./users";
+
+export type Watch = {
+    id: string;
+    /** user whose UBC account runs it; missing on watches from before users */
+    owner_id?: string;
+    preferences: Preferences;
+    interval_minutes: number;
+    notify: NotifyTarget;
+    enabled: boolean;
+    auto_book: AutoBookConfig | null;
+    /** poll the newly released day at high frequency around each booking-window opening */
+    release_polling?: boolean;
+    created_at: string;
+    last_run_at: string | null;
+    last_error: string | null;
+    next_run_at: string;
+    /** slotKey()s seen on the previous successful run */
+    last_seen: string[];
+    /** the slots themselves, for the availability calendar feed */
+    open_slots?: Slot[];
+};
+
+export type WatchInput = {
+    owner_id?: string;
+    preferences: Preferences;
+    interval_minutes: number;
+    notify?: NotifyTarget;
+    enabled?: boolean;
+    auto_book?: AutoBookConfig | null;
+    release_polling?: boolean;
+};
+
+/** Called after every unscoped watch run that scanned successfully. */
+export type WatchRunListener = (watch: Watch, slots: Slot[], ranAt: string) => void;
+
+const WATCHES_FILE = "watches.json";
+const TICK_MS = 15_000;
+
+// ------------------------------- STORAGE ------------------------------------
+
+let watches: Watch[] | null = null;
+
+function load(): Watch[] {
+    if (!watches) watches = readJson<Watch[]>(WATCHES_FILE, []);
+    return watches;
+}
+
+function save(): void {
+    writeJson(WATCHES_FILE, load());
+}
+
+export function listWatches(): Watch[] {
+    return load();
+}
+
+export function watchOwner(watch: Watch): string {
+    return watch.owner_id ?? BUILTIN_ADMIN_ID;
+}
+
+export function getWatch(id: string): Watch | undefined {
+    return load().find((w) => w.id === id);
+}
+
+export function createWatch(input: WatchInput): Watch {
+    const now = new Date().toISOString();
+    const watch: Watch = {
+        id: randomUUID(),
+        owner_id: input.owner_id ?? BUILTIN_ADMIN_ID,
+        preferences: input.preferences,
+        interval_minutes: input.interval_minutes,
+        notify: input.notify ?? {},
+        enabled: input.enabled ?? true,
+        auto_book: input.auto_book ?? null,
+        release_polling: input.release_polling ?? false,
+        created_at: now,
+        last_run_at: null,
+        last_error: null,
+        next_run_at: now,
+        last_seen: [],
+        open_slots: []
+    };
+    load().push(watch);
+    save();
+    return watch;
+}
+
+export function updateWatch(
+    id: string,
+    patch: Partial<WatchInput>
+): Watch | undefined {
+    const watch = getWatch(id);
+    if (!watch) return undefined;
+
+    if (patch.preferences) {
+        watch.preferences = patch.preferences;
+        // Different question, different answer: start the diff from scratch.
+        watch.last_seen = [];
+        watch.open_slots = [];
+    }
+    if (patch.notify) watch.notify = patch.notify;
+    if (patch.enabled !== undefined) watch.enabled = patch.enabled;
+    if (patch.auto_book !== undefined) watch.auto_book = patch.auto_book;
+    if (patch.release_polling !== undefined) watch.release_polling = patch.release_polling;
+    if (patch.interval_minutes !== undefined) {
+        watch.interval_minutes = patch.interval_minutes;
+        watch.next_run_at = nextRunFrom(watch.last_run_at, watch.interval_minutes);
+    }
+
+    save();
+    return watch;
+}
+
+export function deleteWatch(id: string): boolean {
+    const list = load();
+    const idx = list.findIndex((w) => w.id === id);
+    if (idx === -1) return false;
+    list.splice(idx, 1);
+    save();
+    return true;
+}
+
+// ------------------------------- RUNNING ------------------------------------
+
+function nextRunFrom(from: string | null, intervalMinutes: number): string {
+    const base = from ? Date.parse(from) : Date.now();
+    return new Date(base + intervalMinutes * 60_000).toISOString();
+}
+
+const runListeners: WatchRunListener[] = [];
+
+export function onWatchRun(listener: WatchRunListener): void {
+    runListeners.push(listener);
+}
+
+/** While held, the scheduler leaves due watches alone (a release burst owns the browser). */
+let held = false;
+
+export function holdScheduledRuns(hold: boolean): void {
+    held = hold;
+}
+
+/**
+ * One polling pass: scan, diff against the previous run, optionally snipe
+ * the best fresh slot, then notify only for slots that were not there last
+ * time. last_seen only advances once the notification went out, so a failed
+ * notify is retried on the next run. Once auto-book has acted on the fresh
+ * slots, though, a failed notify is only recorded in last_error: holding
+ * last_seen back would run auto-book on the same slots again.
+ *
+ * With `onlyDates` the scan is narrowed to those days (release polling) and
+ * last_seen keeps what it knew about every other day.
+ */
+export async function runWatch(watch: Watch, onlyDates?: string[]): Promise<Slot[]> {
+    const startedAt = new Date().toISOString();
+    console.log(`[watches] Running watch ${watch.id}${onlyDates ? ` for ${onlyDates.join(", ")}` : ""}…`);
+
+    try {
+        const owner = getUser(watchOwner(watch));
+        if (!owner?.enabled) {
+            throw new Error("Watch owner is disabled or no longer exists");
+        }
+        const account = accountFor(owner);
+
+        const preferences = onlyDates
+            ? { ...watch.preferences, dates: onlyDates }
+            : watch.preferences;
+        const { slots } = await checkAvailability(preferences, account);
+        const previous = new Set(watch.last_seen);
+        const fresh = slots.filter((s) => !previous.has(slotKey(s)));
+
+        let autoBooked = false;
+        if (fresh.length > 0 && watch.auto_book?.enabled) {
+            const bookingOwner = {
+                id: owner.id,
+                watch_ids: load().filter((w) => watchOwner(w) === owner.id).map((w) => w.id)
+            };
+            await autoBook(watch.id, bookingOwner, watch.auto_book, watch.notify, fresh, account);
+            autoBooked = true;
+        }
+
+        let notifyError: string | null = null;
+        if (fresh.length > 0) {
+            console.log(`[watches] Watch ${watch.id}: ${fresh.length} new slots`);
+            const sent = await notify({
+                notify: watch.notify,
+                event: { type: "slots_found", slots: fresh }
+            });
+            if (!sent.ok) {
+                notifyError = `Notify failed: ${describeFailures(sent)}`;
+                if (!autoBooked) throw new Error(notifyError);
+                console.error(`[watches] Watch ${watch.id}: ${notifyError}; not retried after auto-book`);
+            }
+        }
+
+        const kept = onlyDates
+            ? watch.last_seen.filter((key) => !onlyDates.includes(key.split("|")[1]))
+            : [];
+        watch.last_seen = [...kept, ...slots.map(slotKey)];
+        watch.open_slots = [
+            ...(onlyDates ? (watch.open_slots ?? []).filter((s) => !onlyDates.includes(s.date_iso)) : []),
+            ...slots
+        ];
+        watch.last_error = notifyError;
+        if (!onlyDates) {
+            for (const listener of runListeners) listener(watch, slots, startedAt);
+        }
+        return fresh;
+    } catch (err: any) {
+        console.error(`[watches] Watch ${watch.id} failed:`, err?.message || err);
+        watch.last_error = String(err?.message || err);
+        return [];
+    } finally {
+        watch.last_run_at = startedAt;
+        watch.next_run_at = nextRunFrom(startedAt, watch.interval_minutes);
+        save();
+    }
+}
+
+let ticking = false;
+
+/** Run every due watch, one at a time (each run drives its own browser). */
+async function tick(): Promise<void> {
+    if (ticking || held) return;
+    ticking = true;
+    try {
+        const now = Date.now();
+        const due = load().filter(
+            (w) => w.enabled && Date.parse(w.next_run_at) <= now
+        );
+        for (const watch of due) {
+            // Deleted while an earlier watch in this pass was running.
+            if (!getWatch(watch.id)) continue;
+            await runWatch(watch);
+        }
+    } finally {
+        ticking = false;
+    }
+}
+
+/** Start the in-process scheduler; call once at boot. */
+export function startWatchScheduler(): void {
+    console.log(`[watches] Scheduler started with ${load().length} watches`);
+    setInterval(() => {
+        tick().catch((err) =>
+            console.error("[watches] Scheduler tick failed:", err?.message || err)
+        );
+    }, TICK_MS);
+}
@@ -0,0 +1,148 @@
+// test/autobook.test.ts
+//
+// Auto-book's ranking of candidate slots and its safeguards over everything
+// the member holds: its own auto-bookings and the reservations on My
+// Bookings, each counted once.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { knownBookings, rankSlots, safeguardViolation, type AutoBookConfig, type AutoBooking } from "../src/autobook";
+import type { Reservation } from "../src/reservations";
+import { withSlotTimes } from "../src/slots";
+import { SLOT } from "./fixtures";
+
+const CONFIG: AutoBookConfig = { enabled: true, max_per_day: 1, max_per_week: 3 };
+
+const reservation = (time24: string, court: string, confirmation: string | null = null): Reservation => ({
+    id: `r-${time24}`,
+    court,
+    ...withSlotTimes({ date_iso: "2026-10-20", time_24h: time24, minutes: 60 }),
+    confirmation_number: confirmation,
+    cancellable: true,
+    cancel_deadline: null
+});
+
+const autoBooking = (confirmation: string | null): AutoBooking => ({
+    id: "a-1",
+    watch_id: "w-1",
+    owner_id: "u-1",
+    slot: SLOT,
+    confirmation_number: confirmation,
+    booked_at: "2026-10-19T12:00:00Z"
+});
+
+const at = (dateIso: string, time24: string, location = "Court 03", minutes = 60) => ({
+    ...withSlotTimes({ date_iso: dateIso, time_24h: time24, minutes }),
+    location,
+    deep_link: null
+});
+
+/** "Court 03 2026-10-20 18:00 60" for each slot, for compact assertions. */
+const summary = (slots: { location: string; date_iso: string; time_24h: string; minutes: number }[]) =>
+    slots.map((s) => `${s.location} ${s.date_iso} ${s.time_24h} ${s.minutes}`);
+
+describe("rankSlots", () => {
+    test("orders by preferred court, then hour, then length, then earliest", () => {
+        const ranked = rankSlots(
+            [
+                at("2026-10-21", "18:00", "Court 03"),
+                at("2026-10-20", "19:00", "Court 05"),
+                at("2026-10-20", "18:00", "Court 05"),
+                at("2026-10-20", "18:00", "court  03", 90),
+                at("2026-10-20", "18:00", "Court 03")
+            ],
+            { ...CONFIG, courts: ["Court 03", "Court 05"], hours: [18, 19] }
+        );
+        assert.deepEqual(summary(ranked), [
+            "court  03 2026-10-20 18:00 90",
+            "Court 03 2026-10-20 18:00 60",
+            "Court 03 2026-10-21 18:00 60",
+            "Court 05 2026-10-20 18:00 60",
+            "Court 05 2026-10-20 19:00 60"
+        ]);
+    });
+
+    test("drops courts and hours outside non-empty lists", () => {
+        const slots = [at("2026-10-20", "18:00", "Court 03"), at("2026-10-20", "20:00", "Court 04")];
+        assert.deepEqual(summary(rankSlots(slots, { ...CONFIG, courts: ["Court 04"] })), [
+            "Court 04 2026-10-20 20:00 60"
+        ]);
+        assert.deepEqual(summary(rankSlots(slots, { ...CONFIG, hours: [18] })), ["Court 03 2026-10-20 18:00 60"]);
+        assert.deepEqual(rankSlots(slots, { ...CONFIG, courts: ["Court 09"] }), []);
+    });
+
+    test("with no lists keeps every slot, longest then earliest first", () => {
+        const ranked = rankSlots(
+            [at("2026-10-20", "19:00"), at("2026-10-20", "20:00", "Court 03", 120), at("2026-10-20", "18:00")],
+            CONFIG
+        );
+        assert.deepEqual(
+            ranked.map((s) => s.time_24h),
+            ["20:00", "18:00", "19:00"]
+        );
+    });
+});
+
+describe("knownBookings", () => {
+    test("adds reservations booked outside auto-book", () => {
+        const known = knownBookings([], [reservation("18:30", "Court 05")]);
+        assert.deepEqual(summary(known), ["Court 05 2026-10-20 18:30 60"]);
+    });
+
+    test("counts an auto-booking that also shows on My Bookings once", () => {
+        // Matched by confirmation number
+        assert.equal(knownBookings([autoBooking("BK-1")], [reservation("18:00", "Court 03", "BK-1")]).length, 1);
+        // Matched by time and court when the page shows no number
+        assert.equal(knownBookings([autoBooking(null)], [reservation("18:00", "Court 03")]).length, 1);
+        // Another court at the same time is another booking
+        assert.equal(knownBookings([autoBooking(null)], [reservation("18:00", "Court 04")]).length, 2);
+    });
+});
+
+describe("safeguardViolation", () => {
+    test("refuses a slot overlapping a manual reservation", () => {
+        const existing = knownBookings([], [reservation("18:30", "Court 05")]);
+        assert.equal(
+            safeguardViolation(SLOT, { ...CONFIG, max_per_day: 2 }, existing),
+            "overlaps_existing_booking"
+        );
+    });
+
+    test("counts manual reservations towards the daily quota", () => {
+        const existing = knownBookings([], [reservation("08:00", "Court 05")]);
+        assert.equal(safeguardViolation(SLOT, CONFIG, existing), "daily_quota_reached");
+        assert.equal(safeguardViolation(SLOT, CONFIG, []), null);
+    });
+
+    test("refuses blackout dates", () => {
+        assert.equal(safeguardViolation(SLOT, { ...CONFIG, blackout_dates: ["2026-10-20"] }, []), "blackout_date");
+    });
+
+    test("touching bookings do not overlap", () => {
+        const existing = [at("2026-10-20", "17:00"), at("2026-10-20", "19:00")];
+        assert.equal(safeguardViolation(SLOT, { ...CONFIG, max_per_day: 3 }, existing), null);
+    });
+
+    test("the daily quota counts bookings on the slot's day only", () => {
+        const config = { ...CONFIG, max_per_day: 2, max_per_week: 10 };
+        assert.equal(safeguardViolation(SLOT, config, [at("2026-10-20", "08:00")]), null);
+        assert.equal(
+            safeguardViolation(SLOT, config, [at("2026-10-20", "08:00"), at("2026-10-20", "10:00")]),
+            "daily_quota_reached"
+        );
+        assert.equal(
+            safeguardViolation(SLOT, config, [at("2026-10-19", "08:00"), at("2026-10-21", "08:00")]),
+            null
+        );
+    });
+
+    test("the weekly quota counts Monday to Sunday", () => {
+        const config = { ...CONFIG, max_per_day: 5, max_per_week: 2 };
+        // SLOT is on Tuesday 2026-10-20; that week runs 10-19 to 10-25.
+        const sameWeek = [at("2026-10-19", "08:00"), at("2026-10-25", "08:00")];
+        assert.equal(safeguardViolation(SLOT, config, sameWeek), "weekly_quota_reached");
+
+        const otherWeeks = [at("2026-10-18", "08:00"), at("2026-10-26", "08:00")];
+        assert.equal(safeguardViolation(SLOT, config, otherWeeks), null);
+    });
+});
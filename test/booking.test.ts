@@ -0,0 +1,28 @@
+// test/booking.test.ts
+//
+// Which client-supplied deep links the logged-in browser may follow.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { facilityDeepLink } from "../src/booking";
+
+// setup.ts points UBC_BASE_URL at http://127.0.0.1:4011/24063/Clients/BookMe4FacilityList/List
+const ORIGIN = "http://127.0.0.1:4011";
+
+describe("facilityDeepLink", () => {
+    test("follows a facility page on PerfectMind's origin", () => {
+        const link = `${ORIGIN}/24063/Clients/BookMe4BookingPages/Classes?facilityId=3`;
+        assert.equal(facilityDeepLink(link), link);
+    });
+
+    test("rejects a foreign host", () => {
+        assert.equal(facilityDeepLink("https://evil.example/24063/Clients/BookMe4BookingPages/Classes"), null);
+        assert.equal(facilityDeepLink("http://127.0.0.1:4012/24063/Clients/BookMe4BookingPages/Classes"), null);
+        assert.equal(facilityDeepLink(`https://127.0.0.1:4011/x`), null);
+    });
+
+    test("looks the court up by name for the court list itself, or no link", () => {
+        assert.equal(facilityDeepLink(`${ORIGIN}/24063/Clients/BookMe4FacilityList/List?page=2`), null);
+        assert.equal(facilityDeepLink(null), null);
+    });
+});
@@ -0,0 +1,22 @@
+// test/fixtures.ts
+import type { Slot } from "../src/ubc";
+
+export const SLOT: Slot = {
+    date_iso: "2026-10-20",
+    time_24h: "18:00",
+    minutes: 60,
+    start_iso: "2026-10-20T18:00:00-07:00",
+    end_iso: "2026-10-20T19:00:00-07:00",
+    location: "UBC Tennis Centre - Court 03",
+    deep_link: "https://ubc.perfectmind.com/24063/Clients/BookMe4BookingPages/Classes?facilityId=3"
+};
+
+export const LATE_SLOT: Slot = {
+    date_iso: "2026-10-21",
+    time_24h: "20:30",
+    minutes: 90,
+    start_iso: "2026-10-21T20:30:00-07:00",
+    end_iso: "2026-10-21T22:00:00-07:00",
+    location: "UBC Tennis Centre - Court 11 (outdoor)",
+    deep_link: null
+};
@@ -0,0 +1,166 @@
+// test/history.test.ts
+//
+// The slot history: scans kept in memory and written in batches, the
+// statistics computed from it, and the /stats CSV, which must not hand
+// spreadsheets a formula.
+import "./setup";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { describe, test } from "node:test";
+import { computeStats, flushHistory, recordScan, statsToCsv, type StatsRow } from "../src/history";
+import { withSlotTimes } from "../src/slots";
+import { dataPath } from "../src/store";
+import { addDaysIso, facilityToday } from "../src/time";
+
+const TOMORROW = addDaysIso(facilityToday(), 1);
+
+const tile = (court: string, time24: string, dateIso = TOMORROW) => ({
+    ...withSlotTimes({ date_iso: dateIso, time_24h: time24, minutes: 60 }),
+    location: court,
+    deep_link: null
+});
+
+const row = (overrides: Partial<StatsRow>): StatsRow => ({
+    slots_tracked: 1,
+    availability_rate: 1,
+    bookings_observed: 0,
+    median_lead_hours: null,
+    cancellations: 0,
+    cancellation_rate: 0,
+    ...overrides
+});
+
+describe("recordScan", () => {
+    test("keeps scans in memory until the history is flushed", () => {
+        const file = dataPath("slot-history.json");
+        for (let i = 0; i < 3; i++) {
+            recordScan({
+                scanned_at: new Date().toISOString(),
+                start: 6 * 60,
+                end: 23 * 60,
+                courts: [{ court: "Batch Court", dates: [TOMORROW], tiles: [tile("Batch Court", "18:00")] }]
+            });
+        }
+
+        assert.equal(fs.existsSync(file), false);
+        assert.equal(computeStats({ group_by: ["court"], court: "Batch Court" })[0]?.slots_tracked, 1);
+
+        flushHistory();
+        const written = JSON.parse(fs.readFileSync(file, "utf8"));
+        assert.equal(written.days[`Batch Court|${TOMORROW}`].slots["18:00|60"].scans_open, 3);
+    });
+});
+
+describe("computeStats", () => {
+    // Days of their own, so the filters leave out the other tests' scans.
+    const FIRST = addDaysIso(facilityToday(), 10);
+    const SECOND = addDaysIso(FIRST, 1);
+    const range = { from: FIRST, to: SECOND };
+
+    /** Scan `court` on `dateIso` `hoursBefore` its `start24` tile, finding `times` open. */
+    const scan = (court: string, dateIso: string, start24: string, hoursBefore: number, times: string[]) => {
+        const startMs = Date.parse(tile(court, start24, dateIso).start_iso);
+        recordScan({
+            scanned_at: new Date(startMs - hoursBefore * 3_600_000).toISOString(),
+            start: 6 * 60,
+            end: 23 * 60,
+            courts: [{ court, dates: [dateIso], tiles: times.map((t) => tile(court, t, dateIso)) }]
+        });
+    };
+    // Court 01 on FIRST: 19:00 is booked 10h before it starts, then comes back.
+    scan("Court 01", FIRST, "19:00", 11, ["18:00", "19:00"]);
+    scan("Court 01", FIRST, "19:00", 10, ["18:00"]);
+    scan("Court 01", FIRST, "19:00", 9, ["18:00", "19:00"]);
+    // Court 02 on SECOND: 18:00 is open once, then booked 20h before it starts.
+    scan("Court 02", SECOND, "18:00", 21, ["18:00"]);
+    scan("Court 02", SECOND, "18:00", 20, []);
+
+    test("sums availability, bookings, lead time and cancellations per court", () => {
+        assert.deepEqual(computeStats({ group_by: ["court"], ...range }), [
+            {
+                court: "Court 01",
+                slots_tracked: 2,
+                // 18:00 open in 3 of 3 scans, 19:00 in 2 of 3
+                availability_rate: 0.833,
+                bookings_observed: 1,
+                median_lead_hours: 10,
+                cancellations: 1,
+                cancellation_rate: 0.5
+            },
+            {
+                court: "Court 02",
+                slots_tracked: 1,
+                availability_rate: 0.5,
+                bookings_observed: 1,
+                median_lead_hours: 20,
+                cancellations: 0,
+                cancellation_rate: 0
+            }
+        ]);
+    });
+
+    test("groups by hour across courts and finds nothing outside the dates", () => {
+        const rows = computeStats({ group_by: ["hour"], ...range });
+        assert.deepEqual(
+            rows.map((r) => [r.hour, r.slots_tracked, r.bookings_observed, r.median_lead_hours]),
+            [
+                [18, 2, 1, 20],
+                [19, 1, 1, 10]
+            ]
+        );
+        assert.deepEqual(computeStats({ group_by: ["court"], from: "2000-01-01", to: "2000-01-02" }), []);
+    });
+
+    test("filters by court and weekday", () => {
+        const weekday = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"][new Date(`${SECOND}T00:00:00Z`).getUTCDay()];
+        assert.deepEqual(
+            computeStats({ group_by: ["court", "weekday"], ...range, weekday }).map((r) => [r.court, r.weekday]),
+            [["Court 02", weekday]]
+        );
+        assert.deepEqual(
+            computeStats({ group_by: ["hour"], ...range, court: "1" }).map((r) => r.hour),
+            [18, 19]
+        );
+    });
+});
+
+describe("statsToCsv", () => {
+    test("writes only the grouping columns asked for", () => {
+        const csv = statsToCsv([row({ hour: 18, median_lead_hours: 2.5 })], ["hour"]);
+        assert.equal(
+            csv,
+            [
+                "hour,slots_tracked,availability_rate,bookings_observed,median_lead_hours,cancellations,cancellation_rate",
+                "18,1,1,0,2.5,0,0",
+                ""
+            ].join("\n")
+        );
+    });
+
+    test("writes empty cells for missing values and quotes commas", () => {
+        const csv = statsToCsv([row({ court: "Court 1, indoor", availability_rate: null })], ["court"]);
+        assert.equal(csv.split("\n")[1], '"Court 1, indoor",1,,0,,0,0');
+    });
+
+    test("prefixes text cells that a spreadsheet would run as a formula", () => {
+        const csv = statsToCsv(
+            [
+                row({ court: "=HYPERLINK(\"http://x\")" }),
+                row({ court: "+1" }),
+                row({ court: "-1" }),
+                row({ court: "@SUM(A1)" }),
+                row({ court: "Court 03", median_lead_hours: -1.5 })
+            ],
+            ["court"]
+        );
+        assert.deepEqual(csv.split("\n").slice(1, 6).map((line) => line.split(",")[0]), [
+            "\"'=HYPERLINK(\"\"http://x\"\")\"",
+            "'+1",
+            "'-1",
+            "'@SUM(A1)",
+            "Court 03"
+        ]);
+        // Numbers are left alone.
+        assert.match(csv, /^Court 03,1,1,0,-1\.5,0,0$/m);
+    });
+});
@@ -0,0 +1,164 @@
+// test/ics.test.ts
+//
+// The RFC 5545 writer (escaping, 75-octet folding, CRLF, stable UIDs) and
+// the availability feed built from watches' open slots.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { availabilityCalendar } from "../src/calendar";
+import { buildCalendar, escapeText, fold, icsDate, slotEvent, slotToIcs, slotUid } from "../src/ics";
+import { withSlotTimes } from "../src/slots";
+import { addDaysIso, facilityToday } from "../src/time";
+import { createUser } from "../src/users";
+import { createWatch } from "../src/watches";
+import { LATE_SLOT, SLOT } from "./fixtures";
+
+/** Undo RFC 5545 folding. */
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+describe("escapeText", () => {
+    test("escapes backslashes, semicolons, commas and newlines", () => {
+        assert.equal(escapeText("a\\b;c,d\ne\r\nf"), "a\\\\b\\;c\\,d\\ne\\nf");
+    });
+});
+
+describe("fold", () => {
+    test("leaves lines of up to 75 octets alone", () => {
+        const line = "X".repeat(75);
+        assert.equal(fold(line), line);
+    });
+
+    test("folds at 75 octets, counting the leading space of continuation lines", () => {
+        const folded = fold("X".repeat(200));
+        const lines = folded.split("\r\n");
+        assert.deepEqual(
+            lines.map((l) => l.length),
+            [75, 75, 52]
+        );
+        assert.ok(lines.slice(1).every((l) => l.startsWith(" ")));
+        assert.equal(unfold(folded), "X".repeat(200));
+    });
+
+    test("never splits a multi-byte character", () => {
+        // 8 + 22 × 3 = 74 octets; a 23rd en dash would cross the limit mid-character
+        const line = `SUMMARY:${"–".repeat(60)}`;
+        const folded = fold(line);
+
+        for (const part of folded.split("\r\n")) {
+            assert.ok(Buffer.byteLength(part) <= 75, `${Buffer.byteLength(part)} octets`);
+            assert.ok(!part.includes("\uFFFD"));
+        }
+        assert.equal(Buffer.byteLength(folded.split("\r\n")[0]), 74);
+        assert.equal(unfold(folded), line);
+    });
+});
+
+describe("buildCalendar", () => {
+    const NOW = new Date("2026-10-19T12:00:00Z");
+
+    test("ends every line with CRLF and escapes text properties", () => {
+        const ics = buildCalendar(
+            [
+                {
+                    uid: "u1@ubc-tennis-booker",
+                    start: new Date("2026-10-21T01:00:00Z"),
+                    end: new Date("2026-10-21T02:00:00Z"),
+                    summary: "Tennis, doubles; bring balls",
+                    description: "line one\nline two",
+                    status: "TENTATIVE",
+                    transparent: true
+                }
+            ],
+            { name: "Courts, mine", refreshMinutes: 30, now: NOW }
+        );
+
+        assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+        assert.doesNotMatch(ics.replace(/\r\n/g, ""), /[\r\n]/);
+        const lines = unfold(ics).split("\r\n");
+        for (const expected of [
+            "X-WR-CALNAME:Courts\\, mine",
+            "REFRESH-INTERVAL;VALUE=DURATION:PT30M",
+            "DTSTAMP:20261019T120000Z",
+            "DTSTART:20261021T010000Z",
+            "DTEND:20261021T020000Z",
+            "SUMMARY:Tennis\\, doubles\\; bring balls",
+            "DESCRIPTION:line one\\nline two",
+            "STATUS:TENTATIVE",
+            "TRANSP:TRANSPARENT"
+        ]) {
+            assert.ok(lines.includes(expected), expected);
+        }
+    });
+
+    test("an empty calendar is still a valid VCALENDAR", () => {
+        const ics = buildCalendar([], { now: NOW });
+        assert.equal(
+            ics,
+            [
+                "BEGIN:VCALENDAR",
+                "VERSION:2.0",
+                "PRODID:-//UBC Tennis Booker//EN",
+                "CALSCALE:GREGORIAN",
+                "METHOD:PUBLISH",
+                "END:VCALENDAR",
+                ""
+            ].join("\r\n")
+        );
+    });
+});
+
+describe("slot events", () => {
+    test("UIDs depend on the slot's date, time and court only", () => {
+        assert.equal(slotUid(SLOT), slotUid({ ...SLOT, minutes: 120, deep_link: null }));
+        assert.notEqual(slotUid(SLOT), slotUid({ ...SLOT, time_24h: "19:00" }));
+        assert.notEqual(slotUid(SLOT), slotUid({ ...SLOT, location: "UBC Tennis Centre - Court 04" }));
+        assert.match(slotUid(SLOT), /^[0-9a-f]{20}@ubc-tennis-booker$/);
+    });
+
+    test("times are facility time converted to UTC", () => {
+        const event = slotEvent(LATE_SLOT);
+        assert.equal(icsDate(event.start), "20261022T033000Z");
+        assert.equal(icsDate(event.end), "20261022T050000Z");
+    });
+
+    test("an invite carries the slot's UID and deep link", () => {
+        const ics = unfold(slotToIcs(SLOT));
+        assert.match(ics, new RegExp(`\r\nUID:${slotUid(SLOT)}\r\n`));
+        assert.match(ics, new RegExp(`\r\nURL:${SLOT.deep_link!.replace(/[?.]/g, "\\$&")}\r\n`));
+        assert.match(ics, /\r\nLOCATION:UBC Tennis Centre – UBC Tennis Centre - Court 03\r\n/);
+    });
+});
+
+describe("availabilityCalendar", () => {
+    const upcoming = (days: number, time24: string, location: string) => ({
+        ...withSlotTimes({ date_iso: addDaysIso(facilityToday(), days), time_24h: time24, minutes: 60 }),
+        location,
+        deep_link: null
+    });
+
+    test("lists each open slot once across the user's watches, soonest first", () => {
+        const { user } = createUser({ name: "feed-user" });
+        const shared = upcoming(2, "18:00", "Court 03");
+        const later = upcoming(3, "19:00", "Court 05");
+        const earlier = upcoming(1, "07:00", "Court 01");
+        const past = upcoming(-1, "18:00", "Court 02");
+
+        const first = createWatch({ owner_id: user.id, preferences: {}, interval_minutes: 10 });
+        first.open_slots = [later, shared, past];
+        const second = createWatch({ owner_id: user.id, preferences: {}, interval_minutes: 10 });
+        second.open_slots = [shared, earlier];
+        // Disabled and other users' watches are left out.
+        const disabled = createWatch({ owner_id: user.id, preferences: {}, interval_minutes: 10, enabled: false });
+        disabled.open_slots = [upcoming(4, "12:00", "Court 09")];
+        const other = createWatch({ preferences: {}, interval_minutes: 10 });
+        other.open_slots = [upcoming(4, "13:00", "Court 10")];
+
+        const uids = (ics: string) => [...ics.matchAll(/^UID:(.+)$/gm)].map((m) => m[1].trim());
+
+        assert.deepEqual(uids(availabilityCalendar(user) ?? ""), [earlier, shared, later].map(slotUid));
+        // One watch on its own
+        assert.deepEqual(uids(availabilityCalendar(user, second.id) ?? ""), [earlier, shared].map(slotUid));
+        // Someone else's watch
+        assert.equal(availabilityCalendar(user, other.id), null);
+    });
+});
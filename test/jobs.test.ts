@@ -0,0 +1,123 @@
+// test/jobs.test.ts
+//
+// Background check jobs with the scan itself replaced: identical requests
+// share a running job, finished results answer for CHECK_CACHE_SECONDS and
+// no longer, and a full queue refuses new work.
+import "./setup";
+import assert from "node:assert/strict";
+import { afterEach, before, describe, mock, test } from "node:test";
+import { SLOT } from "./fixtures";
+
+type JobsModule = typeof import("../src/jobs");
+type UbcModule = typeof import("../src/ubc");
+
+let jobs: JobsModule;
+let ubc: UbcModule;
+
+/** Scans started so far; each waits until the test settles it. */
+let scans: { preferences: object; finish: (ok: boolean) => void }[] = [];
+
+/** Let queued limiter and job callbacks run. */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+before(async () => {
+    // env.ts reads these at import, so the modules load only now.
+    Object.assign(process.env, {
+        CHECK_JOBS_CONCURRENCY: "1",
+        CHECK_JOBS_MAX_QUEUED: "1",
+        CHECK_CACHE_SECONDS: "120"
+    });
+    jobs = await import("../src/jobs");
+    ubc = await import("../src/ubc");
+
+    mock.method(ubc, "checkAvailability", (preferences: object) =>
+        new Promise((resolve, reject) => {
+            scans.push({
+                preferences,
+                finish: (ok) =>
+                    ok
+                        ? resolve({ slots: [SLOT], courts: [], diagnostics: {} })
+                        : reject(new Error("scan broke"))
+            });
+        })
+    );
+});
+
+afterEach(async () => {
+    // Drain anything a test left running so the next one starts idle.
+    while (scans.length > 0) {
+        scans.shift()!.finish(true);
+        await settle();
+    }
+    mock.timers.reset();
+});
+
+/** Run the oldest scan to the end. */
+async function finishScan(ok = true): Promise<void> {
+    await settle();
+    scans.shift()!.finish(ok);
+    await settle();
+}
+
+describe("submitCheck", () => {
+    test("hands an identical request the job already running", async () => {
+        const first = jobs.submitCheck("dedup-user", { dates: ["2026-10-20"], start_hour: 18 }, null);
+        const again = jobs.submitCheck("dedup-user", { start_hour: 18, dates: ["2026-10-20"] }, null);
+
+        assert.equal(again.job.id, first.job.id);
+        assert.deepEqual([again.deduplicated, again.cached], [true, false]);
+
+        await finishScan();
+        assert.equal(jobs.getCheckJob(first.job.id)?.status, "done");
+    });
+
+    test("does not share jobs across owners or preferences", async () => {
+        const mine = jobs.submitCheck("owner-a", { start_hour: 18 }, null);
+        const theirs = jobs.submitCheck("owner-b", { start_hour: 18 }, null);
+        assert.notEqual(theirs.job.id, mine.job.id);
+        assert.equal(theirs.deduplicated, false);
+
+        await finishScan();
+        await finishScan();
+        assert.notEqual(jobs.submitCheck("owner-a", { start_hour: 19 }, null).job.id, mine.job.id);
+    });
+
+    test("reuses a finished result until the cache expires", async () => {
+        mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-10-19T19:00:00Z") });
+        const first = jobs.submitCheck("cache-user", { end_hour: 11 }, null);
+        await finishScan();
+        assert.deepEqual(jobs.getCheckJob(first.job.id)?.slots, [SLOT]);
+
+        mock.timers.tick(120_000);
+        const cached = jobs.submitCheck("cache-user", { end_hour: 11 }, null);
+        assert.equal(cached.job.id, first.job.id);
+        assert.deepEqual([cached.deduplicated, cached.cached], [false, true]);
+
+        mock.timers.tick(1);
+        const fresh = jobs.submitCheck("cache-user", { end_hour: 11 }, null);
+        assert.notEqual(fresh.job.id, first.job.id);
+        assert.deepEqual([fresh.deduplicated, fresh.cached], [false, false]);
+        // The expired job can still be polled.
+        assert.equal(jobs.getCheckJob(first.job.id)?.status, "done");
+    });
+
+    test("never serves a failed check from the cache", async () => {
+        const failed = jobs.submitCheck("failing-user", { end_hour: 12 }, null);
+        await finishScan(false);
+        assert.equal(jobs.getCheckJob(failed.job.id)?.error, "scan broke");
+
+        const retry = jobs.submitCheck("failing-user", { end_hour: 12 }, null);
+        assert.notEqual(retry.job.id, failed.job.id);
+        assert.equal(retry.cached, false);
+    });
+
+    test("refuses new work while the queue is full", async () => {
+        jobs.submitCheck("busy-user", { start_hour: 6 }, null);
+        await settle();
+        // One running, one waiting: CHECK_JOBS_MAX_QUEUED is 1.
+        jobs.submitCheck("busy-user", { start_hour: 7 }, null);
+        assert.throws(() => jobs.submitCheck("busy-user", { start_hour: 8 }, null), jobs.QueueFullError);
+        // An identical request still joins its job.
+        assert.equal(jobs.submitCheck("busy-user", { start_hour: 7 }, null).deduplicated, true);
+    });
+});
@@ -0,0 +1,150 @@
+// test/mockServers.ts
+//
+// Throwaway HTTP and SMTP endpoints for notifier tests: every request is
+// recorded, and responses can be scripted per path.
+import http from "node:http";
+import net from "node:net";
+import type { AddressInfo } from "node:net";
+
+export type RecordedRequest = {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+};
+
+export type ScriptedResponse = {
+    status: number;
+    body?: unknown;
+    /** answer only after this long */
+    delayMs?: number;
+};
+
+export type MockHttp = {
+    url: string;
+    requests: RecordedRequest[];
+    /** queue responses for `path`; unscripted requests get 200 {"ok":true,"result":{}} */
+    script(path: string, ...responses: ScriptedResponse[]): void;
+    reset(): void;
+    close(): Promise<void>;
+};
+
+export async function startMockHttp(): Promise<MockHttp> {
+    const requests: RecordedRequest[] = [];
+    const scripts = new Map<string, ScriptedResponse[]>();
+
+    const server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const path = req.url ?? "/";
+            requests.push({ path, headers: req.headers, body });
+            const next = scripts.get(path)?.shift() ?? { status: 200, body: { ok: true, result: {} } };
+            setTimeout(() => {
+                if (res.destroyed) return;
+                res.writeHead(next.status, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(next.body ?? {}));
+            }, next.delayMs ?? 0);
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        requests,
+        script(path, ...responses) {
+            scripts.set(path, [...(scripts.get(path) ?? []), ...responses]);
+        },
+        reset() {
+            requests.length = 0;
+            scripts.clear();
+        },
+        close: () =>
+            new Promise((resolve) => {
+                server.closeAllConnections();
+                server.close(() => resolve());
+            })
+    };
+}
+
+export type MockSmtp = {
+    port: number;
+    /** raw DATA of every accepted message */
+    messages: string[];
+    /** RCPT TO commands received */
+    recipients: string[];
+    /** connections accepted */
+    connections: number;
+    /** queue replies (e.g. "550 No such user") for the next RCPT TO commands */
+    rejectRecipients(...replies: string[]): void;
+    /** while set, new connections never get a greeting */
+    stall: boolean;
+    reset(): void;
+    close(): Promise<void>;
+};
+
+/** Just enough SMTP for nodemailer: no TLS, no auth, every command accepted unless scripted. */
+export async function startMockSmtp(): Promise<MockSmtp> {
+    const messages: string[] = [];
+    const recipients: string[] = [];
+    const rcptReplies: string[] = [];
+
+    const server = net.createServer((socket) => {
+        let buffer = "";
+        let inData = false;
+        mock.connections++;
+        if (mock.stall) return;
+        socket.write("220 mock ESMTP\r\n");
+
+        socket.on("data", (chunk) => {
+            buffer += chunk.toString();
+            for (;;) {
+                if (inData) {
+                    const end = buffer.indexOf("\r\n.\r\n");
+                    if (end === -1) return;
+                    messages.push(buffer.slice(0, end));
+                    buffer = buffer.slice(end + 5);
+                    inData = false;
+                    socket.write("250 OK queued\r\n");
+                    continue;
+                }
+                const eol = buffer.indexOf("\r\n");
+                if (eol === -1) return;
+                const line = buffer.slice(0, eol);
+                const command = line.slice(0, 4).toUpperCase();
+                buffer = buffer.slice(eol + 2);
+                if (command === "EHLO" || command === "HELO") socket.write("250 mock\r\n");
+                else if (command === "RCPT") {
+                    recipients.push(line);
+                    socket.write(`${rcptReplies.shift() ?? "250 OK"}\r\n`);
+                } else if (command === "DATA") {
+                    inData = true;
+                    socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+                } else if (command === "QUIT") {
+                    socket.end("221 Bye\r\n");
+                    return;
+                } else socket.write("250 OK\r\n");
+            }
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const mock: MockSmtp = {
+        port: (server.address() as AddressInfo).port,
+        messages,
+        recipients,
+        connections: 0,
+        rejectRecipients(...replies) {
+            rcptReplies.push(...replies);
+        },
+        stall: false,
+        reset() {
+            messages.length = 0;
+            recipients.length = 0;
+            rcptReplies.length = 0;
+            mock.connections = 0;
+            mock.stall = false;
+        },
+        close: () => new Promise((resolve) => server.close(() => resolve()))
+    };
+    return mock;
+}
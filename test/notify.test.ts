@@ -0,0 +1,296 @@
+// test/notify.test.ts
+//
+// Channels and the delivery policy against mock Telegram, SMS, webhook and
+// SMTP servers: delivery, retries, permanent failures, timeouts, the
+// per-recipient rate limit and the quiet-hours digest.
+import "./setup";
+import assert from "node:assert/strict";
+import { after, afterEach, before, beforeEach, describe, mock, test } from "node:test";
+import { SLOT } from "./fixtures";
+import { startMockHttp, startMockSmtp, type MockHttp, type MockSmtp } from "./mockServers";
+
+type NotifyModule = typeof import("../src/notify");
+type WebhookModule = typeof import("../src/notifiers/webhook");
+
+let api: MockHttp;
+let smtp: MockSmtp;
+let notify: NotifyModule["notify"];
+let flushDigests: NotifyModule["flushDigests"];
+let signWebhook: WebhookModule["signWebhook"];
+
+before(async () => {
+    api = await startMockHttp();
+    smtp = await startMockSmtp();
+
+    // env.ts reads these at import, so the modules load only now.
+    Object.assign(process.env, {
+        TELEGRAM_BOT_TOKEN: "test-bot",
+        TELEGRAM_API_BASE: api.url,
+        SMS_GATEWAY_URL: `${api.url}/sms`,
+        SMS_FROM: "+15550000000",
+        WEBHOOK_URL: `${api.url}/hook`,
+        WEBHOOK_SECRET: "webhook-secret-0123456789",
+        SMTP_HOST: "127.0.0.1",
+        SMTP_PORT: String(smtp.port),
+        EMAIL_FROM: "booker@example.com",
+        NOTIFY_RETRY_ATTEMPTS: "3",
+        NOTIFY_SEND_TIMEOUT_SECONDS: "1",
+        NOTIFY_RATE_LIMIT: "2"
+    });
+    ({ notify, flushDigests } = await import("../src/notify"));
+    ({ signWebhook } = await import("../src/notifiers/webhook"));
+});
+
+after(async () => {
+    await api.close();
+    await smtp.close();
+});
+
+beforeEach(() => {
+    api.reset();
+    smtp.reset();
+});
+
+describe("channels", () => {
+    test("telegram sends MarkdownV2 and falls back to plain text when it is rejected", async () => {
+        api.script("/bottest-bot/sendMessage", { status: 400, body: { ok: false, description: "can't parse entities" } });
+
+        const result = await notify({
+            notify: { telegram_chat_id: "42" },
+            event: { type: "booking_failed", slot: SLOT, reason: "slot_taken", detail: "gone (already)" }
+        });
+
+        assert.equal(result.ok, true);
+        const sent = api.requests.map((r) => JSON.parse(r.body));
+        assert.equal(sent.length, 2);
+        assert.equal(sent[0].parse_mode, "MarkdownV2");
+        assert.equal(sent[0].chat_id, "42");
+        assert.equal(sent[1].parse_mode, undefined);
+    });
+
+    test("sms posts to, from and text to the gateway", async () => {
+        const result = await notify({ notify: { sms: "+15551110001" }, text: "Court 3 is free", channels: ["sms"] });
+
+        assert.deepEqual(result.results, [
+            { channel: "sms", ok: true, recipient: "+15551110001", attempts: 1 }
+        ]);
+        assert.deepEqual(JSON.parse(api.requests[0].body), {
+            to: "+15551110001",
+            from: "+15550000000",
+            text: "Court 3 is free"
+        });
+    });
+
+    test("webhook requests are signed over timestamp and body", async () => {
+        const result = await notify({ text: "signed", channels: ["webhook"] });
+
+        assert.equal(result.ok, true);
+        const [request] = api.requests;
+        const timestamp = String(request.headers["x-booker-timestamp"]);
+        assert.equal(
+            request.headers["x-booker-signature"],
+            `sha256=${signWebhook("webhook-secret-0123456789", timestamp, request.body)}`
+        );
+        assert.equal(JSON.parse(request.body).text, "signed");
+    });
+
+    test("webhook_url on a host outside the allowlist is never called", async () => {
+        const result = await notify({
+            notify: { webhook_url: "http://169.254.169.254/latest/meta-data" },
+            text: "metadata?",
+            channels: ["webhook"]
+        });
+
+        assert.equal(result.ok, false);
+        assert.match(result.results[0].error ?? "", /not allowed/);
+        assert.equal(api.requests.length, 0);
+    });
+
+    test("email goes through SMTP with the rendered subject", async () => {
+        const result = await notify({
+            notify: { email: "player@example.com" },
+            event: { type: "booking_failed", slot: SLOT, reason: "court_not_found" },
+            channels: ["email"]
+        });
+
+        assert.equal(result.ok, true);
+        const message = smtp.messages[smtp.messages.length - 1] ?? "";
+        assert.match(message, /^To: player@example\.com/m);
+        assert.match(message, /^Subject: .+/m);
+    });
+
+    test("fan-out reports each channel separately", async () => {
+        api.script("/sms", { status: 400, body: { error: "bad number" } });
+
+        const result = await notify({
+            notify: { sms: "+15551110002", telegram_chat_id: "43" },
+            text: "fan-out",
+            channels: ["telegram", "sms"]
+        });
+
+        assert.equal(result.ok, false);
+        assert.deepEqual(
+            result.results.map((r) => [r.channel, r.ok]),
+            [
+                ["telegram", true],
+                ["sms", false]
+            ]
+        );
+    });
+});
+
+describe("retries", () => {
+    test("a 5xx is retried until it succeeds", async () => {
+        api.script("/sms", { status: 503 }, { status: 502 });
+
+        const result = await notify({ notify: { sms: "+15551110003" }, text: "retry", channels: ["sms"] });
+
+        assert.equal(result.ok, true);
+        assert.equal(result.results[0].attempts, 3);
+        assert.equal(api.requests.length, 3);
+    });
+
+    test("a timeout counts as a failed attempt and is retried", async () => {
+        api.script("/sms", { status: 200, delayMs: 1500 });
+
+        const result = await notify({ notify: { sms: "+15551110004" }, text: "slow", channels: ["sms"] });
+
+        assert.equal(result.ok, true);
+        assert.equal(result.results[0].attempts, 2);
+    });
+
+    test("a 4xx is a permanent failure and is not retried", async () => {
+        api.script("/sms", { status: 401, body: { error: "bad token" } });
+
+        const result = await notify({ notify: { sms: "+15551110005" }, text: "denied", channels: ["sms"] });
+
+        assert.equal(result.ok, false);
+        assert.match(result.results[0].error ?? "", /401/);
+        assert.equal(api.requests.length, 1);
+    });
+
+    test("an SMTP 5xx reply is permanent", async () => {
+        smtp.rejectRecipients("550 5.1.1 No such user");
+
+        const result = await notify({ notify: { email: "nobody@example.com" }, text: "bounce", channels: ["email"] });
+
+        assert.equal(result.ok, false);
+        assert.match(result.results[0].error ?? "", /550 5\.1\.1 No such user/);
+        assert.equal(smtp.recipients.length, 1);
+    });
+
+    test("an SMTP 4xx reply is retried", async () => {
+        smtp.rejectRecipients("451 4.3.0 Try again later");
+
+        const result = await notify({ notify: { email: "later@example.com" }, text: "greylisted", channels: ["email"] });
+
+        assert.equal(result.ok, true);
+        assert.equal(result.results[0].attempts, 2);
+        assert.equal(smtp.messages.length, 1);
+    });
+
+    test("an SMTP server that never answers times out and is retried", async () => {
+        smtp.stall = true;
+
+        const result = await notify({ notify: { email: "slow@example.com" }, text: "stalled", channels: ["email"] });
+
+        assert.equal(result.ok, false);
+        assert.equal(result.results[0].error, "SMTP send failed: Timeout");
+        assert.equal(smtp.connections, 3);
+    });
+
+    test("gives up after NOTIFY_RETRY_ATTEMPTS", async () => {
+        api.script("/sms", { status: 500 }, { status: 500 }, { status: 500 }, { status: 500 });
+
+        const result = await notify({ notify: { sms: "+15551110006" }, text: "down", channels: ["sms"] });
+
+        assert.equal(result.ok, false);
+        assert.equal(api.requests.length, 3);
+    });
+});
+
+describe("rate limit", () => {
+    test("stops non-urgent messages to one recipient after NOTIFY_RATE_LIMIT", async () => {
+        const send = (text: string) => notify({ notify: { sms: "+15551110007" }, text, channels: ["sms"] });
+
+        assert.equal((await send("one")).ok, true);
+        assert.equal((await send("two")).ok, true);
+
+        const limited = await send("three");
+        assert.equal(limited.ok, false);
+        assert.equal(limited.results[0].suppressed, "rate_limited");
+        assert.equal(api.requests.length, 2);
+
+        // Urgent messages are not rate limited.
+        const urgent = await notify({
+            notify: { sms: "+15551110007" },
+            text: "urgent",
+            priority: "urgent",
+            channels: ["sms"]
+        });
+        assert.equal(urgent.results[0].ok, true);
+    });
+
+    test("drops an identical text to the same recipient as a duplicate", async () => {
+        const send = () => notify({ notify: { sms: "+15551110008" }, text: "same", channels: ["sms"] });
+
+        await send();
+        const repeat = await send();
+
+        assert.equal(repeat.ok, true);
+        assert.equal(repeat.results[0].suppressed, "duplicate");
+        assert.equal(api.requests.length, 1);
+    });
+});
+
+describe("digest", () => {
+    // Quiet from 18:00 to 19:00 UTC; the test starts inside and then leaves.
+    const quiet_hours = { start: "18:00", end: "19:00", timezone: "UTC" };
+
+    beforeEach(() => mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-10-19T18:30:00Z") }));
+    afterEach(() => mock.timers.reset());
+
+    test("holds events during quiet hours and sends them with their buttons", async () => {
+        const target = { telegram_chat_id: "44", quiet_hours };
+        const held = await notify({ notify: target, event: { type: "slots_found", slots: [SLOT] } });
+        await notify({ notify: target, text: "plain note" });
+
+        assert.equal(held.deferred, true);
+        await flushDigests();
+        assert.equal(api.requests.length, 0);
+
+        mock.timers.tick(60 * 60_000);
+        await flushDigests();
+
+        const [sent] = api.requests.map((r) => JSON.parse(r.body));
+        assert.equal(api.requests.length, 1);
+        assert.equal(sent.parse_mode, "MarkdownV2");
+        assert.match(sent.text, /^🌙 2 notification\\\(s\\\) held during quiet hours:\n\n\*🎾 1 new court slot opened\*/);
+        assert.match(sent.text, /\n\nplain note$/);
+        assert.deepEqual(sent.reply_markup.inline_keyboard, [
+            [{ text: "Book Tue, Oct 20 18:00 · UBC Tennis Centre - Court 03", url: SLOT.deep_link }]
+        ]);
+    });
+
+    test("gives the webhook each held message", async () => {
+        const target = { quiet_hours };
+        await notify({
+            notify: target,
+            event: { type: "booking_failed", slot: SLOT, reason: "slot_taken" },
+            channels: ["webhook"]
+        });
+
+        mock.timers.tick(60 * 60_000);
+        await flushDigests();
+
+        const body = JSON.parse(api.requests[0].body);
+        assert.equal(body.priority, "warn");
+        assert.deepEqual(body.digest, [
+            {
+                text: "⚠️ Booking failed: Tue, Oct 20 18:00 (60 min) – UBC Tennis Centre - Court 03. Reason: slot_taken",
+                priority: "warn",
+                event: "booking_failed"
+            }
+        ]);
+    });
+});
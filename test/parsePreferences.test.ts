@@ -0,0 +1,181 @@
+// test/parsePreferences.test.ts
+//
+// The free-text parser with "now" pinned to Monday 2026-10-19 noon in
+// Vancouver: the Preferences it builds, the guesses it reports and the
+// phrases it refuses.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { describePreferences, parsePreferences } from "../src/parsePreferences";
+
+const NOW = new Date("2026-10-19T19:00:00Z");
+
+const parse = (text: string) => parsePreferences(text, NOW);
+
+describe("parsePreferences", () => {
+    test("reads days, a start time, a length, indoor and a court range", () => {
+        const parsed = parse("next Tue or Thu after 6pm, 90 min, indoor courts 3–5");
+
+        assert.deepEqual(parsed.preferences, {
+            dates: ["2026-10-20", "2026-10-22"],
+            start_hour: 18,
+            min_minutes: 90,
+            indoor_only: true,
+            locations: ["Court 3", "Court 4", "Court 5"]
+        });
+        assert.equal(
+            parsed.interpretation,
+            "Tue 2026-10-20 or Thu 2026-10-22, from 18:00, at least 90 min, indoor only, Court 3/Court 4/Court 5"
+        );
+        assert.deepEqual(parsed.ambiguities, [
+            '"next tue" read as Tue 2026-10-20; give the date if you meant 2026-10-27',
+            '"next thu" read as Thu 2026-10-22; give the date if you meant 2026-10-29'
+        ]);
+        assert.deepEqual(parsed.unrecognized, []);
+    });
+
+    test("resolves today against Vancouver, not UTC", () => {
+        // 2026-10-20 in UTC, still the 19th in Vancouver
+        const parsed = parsePreferences("today", new Date("2026-10-20T05:00:00Z"));
+        assert.deepEqual(parsed.preferences.dates, ["2026-10-19"]);
+    });
+
+    test("carries the meridiem across a range and reads courts side by side", () => {
+        const parsed = parse("tomorrow 6-9pm 2 courts");
+        assert.deepEqual(parsed.preferences, {
+            dates: ["2026-10-20"],
+            start_hour: 18,
+            end_hour: 21,
+            courts_needed: 2
+        });
+        assert.deepEqual(parsed.ambiguities, []);
+    });
+
+    test('"11-1pm" is 11am to 1pm', () => {
+        const { preferences } = parse("11-1pm");
+        assert.equal(preferences.start_hour, 11);
+        assert.equal(preferences.end_hour, 13);
+    });
+
+    test("reads bare evening hours as pm and says so", () => {
+        assert.deepEqual(parse("after 6").ambiguities, ['"6" read as 18:00; add am/pm to be sure']);
+        assert.deepEqual(parse("6-9").ambiguities, ['"6-9" read as 18:00–21:00; add am/pm to be sure']);
+
+        const tonight = parse("tonight around 8");
+        assert.deepEqual(tonight.preferences, { dates: ["2026-10-19"], start_hour: 20, end_hour: 24 });
+        assert.deepEqual(tonight.ambiguities, ['"8" read as 20:00; add am/pm to be sure']);
+    });
+
+    test('"at" a half-hour time searches from that hour, with no end', () => {
+        const evening = parse("tomorrow at 6:30pm");
+        assert.deepEqual(evening.preferences, { dates: ["2026-10-20"], start_hour: 18 });
+        assert.deepEqual(evening.ambiguities, ['"at 6:30pm" read as from 18:00']);
+
+        const court = parse("court 3 at 10:30");
+        assert.deepEqual(court.preferences, { start_hour: 10, locations: ["Court 3"] });
+        assert.deepEqual(court.ambiguities, ['"at 10:30" read as from 10:00']);
+    });
+
+    test("a time with a length leaves room for the whole length", () => {
+        const parsed = parse("sat 7pm 90 min");
+        assert.deepEqual(parsed.preferences, { dates: ["2026-10-24"], start_hour: 19, min_minutes: 90 });
+        assert.deepEqual(parsed.ambiguities, []);
+
+        assert.deepEqual(parse("tomorrow around 7:30pm for 2 hours").preferences, {
+            dates: ["2026-10-20"],
+            start_hour: 19,
+            min_minutes: 120
+        });
+    });
+
+    test("rounds a half-hour window inwards to whole hours", () => {
+        const parsed = parse("fri 18:30-21:00 for 1.5 hours please");
+        assert.deepEqual(parsed.preferences, {
+            dates: ["2026-10-23"],
+            start_hour: 19,
+            end_hour: 21,
+            min_minutes: 90
+        });
+        assert.deepEqual(parsed.ambiguities, ["Start 18:30 rounded to 19:00"]);
+    });
+
+    test("expands this weekend and this week", () => {
+        assert.deepEqual(parse("this weekend morning, at least an hour").preferences, {
+            dates: ["2026-10-24", "2026-10-25"],
+            start_hour: 6,
+            end_hour: 12,
+            min_minutes: 60
+        });
+        assert.deepEqual(parse("this week").preferences.dates, [
+            "2026-10-19",
+            "2026-10-20",
+            "2026-10-21",
+            "2026-10-22",
+            "2026-10-23",
+            "2026-10-24",
+            "2026-10-25"
+        ]);
+    });
+
+    test("moves month/day dates that have passed to next year", () => {
+        assert.deepEqual(parse("oct 24").preferences.dates, ["2026-10-24"]);
+        assert.deepEqual(parse("oct 10").preferences.dates, ["2027-10-10"]);
+
+        const slashed = parse("6/7");
+        assert.deepEqual(slashed.preferences.dates, ["2027-06-07"]);
+        assert.deepEqual(slashed.ambiguities, ['"6/7" read as month/day (2027-06-07)']);
+    });
+
+    test("keeps an ISO date in the past but flags it", () => {
+        const parsed = parse("2026-10-01");
+        assert.deepEqual(parsed.preferences.dates, ["2026-10-01"]);
+        assert.deepEqual(parsed.ambiguities, ["2026-10-01 is in the past"]);
+    });
+
+    test("prefers specific dates over a days-ahead range", () => {
+        const parsed = parse("next 3 days tomorrow");
+        assert.deepEqual(parsed.preferences, { dates: ["2026-10-20"] });
+        assert.deepEqual(parsed.ambiguities, ['Both specific dates and "next 3 days" given; using the dates']);
+
+        assert.deepEqual(parse("next 3 days before 11am").preferences, { days_ahead: 3, end_hour: 11 });
+    });
+
+    test("returns a watch interval apart from the preferences", () => {
+        const parsed = parse("sat 9-12 90m every 10m");
+        assert.equal(parsed.interval_minutes, 10);
+        assert.deepEqual(parsed.preferences, {
+            dates: ["2026-10-24"],
+            start_hour: 9,
+            end_hour: 12,
+            min_minutes: 90
+        });
+    });
+
+    test("lists words it does not know and skips filler", () => {
+        const parsed = parse("please find me a court tomorrow blorp");
+        assert.deepEqual(parsed.preferences, { dates: ["2026-10-20"] });
+        assert.deepEqual(parsed.unrecognized, ["blorp"]);
+    });
+
+    test("notes that there is no outdoor filter", () => {
+        const parsed = parse("outdoor");
+        assert.deepEqual(parsed.preferences, {});
+        assert.deepEqual(parsed.ambiguities, ["There is no outdoor-only filter; searching all courts"]);
+    });
+
+    test("refuses values out of range", () => {
+        assert.throws(() => parse("9pm-6pm"), { message: "21:00–18:00 is not a valid hour range" });
+        assert.throws(() => parse("courts 3-40"), { message: '"3-40" is not a valid court range' });
+        assert.throws(() => parse("every 2m"), { message: "Watch interval must be between 5m and 24h" });
+        assert.throws(() => parse("3 hours"), { message: "Minimum length must be between 30m and 2h" });
+        assert.throws(() => parse("feb 30"), { message: '"feb 30" is not a date' });
+        assert.throws(() => parse("next 20 days"), { message: "Can only look up to 14 days ahead" });
+    });
+});
+
+describe("describePreferences", () => {
+    test("says today when no dates are given", () => {
+        assert.equal(describePreferences({ end_hour: 11 }), "today, until 11:00");
+        assert.equal(describePreferences({ days_ahead: 3 }), "today and the next 3 day(s)");
+    });
+});
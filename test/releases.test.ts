@@ -0,0 +1,48 @@
+// test/releases.test.ts
+//
+// Learning the release schedule from the furthest day regular watch runs
+// see slots on.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getReleaseStatus, observeRun } from "../src/releases";
+import { createWatch } from "../src/watches";
+import { SLOT } from "./fixtures";
+
+const slotsUntil = (dateIso: string) => [{ ...SLOT, date_iso: "2026-10-19" }, { ...SLOT, date_iso: dateIso }];
+
+const observationsOf = (watchId: string) => getReleaseStatus().observations.filter((o) => o.watch_id === watchId);
+
+describe("observeRun", () => {
+    test("learns a day released 14 days ahead at the edge of a 14-day watch", () => {
+        const watch = createWatch({ preferences: { days_ahead: 14 }, interval_minutes: 10, enabled: false });
+
+        // 06:55 and 07:05 in Vancouver: 2026-11-02 opens at 07:00
+        observeRun(watch, slotsUntil("2026-11-01"), "2026-10-19T13:55:00Z");
+        observeRun(watch, slotsUntil("2026-11-02"), "2026-10-19T14:05:00Z");
+
+        assert.deepEqual(
+            observationsOf(watch.id).map(({ released_date, days_ahead, at }) => ({ released_date, days_ahead, at })),
+            [{ released_date: "2026-11-02", days_ahead: 14, at: "07:00" }]
+        );
+    });
+
+    test("ignores a day that only came into range at midnight", () => {
+        const watch = createWatch({ preferences: { days_ahead: 14 }, interval_minutes: 10, enabled: false });
+
+        // 23:55 on the 19th scans up to 2026-11-02; 00:05 on the 20th up to 2026-11-03
+        observeRun(watch, slotsUntil("2026-11-02"), "2026-10-20T06:55:00Z");
+        observeRun(watch, slotsUntil("2026-11-03"), "2026-10-20T07:05:00Z");
+
+        assert.deepEqual(observationsOf(watch.id), []);
+    });
+
+    test("ignores runs too far apart to place the release", () => {
+        const watch = createWatch({ preferences: { days_ahead: 14 }, interval_minutes: 10, enabled: false });
+
+        observeRun(watch, slotsUntil("2026-11-01"), "2026-10-19T12:00:00Z");
+        observeRun(watch, slotsUntil("2026-11-02"), "2026-10-19T14:05:00Z");
+
+        assert.deepEqual(observationsOf(watch.id), []);
+    });
+});
@@ -0,0 +1,29 @@
+// test/reservations.test.ts
+//
+// Cancellation deadlines read from My Bookings rows.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { cancelWindow } from "../src/reservations";
+
+const START = "2026-10-20T18:00:00-07:00";
+
+describe("cancelWindow", () => {
+    test("follows the Cancel control when the page states no deadline", () => {
+        // Two hours before the start: well inside the assumed 24 h notice
+        const now = new Date("2026-10-21T00:00:00Z");
+        assert.deepEqual(cancelWindow("Court 03\nTue, Oct 20, 2026", START, true, now), {
+            cancellable: true,
+            cancel_deadline: "2026-10-19T18:00:00-07:00"
+        });
+        assert.equal(cancelWindow("Court 03", START, false, now).cancellable, false);
+    });
+
+    test("refuses once a deadline the page states has passed", () => {
+        const text = "Court 03\nCancel by Oct 20, 2026 12:00 PM";
+        const window = cancelWindow(text, START, true, new Date("2026-10-20T19:30:00Z"));
+        assert.deepEqual(window, { cancellable: false, cancel_deadline: "2026-10-20T12:00:00-07:00" });
+
+        assert.equal(cancelWindow(text, START, true, new Date("2026-10-20T18:30:00Z")).cancellable, true);
+    });
+});
@@ -0,0 +1,19 @@
+// test/setup.ts
+//
+// Import first in every test file: src/config/env.ts reads process.env once,
+// at import. Tests get a throwaway DATA_DIR, ignore the developer's .env, and
+// point UBC_BASE_URL at the PerfectMind fixture on FIXTURE_PORT.
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const FIXTURE_PORT = process.env.FIXTURE_PORT || "4011";
+
+process.env.DOTENV_CONFIG_PATH = path.join(os.tmpdir(), "booker-test-no-dotenv");
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "booker-test-"));
+process.env.BOOKER_GPT_TOKEN = "test-admin-token";
+process.env.FIXTURE_PORT = FIXTURE_PORT;
+process.env.UBC_BASE_URL = `http://127.0.0.1:${FIXTURE_PORT}/24063/Clients/BookMe4FacilityList/List`;
+process.env.UBC_USER = "fixture-user";
+process.env.UBC_PASS = "fixture-pass";
+process.env.NOTIFY_RETRY_BASE_MS = "1";
@@ -0,0 +1,117 @@
+// test/slots.test.ts
+//
+// Joining free tiles into bookable blocks (mergeContiguous) and finding start
+// times at which several courts are free together (findGroupSlots).
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { findGroupSlots, isGroupSlot, mergeContiguous, withSlotTimes } from "../src/slots";
+import type { Slot } from "../src/ubc";
+
+const tile = (location: string, time24: string, minutes = 60, dateIso = "2026-10-20"): Slot => ({
+    ...withSlotTimes({ date_iso: dateIso, time_24h: time24, minutes }),
+    location,
+    deep_link: null
+});
+
+/** "Court 03 2026-10-20 18:00 120" for each block, for compact assertions. */
+const summary = (slots: Slot[]) => slots.map((s) => `${s.location} ${s.date_iso} ${s.time_24h} ${s.minutes}`);
+
+describe("mergeContiguous", () => {
+    test("joins back-to-back tiles on one court into a block listing them", () => {
+        const first = tile("Court 03", "18:00");
+        const second = tile("Court 03", "19:00");
+        const [block, ...rest] = mergeContiguous([second, first]);
+
+        assert.deepEqual(rest, []);
+        assert.equal(block.time_24h, "18:00");
+        assert.equal(block.minutes, 120);
+        assert.equal(block.start_iso, "2026-10-20T18:00:00-07:00");
+        assert.equal(block.end_iso, "2026-10-20T20:00:00-07:00");
+        assert.deepEqual(block.tiles, [first, second]);
+    });
+
+    test("leaves a lone tile as it is, without a tiles list", () => {
+        const only = tile("Court 03", "18:00");
+        assert.deepEqual(mergeContiguous([only]), [only]);
+    });
+
+    test("keeps gaps, courts and days apart", () => {
+        const blocks = mergeContiguous([
+            tile("Court 03", "18:00"),
+            tile("Court 03", "20:00"),
+            tile("Court 04", "19:00"),
+            tile("Court 03", "19:00", 60, "2026-10-21")
+        ]);
+        assert.deepEqual(summary(blocks), [
+            "Court 03 2026-10-20 18:00 60",
+            "Court 03 2026-10-20 20:00 60",
+            "Court 04 2026-10-20 19:00 60",
+            "Court 03 2026-10-21 19:00 60"
+        ]);
+        assert.ok(blocks.every((b) => b.tiles === undefined));
+    });
+
+    test("runs overlapping tiles to the latest end", () => {
+        const blocks = mergeContiguous([tile("Court 03", "18:00", 90), tile("Court 03", "19:00", 60)]);
+        assert.deepEqual(summary(blocks), ["Court 03 2026-10-20 18:00 120"]);
+        assert.equal(blocks[0].tiles?.length, 2);
+    });
+
+    test("flattens blocks passed back in into their tiles", () => {
+        const [block] = mergeContiguous([tile("Court 03", "18:00"), tile("Court 03", "19:00")]);
+        const [again] = mergeContiguous([block, tile("Court 03", "20:00")]);
+        assert.equal(again.minutes, 180);
+        assert.deepEqual(
+            again.tiles?.map((t) => t.time_24h),
+            ["18:00", "19:00", "20:00"]
+        );
+    });
+});
+
+describe("findGroupSlots", () => {
+    const blocks = mergeContiguous([
+        tile("Court 05", "18:00"),
+        tile("Court 05", "19:00"),
+        tile("Court 03", "18:00"),
+        tile("Court 03", "19:00"),
+        tile("Court 04", "18:00"),
+        tile("Court 01", "19:00", 60, "2026-10-21")
+    ]);
+
+    test("finds every start time with enough courts, taking courts in name order", () => {
+        const hits = findGroupSlots(blocks, 2, 60);
+        assert.deepEqual(summary(hits), [
+            "Court 03 + Court 04 2026-10-20 18:00 60",
+            "Court 03 + Court 05 2026-10-20 19:00 60"
+        ]);
+        assert.ok(hits.every(isGroupSlot));
+        assert.ok(hits.every((h) => h.deep_link === null));
+        assert.equal(hits[1].start_iso, "2026-10-20T19:00:00-07:00");
+    });
+
+    test("needs each court free for the whole length", () => {
+        const [hit, ...rest] = findGroupSlots(blocks, 2, 120);
+        assert.deepEqual(rest, []);
+        assert.equal(hit.location, "Court 03 + Court 05");
+        assert.equal(hit.end_iso, "2026-10-20T20:00:00-07:00");
+        // Both hours on both courts
+        assert.deepEqual(
+            hit.tiles?.map((t) => `${t.location} ${t.time_24h}`),
+            ["Court 03 18:00", "Court 03 19:00", "Court 05 18:00", "Court 05 19:00"]
+        );
+    });
+
+    test("lists only the tiles inside the window", () => {
+        const hit = findGroupSlots(blocks, 2, 60).find((h) => h.time_24h === "19:00");
+        assert.deepEqual(
+            hit?.tiles?.map((t) => `${t.location} ${t.time_24h}`),
+            ["Court 03 19:00", "Court 05 19:00"]
+        );
+    });
+
+    test("finds nothing when too few courts are free together", () => {
+        assert.deepEqual(findGroupSlots(blocks, 4, 60), []);
+        assert.deepEqual(findGroupSlots(blocks, 3, 120), []);
+    });
+});
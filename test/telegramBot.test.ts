@@ -0,0 +1,146 @@
+// test/telegramBot.test.ts
+//
+// Bot updates against a mock Bot API: who may talk to the bot, command
+// parsing, and the "Book" button callback.
+import "./setup";
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { SLOT } from "./fixtures";
+import { startMockHttp, type MockHttp } from "./mockServers";
+
+type BotModule = typeof import("../src/telegramBot");
+type WatchesModule = typeof import("../src/watches");
+
+const ADMIN_CHAT = "100";
+const MEMBER_CHAT = "200";
+const STRANGER_CHAT = "300";
+
+let api: MockHttp;
+let handleTelegramUpdate: BotModule["handleTelegramUpdate"];
+let listWatches: WatchesModule["listWatches"];
+let nextUpdateId = 1;
+
+before(async () => {
+    api = await startMockHttp();
+    Object.assign(process.env, {
+        TELEGRAM_BOT_TOKEN: "test-bot",
+        TELEGRAM_API_BASE: api.url,
+        TELEGRAM_ALLOWED_CHAT_IDS: `${ADMIN_CHAT},${MEMBER_CHAT}`,
+        TELEGRAM_WEBHOOK_SECRET: "webhook-secret-0123456789"
+    });
+    ({ handleTelegramUpdate } = await import("../src/telegramBot"));
+    ({ listWatches } = await import("../src/watches"));
+
+    const { createUser } = await import("../src/users");
+    createUser({ name: "member", notify: { telegram_chat_id: MEMBER_CHAT } });
+    // Claims a chat that is not on the allowlist
+    createUser({ name: "stranger", notify: { telegram_chat_id: STRANGER_CHAT } });
+});
+
+after(() => api.close());
+
+beforeEach(() => api.reset());
+
+function message(chatId: string, text: string) {
+    return handleTelegramUpdate({ update_id: nextUpdateId++, message: { chat: { id: Number(chatId) }, text } });
+}
+
+function button(chatId: string, data: string) {
+    return handleTelegramUpdate({
+        update_id: nextUpdateId++,
+        callback_query: { id: `q${nextUpdateId}`, data, message: { chat: { id: Number(chatId) } } }
+    });
+}
+
+/** Bot API calls made so far, as [method, body]. */
+function calls(): Array<[string, Record<string, any>]> {
+    return api.requests.map((r) => [r.path.split("/").pop()!, JSON.parse(r.body)]);
+}
+
+function replies(): string[] {
+    return calls()
+        .filter(([method]) => method === "sendMessage")
+        .map(([, body]) => body.text);
+}
+
+describe("access", () => {
+    test("ignores chats that are not allowlisted, even when a user's notify target names them", async () => {
+        await message(STRANGER_CHAT, "/help");
+        assert.deepEqual(calls(), []);
+    });
+
+    test("refuses buttons from chats that are not allowlisted", async () => {
+        await button(STRANGER_CHAT, "book:202610201800:60:Court 03");
+        assert.deepEqual(calls(), [["answerCallbackQuery", { callback_query_id: `q${nextUpdateId}`, text: "Not allowed" }]]);
+    });
+});
+
+describe("commands", () => {
+    test("/help and /start list the commands", async () => {
+        await message(ADMIN_CHAT, "/start");
+        await message(ADMIN_CHAT, "/help@UbcTennisBot");
+        const [start, help] = replies();
+        assert.match(start, /^Commands:/);
+        assert.equal(help, start);
+    });
+
+    test("unknown commands get the help text", async () => {
+        await message(ADMIN_CHAT, "/book court 3");
+        assert.match(replies()[0], /^Unknown command \/book\./);
+    });
+
+    test("plain text is not a command", async () => {
+        await message(ADMIN_CHAT, "hello");
+        assert.deepEqual(calls(), []);
+    });
+
+    test("/check rejects words the parser does not know instead of widening the search", async () => {
+        await message(ADMIN_CHAT, "/check tomorrow blorp");
+        assert.deepEqual(replies(), ['❌ I don\'t understand "blorp"']);
+    });
+
+    test("/watch, /watches and /cancel manage the chat's watches", async () => {
+        await message(MEMBER_CHAT, "/watch tomorrow after 6pm 90 min every 10m");
+        const [watch] = listWatches().filter((w) => w.notify.telegram_chat_id === MEMBER_CHAT);
+        assert.ok(watch, "a watch was created");
+        assert.equal(watch.interval_minutes, 10);
+        assert.equal(watch.preferences.start_hour, 18);
+        assert.equal(watch.preferences.min_minutes, 90);
+        assert.match(replies()[0], new RegExp(`^👀 Watching .* every 10 min \\(id ${watch.id.slice(0, 8)}\\)`));
+
+        // Another chat does not see it
+        await message(ADMIN_CHAT, "/watches");
+        assert.equal(replies()[1], "No watches for this chat. Start one with /watch.");
+
+        await message(MEMBER_CHAT, "/watches");
+        assert.match(replies()[2], new RegExp(`^• ${watch.id.slice(0, 8)}: `));
+
+        await message(MEMBER_CHAT, `/cancel ${watch.id.slice(0, 8)}`);
+        assert.equal(replies()[3], `🛑 Watch ${watch.id.slice(0, 8)} cancelled.`);
+        assert.equal(listWatches().some((w) => w.id === watch.id), false);
+    });
+
+    test("/cancel needs an id", async () => {
+        await message(MEMBER_CHAT, "/cancel");
+        assert.deepEqual(replies(), ["Usage: /cancel <id> (see /watches)"]);
+    });
+});
+
+describe("book button", () => {
+    test("answers the callback, then reports the booking outcome", async () => {
+        // The member has no UBC credentials, so the booking fails at login.
+        await button(MEMBER_CHAT, `book:20261020${SLOT.time_24h.replace(":", "")}:60:${SLOT.location}`);
+
+        const [[method, answer], [sent, body]] = calls();
+        assert.equal(method, "answerCallbackQuery");
+        assert.equal(answer.text, `Booking ${SLOT.location} 2026-10-20 18:00…`);
+        assert.equal(sent, "sendMessage");
+        assert.equal(body.chat_id, MEMBER_CHAT);
+        assert.match(body.text, /login_failed|No UBC credentials/);
+    });
+
+    test("rejects callback data it cannot decode", async () => {
+        await button(ADMIN_CHAT, "book:not-a-slot");
+        assert.deepEqual(calls().map(([, body]) => body.text), ["Unknown button"]);
+    });
+});
@@ -0,0 +1,135 @@
+// test/templates.test.ts
+//
+// renderEvent's three bodies (plain text, Telegram MarkdownV2, HTML email):
+// escaping of court names and reasons, the slot list cut-off, and buttons
+// whose callback data must fit Telegram's 64 bytes.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { bookCallbackData, escapeMarkdownV2, renderEvent } from "../src/templates";
+import { LATE_SLOT, SLOT } from "./fixtures";
+
+/** A court name using every character the three formats care about. */
+const MARKUP_SLOT = { ...LATE_SLOT, location: 'Court <1> & "2" [a_b]*.!' };
+
+describe("escapeMarkdownV2", () => {
+    test("escapes every MarkdownV2 special character and nothing else", () => {
+        assert.equal(escapeMarkdownV2("_*[]()~`>#+-=|{}.!\\"), "\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\");
+        assert.equal(escapeMarkdownV2("Court 03 – 18:00 <x & \"y\""), "Court 03 – 18:00 <x & \"y\"");
+    });
+});
+
+describe("renderEvent", () => {
+    test("booking_failed escapes the court and reason for each format", () => {
+        const message = renderEvent({
+            type: "booking_failed",
+            slot: MARKUP_SLOT,
+            reason: "slot_taken",
+            detail: "gone (already)"
+        });
+
+        assert.equal(message.priority, "warn");
+        assert.equal(
+            message.text,
+            '⚠️ Booking failed: Wed, Oct 21 20:30 (90 min) – Court <1> & "2" [a_b]*.!. Reason: slot_taken (gone (already))'
+        );
+        assert.equal(
+            message.markdown,
+            [
+                "*⚠️ Booking failed*",
+                'Wed, Oct 21 20:30 \\(90 min\\) – Court <1\\> & "2" \\[a\\_b\\]\\*\\.\\!',
+                "Reason: slot\\_taken \\(gone \\(already\\)\\)"
+            ].join("\n")
+        );
+        assert.match(message.html ?? "", /<td>Court &lt;1&gt; &amp; &quot;2&quot; \[a_b\]\*\.!<\/td>/);
+        assert.doesNotMatch(message.html ?? "", /<1>/);
+        assert.deepEqual(message.buttons, [
+            [{ text: "Try again", url: undefined, callback_data: 'book:202610212030:90:Court <1> & "2" [a_b]*.!' }]
+        ]);
+    });
+
+    test("booking_confirmed attaches an invite and links to PerfectMind", () => {
+        const message = renderEvent({ type: "booking_confirmed", slot: SLOT, confirmation_number: "BK-1.2" });
+
+        assert.equal(message.subject, "UBC Tennis Booker: booked UBC Tennis Centre - Court 03 on Tue, Oct 20 18:00");
+        assert.match(message.markdown ?? "", /^Confirmation: `BK\\-1\\.2`$/m);
+        assert.match(message.html ?? "", /Confirmation: <strong>BK-1\.2<\/strong>/);
+        assert.deepEqual(message.buttons, [[{ text: "Open in PerfectMind", url: SLOT.deep_link }]]);
+        assert.equal(message.attachments?.[0].filename, "tennis-2026-10-20-1800.ics");
+    });
+
+    test("slots_found lists at most 20 slots and offers at most 8 buttons", () => {
+        const slots = Array.from({ length: 22 }, (_, i) => ({ ...SLOT, time_24h: `${String(i).padStart(2, "0")}:00` }));
+        const message = renderEvent({ type: "slots_found", slots });
+
+        assert.equal(message.subject, "UBC Tennis Booker: 22 new slots");
+        const lines = message.text.split("\n");
+        assert.equal(lines[0], "🎾 22 new court slots opened:");
+        assert.equal(lines.length, 1 + 20 + 1);
+        assert.equal(lines[lines.length - 1], "…and 2 more");
+        assert.equal((message.markdown ?? "").split("\n")[0], "*🎾 22 new court slots opened*");
+        assert.match(message.html ?? "", /<p>…and 2 more<\/p>/);
+        assert.equal(message.buttons?.length, 8);
+        assert.deepEqual(message.buttons?.[0], [
+            {
+                text: "Book Tue, Oct 20 00:00 · UBC Tennis Centre - Court 03",
+                url: SLOT.deep_link,
+                callback_data: "book:202610200000:60:UBC Tennis Centre - Court 03"
+            }
+        ]);
+    });
+
+    test("slots_found escapes a caller's heading", () => {
+        const message = renderEvent({ type: "slots_found", slots: [SLOT], heading: "<b>Court 3!</b>" });
+
+        assert.equal(message.subject, "UBC Tennis Booker: 1 new slot");
+        assert.equal((message.markdown ?? "").split("\n")[0], "*<b\\>Court 3\\!</b\\>*");
+        assert.match(message.html ?? "", /<h2[^>]*>&lt;b&gt;Court 3!&lt;\/b&gt;<\/h2>/);
+    });
+
+    test("mfa_required is urgent and gives the deadline in facility time", () => {
+        const message = renderEvent({
+            type: "mfa_required",
+            account: "a_b",
+            methods: ["passcode"],
+            expires_at: "2026-10-20T01:05:00Z"
+        });
+
+        assert.equal(message.priority, "urgent");
+        assert.equal(message.subject, "UBC Tennis Booker: Duo approval needed by Mon, Oct 19, 6:05 PM");
+        assert.match(message.text, /Send a Duo passcode \(POST \/session\/mfa\) by Mon, Oct 19, 6:05 PM\.$/);
+        assert.match(message.markdown ?? "", /account "a\\_b" is waiting/);
+        assert.match(message.html ?? "", /account &quot;a_b&quot; is waiting/);
+    });
+});
+
+describe("bookCallbackData", () => {
+    // "book:202610201800:60:" is 21 bytes, leaving 43 for the court name.
+    const withLocation = (location: string) => bookCallbackData({ ...SLOT, location });
+
+    test("accepts data of exactly 64 bytes", () => {
+        const data = withLocation("C".repeat(43));
+        assert.equal(Buffer.byteLength(data ?? ""), 64);
+    });
+
+    test("counts bytes, not characters", () => {
+        // 43 characters, but the en dash is 3 bytes in UTF-8
+        assert.equal(withLocation(`Court – ${"C".repeat(35)}`), null);
+    });
+
+    test("drops the button for a long name but keeps the deep link", () => {
+        const slot = { ...SLOT, location: `UBC Tennis Centre - ${"Indoor ".repeat(5)}Court 03` };
+        const message = renderEvent({ type: "slots_found", slots: [slot] });
+
+        assert.equal(bookCallbackData(slot), null);
+        assert.deepEqual(message.buttons, [
+            [{ text: `Book Tue, Oct 20 18:00 · ${slot.location}`, url: SLOT.deep_link, callback_data: undefined }]
+        ]);
+    });
+
+    test("group slots have no book button", () => {
+        const tile = { ...SLOT, tiles: undefined };
+        const group = { ...SLOT, location: "Court 03 + Court 04", tiles: [tile, { ...tile, location: "Court 04" }] };
+        assert.equal(bookCallbackData(group), null);
+    });
+});
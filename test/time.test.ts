@@ -0,0 +1,82 @@
+// test/time.test.ts
+//
+// Facility-time conversions across the America/Vancouver DST transitions
+// (spring forward 2026-03-08, fall back 2026-11-01), slot times built on
+// them, and the start_hour/end_hour filter.
+import "./setup";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { slotTimes } from "../src/slots";
+import { FACILITY_TIME_ZONE, facilityToday, formatZonedIso, zonedTimeToUtc } from "../src/time";
+import { outsideHours } from "../src/ubc";
+
+const utc = (dateIso: string, time24: string) => zonedTimeToUtc(dateIso, time24, FACILITY_TIME_ZONE).toISOString();
+const local = (iso: string) => formatZonedIso(new Date(iso), FACILITY_TIME_ZONE);
+
+describe("zonedTimeToUtc", () => {
+    test("uses standard time before spring forward and daylight time after", () => {
+        assert.equal(utc("2026-03-08", "01:30"), "2026-03-08T09:30:00.000Z");
+        assert.equal(utc("2026-03-08", "03:00"), "2026-03-08T10:00:00.000Z");
+    });
+
+    test("moves a time skipped by spring forward past the gap", () => {
+        assert.equal(utc("2026-03-08", "02:30"), "2026-03-08T10:30:00.000Z");
+        assert.equal(local("2026-03-08T10:30:00Z"), "2026-03-08T03:30:00-07:00");
+    });
+
+    test("takes the first occurrence of a time repeated by fall back", () => {
+        assert.equal(utc("2026-11-01", "00:30"), "2026-11-01T07:30:00.000Z");
+        assert.equal(utc("2026-11-01", "01:00"), "2026-11-01T08:00:00.000Z");
+        assert.equal(utc("2026-11-01", "01:30"), "2026-11-01T08:30:00.000Z");
+        assert.equal(utc("2026-11-01", "02:00"), "2026-11-01T10:00:00.000Z");
+    });
+});
+
+describe("formatZonedIso", () => {
+    test("tells the two 01:30s on fall-back day apart by their offset", () => {
+        assert.equal(local("2026-11-01T08:30:00Z"), "2026-11-01T01:30:00-07:00");
+        assert.equal(local("2026-11-01T09:30:00Z"), "2026-11-01T01:30:00-08:00");
+    });
+
+    test("jumps from 01:59 to 03:00 on spring-forward day", () => {
+        assert.equal(local("2026-03-08T09:59:00Z"), "2026-03-08T01:59:00-08:00");
+        assert.equal(local("2026-03-08T10:00:00Z"), "2026-03-08T03:00:00-07:00");
+    });
+});
+
+describe("slotTimes", () => {
+    test("an hour starting at 01:00 on fall-back day ends at the second 01:00", () => {
+        const { start_iso: start, end_iso: end } = slotTimes("2026-11-01", "01:00", 60);
+        assert.equal(start, "2026-11-01T01:00:00-07:00");
+        assert.equal(end, "2026-11-01T01:00:00-08:00");
+        assert.equal(Date.parse(end) - Date.parse(start), 60 * 60_000);
+    });
+
+    test("a slot spanning spring forward lasts its minutes, not its wall-clock span", () => {
+        const { start_iso: start, end_iso: end } = slotTimes("2026-03-08", "01:30", 60);
+        assert.equal(start, "2026-03-08T01:30:00-08:00");
+        assert.equal(end, "2026-03-08T03:30:00-07:00");
+        assert.equal(Date.parse(end) - Date.parse(start), 60 * 60_000);
+    });
+});
+
+describe("facilityToday", () => {
+    test("is the Vancouver date, not the UTC one", () => {
+        assert.equal(facilityToday(new Date("2026-11-01T06:30:00Z")), "2026-10-31");
+        assert.equal(facilityToday(new Date("2026-11-01T08:30:00Z")), "2026-11-01");
+    });
+});
+
+describe("outsideHours", () => {
+    test("rejects a tile that starts inside the window but ends after end_hour", () => {
+        assert.equal(outsideHours("20:30", "21:30", 60, { end_hour: 21 }), "ends 21:30, after 21:00");
+    });
+
+    test("keeps a tile that ends exactly at end_hour", () => {
+        assert.equal(outsideHours("20:00", "21:00", 60, { end_hour: 21 }), null);
+    });
+
+    test("rejects a tile that starts before start_hour", () => {
+        assert.equal(outsideHours("17:30", "18:30", 60, { start_hour: 18 }), "starts 17:30, before 18:00");
+    });
+});
@@ -0,0 +1,121 @@
+// test/ubc.test.ts
+//
+// Tile parsing on its own, then full scans against the PerfectMind fixture
+// (src/dev/perfectmindFixture.ts): the login chain, which tiles count as
+// open, and preference filtering. The scans need Playwright's Chromium and
+// are skipped where it is not installed.
+import "./setup";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type { Server } from "node:http";
+import { after, before, describe, test } from "node:test";
+import { chromium } from "playwright";
+import { COURTS, createFixtureApp, tileState } from "../src/dev/perfectmindFixture";
+import { closeBrowser, getSessionStatus } from "../src/session";
+import { slotTiles } from "../src/slots";
+import { addDaysIso, facilityToday } from "../src/time";
+import { checkAvailability, durationMinutes, parseTileTitle, to24h, type Slot } from "../src/ubc";
+
+const NO_BROWSER = fs.existsSync(chromium.executablePath()) ? false : "Playwright Chromium is not installed";
+
+describe("to24h", () => {
+    test("converts 12-hour times", () => {
+        assert.equal(to24h("03:00 PM"), "15:00");
+        assert.equal(to24h("9:30 am"), "09:30");
+        assert.equal(to24h(" 11:45 PM "), "23:45");
+    });
+
+    test("maps midnight and noon", () => {
+        assert.equal(to24h("12:00 AM"), "00:00");
+        assert.equal(to24h("12:30 PM"), "12:30");
+    });
+
+    test("rejects anything else", () => {
+        assert.equal(to24h("15:00"), null);
+        assert.equal(to24h("3 PM"), null);
+        assert.equal(to24h(""), null);
+    });
+});
+
+describe("durationMinutes", () => {
+    test("counts minutes between 24-hour times", () => {
+        assert.equal(durationMinutes("07:00", "08:00"), 60);
+        assert.equal(durationMinutes("20:30", "22:00"), 90);
+        assert.equal(durationMinutes("00:00", "00:45"), 45);
+    });
+
+    test("parseTileTitle uses it for the tile length", () => {
+        assert.deepEqual(parseTileTitle("08:00 PM-09:30 PM"), { start24: "20:00", end24: "21:30", minutes: 90 });
+        assert.equal(parseTileTitle("Book Now"), null);
+    });
+});
+
+// ------------------------------- FIXTURE -------------------------------------
+
+/** "court id|date|hour" for every fixture tile a slot covers. */
+function coveredTiles(slots: Slot[]): string[] {
+    return slots
+        .flatMap(slotTiles)
+        .map((tile) => {
+            const courtId = Number(tile.location.match(/Court (\d+)/)?.[1]);
+            return `${courtId}|${tile.date_iso}|${Number(tile.time_24h.slice(0, 2))}`;
+        })
+        .sort();
+}
+
+describe("checkAvailability against the fixture", { skip: NO_BROWSER }, () => {
+    const tomorrow = addDaysIso(facilityToday(), 1);
+    let server: Server;
+
+    before(async () => {
+        await new Promise<void>((resolve) => {
+            server = createFixtureApp().listen(Number(process.env.FIXTURE_PORT), resolve);
+        });
+    });
+
+    after(async () => {
+        await closeBrowser();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test("logs in through the portal, CWL form and SAML redirect", async () => {
+        const before = await getSessionStatus();
+        assert.equal(before.last_login_at, null);
+
+        const result = await checkAvailability({ dates: [tomorrow], start_hour: 21 });
+
+        assert.equal(result.diagnostics.login.logged_in, true);
+        assert.equal(result.diagnostics.login.relogged, true);
+        assert.ok(result.courts.every((c) => c.status === "scanned"));
+        assert.notEqual((await getSessionStatus()).last_login_at, null);
+    });
+
+    test("returns only open tiles, filtered by the preferences", async () => {
+        const result = await checkAvailability({
+            dates: [tomorrow],
+            start_hour: 12,
+            end_hour: 21,
+            locations: ["Court 03", "Court 09"]
+        });
+
+        const expected: string[] = [];
+        for (const court of COURTS.filter((c) => c.id === 3 || c.id === 9)) {
+            for (let hour = 12; hour < 21; hour++) {
+                if (tileState(court.id, tomorrow, hour) === "open") expected.push(`${court.id}|${tomorrow}|${hour}`);
+            }
+        }
+        assert.deepEqual(coveredTiles(result.slots), expected.sort());
+        assert.ok(result.diagnostics.filtered.unavailable > 0, "booked and disabled tiles are counted as unavailable");
+        assert.ok(
+            result.courts.filter((c) => c.status === "skipped").length === COURTS.length - 2,
+            "courts outside `locations` are skipped"
+        );
+    });
+
+    test("drops blocks shorter than min_minutes", async () => {
+        const result = await checkAvailability({ dates: [tomorrow], start_hour: 7, min_minutes: 120 });
+        assert.ok(result.slots.length > 0);
+        assert.ok(result.slots.every((slot) => slot.minutes >= 120));
+        assert.ok(result.diagnostics.filtered.too_short > 0);
+    });
+});